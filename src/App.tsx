@@ -7,17 +7,35 @@ import { Segmentation } from './pages/Segmentation'
 import { Analytics } from './pages/Analytics'
 import { AIInsights } from './pages/AIInsights'
 import { RiskAssessment } from './pages/RiskAssessment'
+import { AmlMonitoring } from './pages/AmlMonitoring'
+import { Screening } from './pages/Screening'
+import { KycReview } from './pages/KycReview'
+import { AIUsage } from './pages/AIUsage'
+import { Prompts } from './pages/Prompts'
 import { blink } from './blink/client'
+import { db, isOfflineBackend } from './data'
+import type { DataUser } from './data'
+import { MetricSnapshots } from './services/metricSnapshots'
+import { ChurnModel } from './services/churnModel'
 import { Toaster } from './components/ui/toaster'
 import { Button } from './components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './components/ui/card'
 import { Brain, Building2, Shield, Users } from 'lucide-react'
 
 function App() {
-  const [user, setUser] = useState(null)
+  const [user, setUser] = useState<DataUser | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
+    // Offline backends have no hosted auth, so sign in as the local analyst
+    if (isOfflineBackend) {
+      db.currentUser().then(localUser => {
+        setUser(localUser)
+        setLoading(false)
+      })
+      return
+    }
+
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
       setUser(state.user)
       setLoading(state.isLoading)
@@ -25,6 +43,31 @@ function App() {
     return unsubscribe
   }, [])
 
+  const userId = user?.id
+
+  useEffect(() => {
+    if (!userId) return
+
+    // Daily KPI snapshot for trend lines and periodic churn retraining, checked
+    // hourly while the app is open. Keyed on the user id so auth refreshes that
+    // hand back a new user object don't restart the schedule.
+    const runScheduledJobs = () => {
+      db.currentUser().then(jobUser => {
+        MetricSnapshots.captureIfDue(jobUser).catch(error => {
+          console.error('Error capturing metric snapshot:', error)
+        })
+        ChurnModel.retrainIfDue(jobUser).catch(error => {
+          console.error('Error retraining churn model:', error)
+        })
+      }).catch(error => {
+        console.error('Error loading user for scheduled jobs:', error)
+      })
+    }
+    runScheduledJobs()
+    const timer = setInterval(runScheduledJobs, 60 * 60 * 1000)
+    return () => clearInterval(timer)
+  }, [userId])
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
@@ -106,6 +149,11 @@ function App() {
             <Route path="/analytics" element={<Analytics />} />
             <Route path="/insights" element={<AIInsights />} />
             <Route path="/risk" element={<RiskAssessment />} />
+            <Route path="/aml" element={<AmlMonitoring />} />
+            <Route path="/screening" element={<Screening />} />
+            <Route path="/kyc" element={<KycReview />} />
+            <Route path="/ai-usage" element={<AIUsage />} />
+            <Route path="/prompts" element={<Prompts />} />
           </Routes>
         </main>
         <Toaster />
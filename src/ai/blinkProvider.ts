@@ -0,0 +1,24 @@
+import { blink } from '../blink/client'
+import type { AIProvider } from './types'
+
+/**
+ * AI provider backed by the hosted Blink project; requires sign-in
+ */
+export function createBlinkProvider(): AIProvider {
+  return {
+    name: 'blink',
+    generateText: async ({ prompt, system, maxTokens, temperature }) => {
+      const { text, usage } = await blink.ai.generateText(system
+        ? { messages: [{ role: 'system', content: system }, { role: 'user', content: prompt }], maxTokens, temperature }
+        : { prompt, maxTokens, temperature })
+      return { text, usage }
+    },
+    generateObject: async ({ prompt, schema, system }) => {
+      const { object, usage } = await blink.ai.generateObject({
+        prompt: system ? `${system}\n\n${prompt}` : prompt,
+        schema
+      })
+      return { object, usage }
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Canned responses for the mock provider, matched against the prompt. Values
+ * the prompt already carries (counts, scorecard results) are echoed back so
+ * the mock stays consistent with the data on screen.
+ */
+export interface MockFixture {
+  name: string
+  match: RegExp
+  text?: (prompt: string) => string
+  object?: (prompt: string) => unknown
+}
+
+const numberAfter = (prompt: string, label: string): number | null => {
+  const match = prompt.match(new RegExp(`${label}:?\\s*\\$?([\\d.,]+)`))
+  return match ? Number(match[1].replace(/,/g, '')) : null
+}
+
+export const DEFAULT_FIXTURES: MockFixture[] = [
+  {
+    name: 'segment-naming',
+    match: /name and describe each cluster/i,
+    // No renames: the local archetype names stand
+    object: () => ({ segments: [] })
+  },
+  {
+    name: 'portfolio-insights',
+    match: /generate 5-8 actionable business insights/i,
+    text: (prompt) => {
+      const total = numberAfter(prompt, 'Total customers') || 0
+      const highValue = numberAfter(prompt, 'High-value customers \\(>\\$50k\\)') || 0
+      const highRisk = numberAfter(prompt, 'High-risk customers') || 0
+      return JSON.stringify([
+        {
+          title: 'Deepen relationships with high-value customers',
+          description: `${highValue} of ${total} customers hold more than $50k. Offer relationship manager coverage and wealth products to protect these balances.`,
+          type: 'opportunity',
+          priority: 'high',
+          confidence: 0.82
+        },
+        {
+          title: 'Review exposure on high-risk customers',
+          description: `${highRisk} customers carry a risk score above 0.7. Tighten limits and prioritise them for the next risk assessment run.`,
+          type: 'risk_alert',
+          priority: highRisk > 0 ? 'high' : 'low',
+          confidence: 0.78
+        },
+        {
+          title: 'Re-engage customers with falling activity',
+          description: 'Customers with long gaps since their last transaction churn first. Target them with a reactivation offer before balances move out.',
+          type: 'retention',
+          priority: 'medium',
+          confidence: 0.7
+        },
+        {
+          title: 'Cross-sell cards to active transactors',
+          description: 'Frequent transactors without a card product are the cheapest cross-sell. Lead with cashback on their top merchant categories.',
+          type: 'cross_sell',
+          priority: 'medium',
+          confidence: 0.66
+        },
+        {
+          title: 'Shift routine servicing to digital channels',
+          description: 'Branch and phone interactions for balance and statement requests can move to mobile. This frees advisers for advice-led conversations.',
+          type: 'operational',
+          priority: 'low',
+          confidence: 0.6
+        }
+      ])
+    }
+  },
+  {
+    name: 'customer-insights',
+    match: /individual banking customer profile/i,
+    object: () => ({
+      insights: [
+        {
+          type: 'product',
+          title: 'Offer a high-yield savings account',
+          description: 'Idle balances earn little in the current account.',
+          priority: 'medium',
+          confidence: 0.7,
+          recommendation: 'Propose moving surplus funds into high-yield savings.',
+          potentialRevenue: 250
+        },
+        {
+          type: 'engagement',
+          title: 'Encourage mobile banking adoption',
+          description: 'Digital engagement is linked to longer retention.',
+          priority: 'low',
+          confidence: 0.6,
+          recommendation: 'Send a mobile onboarding journey.',
+          potentialRevenue: 50
+        },
+        {
+          type: 'retention',
+          title: 'Schedule a relationship review',
+          description: 'A periodic review keeps product fit current.',
+          priority: 'medium',
+          confidence: 0.65,
+          recommendation: 'Book an annual review with the customer.',
+          potentialRevenue: 120
+        }
+      ]
+    })
+  },
+  {
+    name: 'risk-assessment',
+    match: /assess the risk level for this banking customer/i,
+    object: (prompt) => {
+      const scorecard = prompt.match(/Credit Scorecard \([^)]*\): (\d+) \((\w+)\)/)
+      const reasons = prompt.match(/Adverse-action reasons: (.*)/)?.[1]
+      const riskLevel = scorecard ? scorecard[2] : 'medium'
+      const score = scorecard ? Number(scorecard[1]) : 650
+      return {
+        riskScore: Math.round((1 - (score - 300) / 550) * 100) / 100,
+        riskLevel,
+        factors: reasons && reasons !== 'none'
+          ? reasons.split('; ').map(r => r.replace(/^RC\d+\s+/, ''))
+          : ['No adverse scorecard factors'],
+        recommendations: riskLevel === 'low'
+          ? ['Standard monitoring']
+          : ['Review credit limits', 'Monitor transactions for unusual activity']
+      }
+    }
+  },
+  {
+    name: 'product-recommendations',
+    match: /personalized banking product recommendations/i,
+    object: () => ({
+      recommendations: [
+        {
+          productType: 'savings',
+          productName: 'High-Yield Savings',
+          reasoning: 'Surplus balance can earn more interest.',
+          recommendationScore: 0.8,
+          potentialRevenue: 300,
+          priority: 'high'
+        },
+        {
+          productType: 'credit_card',
+          productName: 'Cashback Rewards Card',
+          reasoning: 'Regular card spend suits a cashback product.',
+          recommendationScore: 0.7,
+          potentialRevenue: 450,
+          priority: 'medium'
+        },
+        {
+          productType: 'investment',
+          productName: 'Retirement Savings Plan',
+          reasoning: 'Long-term saving complements current products.',
+          recommendationScore: 0.6,
+          potentialRevenue: 600,
+          priority: 'low'
+        }
+      ]
+    })
+  }
+]
@@ -0,0 +1,124 @@
+import { db, isOfflineBackend, reduceRecords } from '../data'
+import { createBlinkProvider } from './blinkProvider'
+import { createMockProvider } from './mockProvider'
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider'
+import { createRedactingProvider, KnownEntityIndex } from './redaction'
+import { createScheduledProvider } from './scheduler'
+import { readSetting } from './settings'
+import { createUsageMeter, loadAILimits } from './usage'
+import type { PiiEntity, RedactionAuditEntry } from './redaction'
+import type { AIProvider, AIProviderName } from './types'
+
+export type * from './types'
+
+const PROVIDERS: AIProviderName[] = ['blink', 'mock', 'openai']
+
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1'
+const DEFAULT_OPENAI_MODEL = 'llama3.1'
+
+// Customer identities are reloaded at most this often for redaction
+const KNOWN_ENTITY_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Resolve the provider once at startup, the same way as the data backend: an
+ * `aiProvider` entry in localStorage overrides VITE_AI_PROVIDER. Offline data
+ * backends have no Blink session, so they default to the mock provider.
+ */
+function resolveProvider(): AIProviderName {
+  const configured = readSetting('aiProvider') || import.meta.env.VITE_AI_PROVIDER
+  if (PROVIDERS.includes(configured as AIProviderName)) return configured as AIProviderName
+  return isOfflineBackend ? 'mock' : 'blink'
+}
+
+export function createAIProvider(name: AIProviderName): AIProvider {
+  switch (name) {
+    case 'mock':
+      return createMockProvider()
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: readSetting('aiBaseUrl') || import.meta.env.VITE_AI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+        model: readSetting('aiModel') || import.meta.env.VITE_AI_MODEL || DEFAULT_OPENAI_MODEL,
+        apiKey: import.meta.env.VITE_AI_API_KEY
+      })
+    default:
+      return createBlinkProvider()
+  }
+}
+
+let knownEntityCache: { loadedAt: number; entities: Promise<KnownEntityIndex> } | null = null
+
+/**
+ * Every customer's name, email, phone, address and customer number, so they
+ * are tokenized wherever they turn up in a prompt. The index is built once
+ * per load and shared by every call until it expires.
+ */
+function loadKnownEntities(): Promise<KnownEntityIndex> {
+  if (!knownEntityCache || Date.now() - knownEntityCache.loadedAt > KNOWN_ENTITY_TTL_MS) {
+    const entities = reduceRecords(db.customers, (acc: PiiEntity[], c) => {
+      acc.push(
+        { type: 'name', value: `${c.firstName} ${c.lastName}` },
+        { type: 'email', value: c.email },
+        { type: 'phone', value: c.phone },
+        { type: 'address', value: c.address },
+        { type: 'customer_number', value: c.customerNumber }
+      )
+      return acc
+    }, []).then(loaded => new KnownEntityIndex(loaded))
+    // Drop a failed load so the next call retries
+    entities.catch(() => { knownEntityCache = null })
+    knownEntityCache = { loadedAt: Date.now(), entities }
+  }
+  return knownEntityCache.entities
+}
+
+async function recordRedactionAudit(entry: RedactionAuditEntry): Promise<void> {
+  const user = await db.currentUser()
+  await db.aiRedactionAudits.create({
+    id: `redaction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    userId: user.id,
+    provider: entry.provider,
+    operation: entry.operation,
+    redactions: JSON.stringify(entry.redactions),
+    redactionCount: entry.redactions.length
+  })
+}
+
+export const aiProviderName = resolveProvider()
+
+const usageMeter = createUsageMeter()
+
+// All app code goes through the redaction gateway, whichever provider is configured,
+// then the scheduler, so usage is metered on what the provider actually receives
+export const ai = createRedactingProvider(
+  createScheduledProvider(createAIProvider(aiProviderName), {
+    limits: () => loadAILimits(aiProviderName),
+    spentToday: usageMeter.spentToday,
+    onUsage: usageMeter.record
+  }),
+  {
+    knownEntities: loadKnownEntities,
+    onAudit: recordRedactionAudit
+  }
+)
+
+export { createMockProvider } from './mockProvider'
+export { DEFAULT_FIXTURES } from './fixtures'
+export type { MockFixture } from './fixtures'
+export { generateStructured, AIValidationError } from './structured'
+export type { StructuredGenerationOptions } from './structured'
+export { validateSchema, extractJson } from './validation'
+export { KnownEntityIndex, RedactionSession, createRedactingProvider } from './redaction'
+export type { PiiEntity, PiiType, Redaction, RedactionAuditEntry } from './redaction'
+export { AIBudgetExceededError, createScheduledProvider } from './scheduler'
+export type { AISchedulerLimits, AICallUsage } from './scheduler'
+export { AI_FEATURES, defaultAILimits, loadAILimits, saveAILimits, summarizeUsage, usageDay } from './usage'
+export type { FeatureUsageSummary, DailyUsage } from './usage'
+export {
+  BUILT_IN_PROMPTS,
+  CUSTOMER_PROMPTS,
+  PROMPT_LABELS,
+  promptRef,
+  renderPrompt,
+  templateVariables
+} from './prompts'
+export type { PromptName, PromptTemplate } from './prompts'
@@ -0,0 +1,74 @@
+import { DEFAULT_FIXTURES } from './fixtures'
+import type { MockFixture } from './fixtures'
+import type { AIProvider, JsonSchema } from './types'
+
+// FNV-1a, so the same prompt always seeds the same output
+function hashPrompt(prompt: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < prompt.length; i++) {
+    hash ^= prompt.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// mulberry32
+function seededRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Build a value that satisfies the schema, for prompts without a fixture
+ */
+function synthesize(schema: JsonSchema, random: () => number, key: string): unknown {
+  if (schema.enum && schema.enum.length > 0) return schema.enum[Math.floor(random() * schema.enum.length)]
+
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, child]) => [name, synthesize(child, random, name)])
+      )
+    case 'array':
+      return Array.from({ length: 3 }, (_, i) => synthesize(schema.items || { type: 'string' }, random, `${key} ${i + 1}`))
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? 0
+      const max = schema.maximum ?? (/score|confidence|probability|rate/i.test(key) ? 1 : 1000)
+      const value = min + random() * (max - min)
+      return schema.type === 'integer' || max > 1 ? Math.round(value) : Math.round(value * 100) / 100
+    }
+    case 'boolean':
+      return random() >= 0.5
+    default:
+      return `Mock ${key}`
+  }
+}
+
+/**
+ * Deterministic provider for development and tests: fixtures first, then
+ * schema-shaped values seeded from the prompt. Never touches the network.
+ */
+export function createMockProvider(fixtures: MockFixture[] = DEFAULT_FIXTURES): AIProvider {
+  const findFixture = (prompt: string) => fixtures.find(fixture => fixture.match.test(prompt))
+
+  return {
+    name: 'mock',
+    generateText: async ({ prompt }) => {
+      const fixture = findFixture(prompt)
+      if (fixture?.text) return { text: fixture.text(prompt) }
+      if (fixture?.object) return { text: JSON.stringify(fixture.object(prompt)) }
+      return { text: `Mock response ${hashPrompt(prompt).toString(16)}` }
+    },
+    generateObject: async ({ prompt, schema }) => {
+      const fixture = findFixture(prompt)
+      if (fixture?.object) return { object: fixture.object(prompt) }
+      return { object: synthesize(schema, seededRandom(hashPrompt(prompt)), 'value') }
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { extractJson } from './validation'
+import type { AIProvider, TokenUsage } from './types'
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string // e.g. http://localhost:11434/v1 for Ollama, http://localhost:1234/v1 for LM Studio
+  model: string
+  apiKey?: string
+}
+
+interface ChatMessage {
+  role: 'system' | 'user'
+  content: string
+}
+
+/**
+ * AI provider for any server speaking the OpenAI chat completions API,
+ * such as Ollama, LM Studio, llama.cpp or vLLM running locally
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): AIProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '')
+
+  const complete = async (
+    messages: ChatMessage[],
+    extra: Record<string, unknown>
+  ): Promise<{ content: string; usage?: TokenUsage }> => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: config.model, messages, ...extra })
+    })
+    if (!response.ok) {
+      throw new Error(`AI endpoint ${baseUrl} returned ${response.status}: ${await response.text()}`)
+    }
+
+    const data = await response.json()
+    const content = data?.choices?.[0]?.message?.content
+    if (typeof content !== 'string') throw new Error(`AI endpoint ${baseUrl} returned no message content`)
+    const usage = data.usage
+      ? { promptTokens: data.usage.prompt_tokens || 0, completionTokens: data.usage.completion_tokens || 0 }
+      : undefined
+    return { content, usage }
+  }
+
+  return {
+    name: 'openai',
+    generateText: async ({ prompt, system, maxTokens, temperature }) => {
+      const messages: ChatMessage[] = system
+        ? [{ role: 'system', content: system }, { role: 'user', content: prompt }]
+        : [{ role: 'user', content: prompt }]
+      const { content, usage } = await complete(messages, { max_tokens: maxTokens, temperature })
+      return { text: content, usage }
+    },
+    generateObject: async ({ prompt, schema, system }) => {
+      const instructions = `Respond only with JSON matching this JSON Schema:\n${JSON.stringify(schema)}`
+      const { content, usage } = await complete(
+        [
+          { role: 'system', content: system ? `${system}\n\n${instructions}` : instructions },
+          { role: 'user', content: prompt }
+        ],
+        { response_format: { type: 'json_schema', json_schema: { name: 'response', schema } }, temperature: 0 }
+      )
+
+      try {
+        return { object: JSON.parse(extractJson(content)), usage }
+      } catch {
+        throw new Error(`AI endpoint ${baseUrl} returned invalid JSON`)
+      }
+    }
+  }
+}
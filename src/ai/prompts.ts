@@ -0,0 +1,171 @@
+export type PromptName =
+  | 'segment-naming'
+  | 'portfolio-insights'
+  | 'customer-insights'
+  | 'risk-assessment'
+  | 'product-recommendations'
+
+/**
+ * A named, versioned prompt. Variables are written {{name}} and must all be
+ * supplied when the template is rendered.
+ */
+export interface PromptTemplate {
+  name: PromptName
+  version: string
+  template: string
+  notes?: string
+  builtIn: boolean
+}
+
+export const PROMPT_LABELS: Record<PromptName, string> = {
+  'segment-naming': 'Segment naming',
+  'portfolio-insights': 'Portfolio insights',
+  'customer-insights': 'Customer insights',
+  'risk-assessment': 'Risk assessment',
+  'product-recommendations': 'Product recommendations'
+}
+
+// Prompts that run per customer, so two versions can be compared on the same customers
+export const CUSTOMER_PROMPTS: PromptName[] = ['customer-insights', 'risk-assessment', 'product-recommendations']
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+export const promptRef = (name: PromptName, version: string) => `${name}@${version}`
+
+export function templateVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(VARIABLE_PATTERN)].map(match => match[1]))]
+}
+
+export function renderPrompt(template: string, variables: Record<string, string | number>): string {
+  return template.replace(VARIABLE_PATTERN, (_, name: string) => {
+    if (!(name in variables)) throw new Error(`Prompt variable {{${name}}} was not supplied`)
+    return String(variables[name])
+  })
+}
+
+export const BUILT_IN_PROMPTS: PromptTemplate[] = [
+  {
+    name: 'segment-naming',
+    version: 'v1',
+    builtIn: true,
+    template: `These customer segments were produced by k-means clustering over {{customerCount}} banking customers. Membership is final; your job is only to name and describe each cluster.
+
+Cluster Statistics:
+{{clusterSummary}}
+
+For each cluster, provide:
+- clusterId: Copy the clusterId exactly as given
+- segmentName: Clear, business-friendly name that reflects what makes the cluster distinct
+- insights: 2-3 actionable business insights for this segment
+
+Names must be distinct across clusters. Base them on the statistics, e.g. high-value, growth potential, digital-first, risk-averse savers, active traders, dormant accounts.`
+  },
+  {
+    name: 'portfolio-insights',
+    version: 'v1',
+    builtIn: true,
+    template: `Analyze this banking customer data and generate 5-8 actionable business insights:
+
+Customer Data Summary:
+- Total customers: {{totalCustomers}}
+- Average balance: {{averageBalance}}
+- High-value customers (>$50k): {{highValueCustomers}}
+- High-risk customers: {{highRiskCustomers}}
+- Active segments: {{activeSegments}}
+
+Generate insights for:
+1. Revenue opportunities
+2. Risk management alerts
+3. Customer retention strategies
+4. Cross-selling opportunities
+5. Operational improvements
+6. Market trends
+7. Customer behavior patterns
+
+For each insight, provide:
+- title (concise, actionable)
+- description (2-3 sentences with specific recommendations)
+- type (opportunity, risk_alert, retention, cross_sell, operational, trend, behavior)
+- priority (high, medium, low)
+- confidence (0.0-1.0)
+
+Return as JSON array with fields: title, description, type, priority, confidence`
+  },
+  {
+    name: 'customer-insights',
+    version: 'v1',
+    builtIn: true,
+    template: `Analyze this individual banking customer profile and generate 3-5 actionable insights:
+
+Customer Profile:
+- Balance: {{balance}}
+- Credit Score: {{creditScore}}
+- Annual Income: {{annualIncome}}
+- Risk Score: {{riskScore}}
+- Transaction Count: {{transactionCount}}
+- Account Age: {{accountAge}} months
+- Last Transaction: {{lastTransactionDays}} days ago
+
+Generate insights for:
+1. Product recommendations
+2. Risk assessment
+3. Engagement opportunities
+4. Revenue optimization
+5. Retention strategies
+
+Each insight should include type, priority, confidence, and actionable recommendation.`
+  },
+  {
+    name: 'risk-assessment',
+    version: 'v1',
+    builtIn: true,
+    template: `Assess the risk level for this banking customer:
+
+Customer Profile:
+- Balance: {{balance}}
+- Credit Score: {{creditScore}}
+- Income: {{annualIncome}}
+- Transaction Count: {{transactionCount}}
+- Account Age: {{accountAge}} months
+- Current Risk Score: {{riskScore}}
+
+Credit Scorecard ({{scorecardVersion}}): {{scorecardScore}} ({{scorecardRiskLevel}})
+Adverse-action reasons: {{adverseReasons}}
+
+Recent Transaction Patterns:
+{{recentTransactions}}
+
+Assess risk based on:
+1. Credit worthiness
+2. Transaction patterns
+3. Account behavior
+4. Income stability
+5. Fraud indicators
+
+Provide risk score (0.0-1.0), level (low/medium/high/critical), risk factors, and recommendations.`
+  },
+  {
+    name: 'product-recommendations',
+    version: 'v1',
+    builtIn: true,
+    template: `Generate personalized banking product recommendations for this customer:
+
+Customer Profile:
+- Balance: {{balance}}
+- Credit Score: {{creditScore}}
+- Annual Income: {{annualIncome}}
+- Risk Score: {{riskScore}}
+- Transaction Activity: {{transactionCount}} transactions
+- Account Age: {{accountAge}} months
+
+Available Products:
+- Savings Accounts (high-yield, money market)
+- Credit Cards (rewards, cashback, travel)
+- Loans (personal, auto, mortgage)
+- Investment Products (CDs, mutual funds, retirement)
+- Insurance (life, auto, home)
+- Business Banking (if applicable)
+
+Recommend 3-5 products with reasoning, expected revenue, and recommendation score.`
+  }
+]
@@ -0,0 +1,227 @@
+import type { AIProvider, AIProviderName } from './types'
+
+export type PiiType = 'name' | 'email' | 'phone' | 'address' | 'customer_number'
+
+export interface PiiEntity {
+  type: PiiType
+  value: string
+}
+
+export interface Redaction {
+  token: string
+  type: PiiType
+}
+
+/**
+ * What one call had redacted. Only tokens and types are recorded, never the
+ * original values, so the audit trail is not itself a PII store.
+ */
+export interface RedactionAuditEntry {
+  provider: AIProviderName
+  operation: 'text' | 'object'
+  redactions: Redaction[]
+}
+
+export interface RedactingProviderOptions {
+  // Identities known to the app (customer names, emails...) to tokenize wherever they appear
+  knownEntities?: () => Promise<KnownEntityIndex>
+  onAudit?: (entry: RedactionAuditEntry) => void | Promise<void>
+}
+
+// Patterns for PII the app does not already know about, e.g. typed into free text
+const PII_PATTERNS: { type: PiiType; pattern: RegExp }[] = [
+  { type: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  { type: 'customer_number', pattern: /\bBNK\d{6}\b/g },
+  { type: 'phone', pattern: /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g },
+  {
+    type: 'address',
+    pattern: /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl)\b\.?/g
+  },
+  { type: 'name', pattern: /\b(?:Mr|Mrs|Ms|Miss|Dr)\.?\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?/g }
+]
+
+const MIN_ENTITY_LENGTH = 4
+const TOKEN_PATTERN = /\[(?:NAME|EMAIL|PHONE|ADDRESS|CUSTOMER_NUMBER)_\d+\]/g
+
+const WORD_PATTERN = /[a-z0-9]+/g
+const isWordChar = (char: string | undefined) => char !== undefined && /\w/.test(char)
+
+// Lowercase without changing the length, so offsets line up with the original text
+const lowerCase = (text: string) => Array.from(text, char => {
+  const lower = char.toLowerCase()
+  return lower.length === char.length ? lower : char
+}).join('')
+
+interface IndexedEntity {
+  type: PiiType
+  value: string // lowercased
+  lead: number // offset of the first word within the value
+}
+
+interface EntityMatch {
+  type: PiiType
+  start: number
+  end: number
+}
+
+/**
+ * Known entities keyed by their first word, lowercased and longest first.
+ * Build it once per entity load; each prompt is then matched in one pass over
+ * its words rather than one scan per entity.
+ */
+export class KnownEntityIndex {
+  private byFirstWord = new Map<string, IndexedEntity[]>()
+
+  constructor(entities: PiiEntity[] = []) {
+    const sorted = entities
+      .filter(entity => entity.value && entity.value.trim().length >= MIN_ENTITY_LENGTH)
+      .map(entity => ({ type: entity.type, value: lowerCase(entity.value.trim()) }))
+      .sort((a, b) => b.value.length - a.value.length)
+
+    for (const entity of sorted) {
+      const first = new RegExp(WORD_PATTERN.source).exec(entity.value)
+      if (!first) continue
+      const bucket = this.byFirstWord.get(first[0]) || []
+      bucket.push({ ...entity, lead: first.index })
+      this.byFirstWord.set(first[0], bucket)
+    }
+  }
+
+  /**
+   * Non-overlapping matches, leftmost first and the longest entity at each position
+   */
+  find(text: string): EntityMatch[] {
+    if (this.byFirstWord.size === 0) return []
+    const lower = lowerCase(text)
+    const matches: EntityMatch[] = []
+    let covered = 0
+
+    for (const word of lower.matchAll(WORD_PATTERN)) {
+      for (const entity of this.byFirstWord.get(word[0]) || []) {
+        const start = word.index - entity.lead
+        const end = start + entity.value.length
+        if (start < covered || !lower.startsWith(entity.value, start)) continue
+        // Whole words only, as `\b` would
+        if (isWordChar(entity.value[0]) && isWordChar(lower[start - 1])) continue
+        if (isWordChar(entity.value[entity.value.length - 1]) && isWordChar(lower[end])) continue
+        matches.push({ type: entity.type, start, end })
+        covered = end
+        break
+      }
+    }
+
+    return matches
+  }
+}
+
+/**
+ * Tokenizes PII for one AI call. The same value always maps to the same token
+ * within a session, so the prompt and system message stay consistent, and
+ * tokens the model echoes back are swapped for the original values.
+ */
+export class RedactionSession {
+  private tokensByValue = new Map<string, Redaction>()
+  private valuesByToken = new Map<string, string>()
+  private counters: Partial<Record<PiiType, number>> = {}
+  private knownEntities: KnownEntityIndex
+
+  constructor(knownEntities = new KnownEntityIndex()) {
+    this.knownEntities = knownEntities
+  }
+
+  get redactions(): Redaction[] {
+    return [...this.tokensByValue.values()]
+  }
+
+  redact(text: string): string {
+    let result = ''
+    let last = 0
+    for (const match of this.knownEntities.find(text)) {
+      result += text.slice(last, match.start) + this.tokenFor(match.type, text.slice(match.start, match.end))
+      last = match.end
+    }
+    result += text.slice(last)
+
+    for (const { type, pattern } of PII_PATTERNS) {
+      result = result.replace(pattern, match => this.tokenFor(type, match))
+    }
+
+    return result
+  }
+
+  /**
+   * Replace tokens with their original values in a string or any JSON value
+   */
+  rehydrate<T>(value: T): T {
+    if (this.valuesByToken.size === 0) return value
+    if (typeof value === 'string') {
+      return value.replace(TOKEN_PATTERN, token => this.valuesByToken.get(token) ?? token) as T
+    }
+    if (Array.isArray(value)) return value.map(item => this.rehydrate(item)) as T
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.rehydrate(item)])
+      ) as T
+    }
+    return value
+  }
+
+  private tokenFor(type: PiiType, value: string): string {
+    const key = `${type}:${value.toLowerCase()}`
+    const existing = this.tokensByValue.get(key)
+    if (existing) return existing.token
+
+    const index = (this.counters[type] || 0) + 1
+    this.counters[type] = index
+    const token = `[${type.toUpperCase()}_${index}]`
+    this.tokensByValue.set(key, { token, type })
+    this.valuesByToken.set(token, value)
+    return token
+  }
+}
+
+/**
+ * Wrap a provider so no prompt reaches it with PII in clear text. Responses are
+ * re-hydrated before callers see them and every call is reported for audit.
+ */
+export function createRedactingProvider(inner: AIProvider, options: RedactingProviderOptions = {}): AIProvider {
+  const startSession = async () => {
+    try {
+      return new RedactionSession(options.knownEntities ? await options.knownEntities() : undefined)
+    } catch (error) {
+      console.error('Error loading known entities for redaction:', error)
+      // Pattern-based redaction still applies
+      return new RedactionSession()
+    }
+  }
+
+  const audit = async (operation: RedactionAuditEntry['operation'], session: RedactionSession) => {
+    try {
+      await options.onAudit?.({ provider: inner.name, operation, redactions: session.redactions })
+    } catch (error) {
+      console.error('Error recording redaction audit:', error)
+    }
+  }
+
+  return {
+    name: inner.name,
+    generateText: async (request) => {
+      const session = await startSession()
+      const prompt = session.redact(request.prompt)
+      const system = request.system ? session.redact(request.system) : undefined
+      await audit('text', session)
+
+      const { text, usage } = await inner.generateText({ ...request, prompt, system })
+      return { text: session.rehydrate(text), usage }
+    },
+    generateObject: async (request) => {
+      const session = await startSession()
+      const prompt = session.redact(request.prompt)
+      const system = request.system ? session.redact(request.system) : undefined
+      await audit('object', session)
+
+      const { object, usage } = await inner.generateObject({ ...request, prompt, system })
+      return { object: session.rehydrate(object), usage }
+    }
+  }
+}
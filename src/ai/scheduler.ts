@@ -0,0 +1,186 @@
+import type { AIFeature, AIProvider, AIProviderName, TokenUsage } from './types'
+
+export interface AISchedulerLimits {
+  maxConcurrency: number
+  maxRetries: number // retries after throttling, with exponential backoff
+  dailyTokenBudget: number // per user; 0 means unlimited
+  dailyCostBudget: number // per user, in USD; 0 means unlimited
+  costPer1kTokens: number
+}
+
+export type AIUsageStatus = 'success' | 'error' | 'budget_exceeded'
+
+export interface AICallUsage {
+  provider: AIProviderName
+  feature: AIFeature | 'other'
+  operation: 'text' | 'object'
+  promptTokens: number
+  completionTokens: number
+  estimatedCost: number
+  latencyMs: number
+  attempts: number
+  status: AIUsageStatus
+  error?: string
+}
+
+export interface AISchedulerOptions {
+  limits: () => AISchedulerLimits
+  // Tokens and cost the current user has already spent today
+  spentToday: () => Promise<{ tokens: number; cost: number }>
+  onUsage?: (event: AICallUsage) => void | Promise<void>
+}
+
+/**
+ * Raised before a call is made when it would take the user over a daily budget
+ */
+export class AIBudgetExceededError extends Error {
+  budget: 'tokens' | 'cost'
+
+  constructor(message: string, budget: 'tokens' | 'cost') {
+    super(message)
+    this.name = 'AIBudgetExceededError'
+    this.budget = budget
+  }
+}
+
+const BASE_BACKOFF_MS = 1000
+const MAX_BACKOFF_MS = 30000
+
+/**
+ * Rough token count for providers that do not report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+export function isThrottlingError(error: unknown): boolean {
+  const status = (error as { status?: number } | null)?.status
+  if (status === 429) return true
+  const message = error instanceof Error ? error.message : String(error)
+  return /\b429\b|rate.?limit|too many requests|throttl/i.test(message)
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Wrap a provider so every call is queued behind a concurrency limit, retried
+ * with exponential backoff when the provider throttles, checked against the
+ * user's daily token and cost budgets and metered per feature
+ */
+export function createScheduledProvider(inner: AIProvider, options: AISchedulerOptions): AIProvider {
+  let active = 0
+  const waiting: (() => void)[] = []
+  // Prompt tokens of calls in flight, so concurrent calls cannot all pass the budget check
+  let reservedTokens = 0
+
+  const acquire = async () => {
+    if (active < Math.max(1, options.limits().maxConcurrency)) {
+      active++
+      return
+    }
+    await new Promise<void>(resolve => waiting.push(resolve))
+  }
+
+  const release = () => {
+    const next = waiting.shift()
+    // Hand the slot straight to the next caller
+    if (next) next()
+    else active--
+  }
+
+  const record = async (event: AICallUsage) => {
+    try {
+      await options.onUsage?.(event)
+    } catch (error) {
+      console.error('Error recording AI usage:', error)
+    }
+  }
+
+  const run = async <R extends { usage?: TokenUsage }>(
+    operation: AICallUsage['operation'],
+    feature: AICallUsage['feature'],
+    promptText: string,
+    outputText: (result: R) => string,
+    call: () => Promise<R>
+  ): Promise<R> => {
+    const limits = options.limits()
+    const estimatedPromptTokens = estimateTokens(promptText)
+    const base = { provider: inner.name, feature, operation }
+
+    await acquire()
+    reservedTokens += estimatedPromptTokens
+    const startedAt = Date.now()
+    let attempts = 0
+
+    try {
+      const spent = await options.spentToday()
+      const projectedTokens = spent.tokens + reservedTokens
+      if (limits.dailyTokenBudget > 0 && projectedTokens > limits.dailyTokenBudget) {
+        throw new AIBudgetExceededError(
+          `Daily AI token budget of ${limits.dailyTokenBudget.toLocaleString()} tokens reached`,
+          'tokens'
+        )
+      }
+      if (limits.dailyCostBudget > 0 && spent.cost + (reservedTokens / 1000) * limits.costPer1kTokens > limits.dailyCostBudget) {
+        throw new AIBudgetExceededError(`Daily AI cost budget of $${limits.dailyCostBudget.toFixed(2)} reached`, 'cost')
+      }
+
+      for (;;) {
+        attempts++
+        try {
+          const result = await call()
+          const promptTokens = result.usage?.promptTokens ?? estimatedPromptTokens
+          const completionTokens = result.usage?.completionTokens ?? estimateTokens(outputText(result))
+          await record({
+            ...base,
+            promptTokens,
+            completionTokens,
+            estimatedCost: ((promptTokens + completionTokens) / 1000) * limits.costPer1kTokens,
+            latencyMs: Date.now() - startedAt,
+            attempts,
+            status: 'success'
+          })
+          return result
+        } catch (error) {
+          if (!isThrottlingError(error) || attempts > limits.maxRetries) throw error
+          const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempts - 1))
+          // Jitter so queued calls do not retry in lockstep
+          await sleep(backoff / 2 + Math.random() * (backoff / 2))
+        }
+      }
+    } catch (error) {
+      await record({
+        ...base,
+        promptTokens: 0,
+        completionTokens: 0,
+        estimatedCost: 0,
+        latencyMs: Date.now() - startedAt,
+        attempts,
+        status: error instanceof AIBudgetExceededError ? 'budget_exceeded' : 'error',
+        error: error instanceof Error ? error.message : String(error)
+      })
+      throw error
+    } finally {
+      reservedTokens -= estimatedPromptTokens
+      release()
+    }
+  }
+
+  return {
+    name: inner.name,
+    generateText: (request) => run(
+      'text',
+      request.feature || 'other',
+      `${request.system || ''}${request.prompt}`,
+      result => result.text,
+      () => inner.generateText(request)
+    ),
+    generateObject: (request) => run(
+      'object',
+      request.feature || 'other',
+      `${request.system || ''}${request.prompt}${JSON.stringify(request.schema)}`,
+      result => JSON.stringify(result.object),
+      () => inner.generateObject(request)
+    )
+  }
+}
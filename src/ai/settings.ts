@@ -0,0 +1,18 @@
+/**
+ * localStorage access that tolerates environments without it (tests, SSR)
+ */
+export function readSetting(key: string): string | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage.getItem(key) : null
+  } catch {
+    return null
+  }
+}
+
+export function writeSetting(key: string, value: string): void {
+  try {
+    if (typeof localStorage !== 'undefined') localStorage.setItem(key, value)
+  } catch (error) {
+    console.error(`Error saving setting ${key}:`, error)
+  }
+}
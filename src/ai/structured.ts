@@ -0,0 +1,99 @@
+import { AIBudgetExceededError } from './scheduler'
+import { extractJson, validateSchema } from './validation'
+import type { AIFeature, AIProvider, JsonSchema } from './types'
+
+export interface StructuredGenerationOptions {
+  prompt: string
+  schema: JsonSchema
+  system?: string
+  // 'text' asks for JSON through generateText, for prompts written that way
+  mode?: 'object' | 'text'
+  maxTokens?: number
+  maxAttempts?: number
+  feature?: AIFeature
+}
+
+/**
+ * Raised when every attempt produced output that failed validation
+ */
+export class AIValidationError extends Error {
+  errors: string[]
+  attempts: number
+
+  constructor(message: string, errors: string[], attempts: number) {
+    super(message)
+    this.name = 'AIValidationError'
+    this.errors = errors
+    this.attempts = attempts
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3
+const MAX_ECHOED_RESPONSE = 2000
+const MAX_LISTED_ERRORS = 10
+
+function repairPrompt(prompt: string, previous: string, errors: string[]): string {
+  const listed = errors.slice(0, MAX_LISTED_ERRORS).map(error => `- ${error}`).join('\n')
+  return `${prompt}
+
+Your previous response could not be used:
+${listed}
+
+Previous response:
+${previous.slice(0, MAX_ECHOED_RESPONSE)}
+
+Respond again, fixing these problems and following the requested format exactly.`
+}
+
+/**
+ * Generate a response, validate it against the schema and, when it fails,
+ * retry with a repair prompt that shows the model its own errors
+ */
+export async function generateStructured<T>(provider: AIProvider, options: StructuredGenerationOptions): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+  let prompt = options.prompt
+  let errors: string[] = []
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let raw: unknown
+    let rawText = ''
+
+    try {
+      if (options.mode === 'text') {
+        const { text } = await provider.generateText({
+          prompt,
+          system: options.system,
+          maxTokens: options.maxTokens,
+          feature: options.feature
+        })
+        rawText = text
+        raw = JSON.parse(extractJson(text))
+      } else {
+        const { object } = await provider.generateObject({
+          prompt,
+          schema: options.schema,
+          system: options.system,
+          feature: options.feature
+        })
+        raw = object
+        rawText = JSON.stringify(object)
+      }
+    } catch (error) {
+      // Retrying cannot help once the budget is spent
+      if (error instanceof AIBudgetExceededError) throw error
+      errors = [error instanceof SyntaxError ? `Response was not valid JSON: ${error.message}` : `Request failed: ${error instanceof Error ? error.message : String(error)}`]
+      console.warn(`AI attempt ${attempt}/${maxAttempts} failed:`, errors[0])
+      if (rawText) prompt = repairPrompt(options.prompt, rawText, errors)
+      continue
+    }
+
+    const result = validateSchema<T>(raw, options.schema)
+    if (result.errors.length === 0) return result.value
+
+    errors = result.errors
+    console.warn(`AI attempt ${attempt}/${maxAttempts} failed validation:`, errors)
+    prompt = repairPrompt(options.prompt, rawText, errors)
+  }
+
+  throw new AIValidationError(`AI response was still invalid after ${maxAttempts} attempts`, errors, maxAttempts)
+}
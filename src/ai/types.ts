@@ -0,0 +1,61 @@
+export type AIProviderName = 'blink' | 'mock' | 'openai'
+
+// The app feature a call is made for, used to meter usage
+export type AIFeature = 'segmentation' | 'insights' | 'risk' | 'clv' | 'recommendations'
+
+/**
+ * The subset of JSON Schema the app uses to describe structured outputs
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  properties?: Record<string, JsonSchema>
+  items?: JsonSchema
+  required?: string[]
+  enum?: unknown[]
+  minimum?: number
+  maximum?: number
+  minItems?: number
+  default?: unknown // used in place of a missing or invalid value
+  description?: string
+}
+
+export interface GenerateTextOptions {
+  prompt: string
+  system?: string
+  maxTokens?: number
+  temperature?: number
+  feature?: AIFeature
+}
+
+export interface GenerateObjectOptions {
+  prompt: string
+  schema: JsonSchema
+  system?: string
+  feature?: AIFeature
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface GenerateTextResult {
+  text: string
+  usage?: TokenUsage // when the provider reports it
+}
+
+export interface GenerateObjectResult<T> {
+  object: T
+  usage?: TokenUsage
+}
+
+/**
+ * Every AI call in the app goes through this interface so features can run
+ * against the hosted model, a local endpoint or deterministic fixtures
+ */
+export interface AIProvider {
+  readonly name: AIProviderName
+  generateText(options: GenerateTextOptions): Promise<GenerateTextResult>
+  // Unvalidated output; generateStructured narrows it against the schema
+  generateObject(options: GenerateObjectOptions): Promise<GenerateObjectResult<unknown>>
+}
@@ -0,0 +1,170 @@
+import { db, loadAll } from '../data'
+import type { AIUsageEvent } from '../data'
+import { readSetting, writeSetting } from './settings'
+import type { AICallUsage, AISchedulerLimits } from './scheduler'
+import type { AIFeature, AIProviderName } from './types'
+
+export const AI_FEATURES: { id: AIFeature | 'other'; label: string }[] = [
+  { id: 'segmentation', label: 'Segmentation' },
+  { id: 'insights', label: 'Insights' },
+  { id: 'risk', label: 'Risk' },
+  { id: 'clv', label: 'CLV' },
+  { id: 'recommendations', label: 'Recommendations' },
+  { id: 'other', label: 'Other' }
+]
+
+// Local models and fixtures cost nothing; the hosted model is priced per 1K tokens
+const DEFAULT_COST_PER_1K_TOKENS: Record<AIProviderName, number> = {
+  blink: 0.002,
+  mock: 0,
+  openai: 0
+}
+
+const LIMITS_KEY = 'aiLimits'
+
+export function defaultAILimits(provider: AIProviderName): AISchedulerLimits {
+  return {
+    maxConcurrency: 4,
+    maxRetries: 4,
+    dailyTokenBudget: 500000,
+    dailyCostBudget: 5,
+    costPer1kTokens: DEFAULT_COST_PER_1K_TOKENS[provider]
+  }
+}
+
+/**
+ * Limits saved from the usage dashboard, over the provider's defaults
+ */
+export function loadAILimits(provider: AIProviderName): AISchedulerLimits {
+  const defaults = defaultAILimits(provider)
+  const saved = readSetting(LIMITS_KEY)
+  if (!saved) return defaults
+  try {
+    return { ...defaults, ...JSON.parse(saved) }
+  } catch {
+    return defaults
+  }
+}
+
+export function saveAILimits(limits: AISchedulerLimits): void {
+  writeSetting(LIMITS_KEY, JSON.stringify(limits))
+}
+
+export const usageDay = (date = new Date()) => date.toISOString().split('T')[0]
+
+interface UsageTally {
+  day: string
+  userId: string
+  tokens: number
+  cost: number
+}
+
+/**
+ * Persists every AI call and keeps a running total of today's spend for the
+ * current user, seeded once per day from the stored events
+ */
+export function createUsageMeter() {
+  let tally: Promise<UsageTally> | null = null
+
+  const seedTally = async (day: string): Promise<UsageTally> => {
+    const user = await db.currentUser()
+    const events = await loadAll(db.aiUsageEvents, { where: { userId: user.id, day } })
+    return {
+      day,
+      userId: user.id,
+      tokens: events.reduce((sum, e) => sum + (e.totalTokens || 0), 0),
+      cost: events.reduce((sum, e) => sum + (e.estimatedCost || 0), 0)
+    }
+  }
+
+  const loadTally = async (): Promise<UsageTally> => {
+    const day = usageDay()
+    if (!tally) {
+      tally = seedTally(day)
+      // Drop a failed load so the next call retries
+      tally.catch(() => { tally = null })
+    }
+    const current = await tally
+    if (current.day === day) return current
+    // A new day starts a new budget
+    tally = null
+    return loadTally()
+  }
+
+  return {
+    spentToday: async () => {
+      const { tokens, cost } = await loadTally()
+      return { tokens, cost }
+    },
+    record: async (usage: AICallUsage) => {
+      const current = await loadTally()
+      const totalTokens = usage.promptTokens + usage.completionTokens
+      current.tokens += totalTokens
+      current.cost += usage.estimatedCost
+
+      await db.aiUsageEvents.create({
+        id: `aiusage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        userId: current.userId,
+        ...usage,
+        totalTokens,
+        day: current.day
+      })
+    }
+  }
+}
+
+export interface FeatureUsageSummary {
+  feature: AIFeature | 'other'
+  label: string
+  calls: number
+  failures: number
+  budgetBlocked: number
+  tokens: number
+  cost: number
+  avgLatencyMs: number
+}
+
+export interface DailyUsage {
+  day: string
+  calls: number
+  tokens: number
+  cost: number
+  failures: number
+}
+
+/**
+ * Per-feature and per-day totals for the usage dashboard
+ */
+export function summarizeUsage(events: AIUsageEvent[]): { features: FeatureUsageSummary[]; daily: DailyUsage[] } {
+  const features = AI_FEATURES.map(({ id, label }) => {
+    const featureEvents = events.filter(e => (e.feature || 'other') === id)
+    const completed = featureEvents.filter(e => e.status !== 'budget_exceeded')
+    return {
+      feature: id,
+      label,
+      calls: featureEvents.length,
+      failures: featureEvents.filter(e => e.status === 'error').length,
+      budgetBlocked: featureEvents.filter(e => e.status === 'budget_exceeded').length,
+      tokens: featureEvents.reduce((sum, e) => sum + (e.totalTokens || 0), 0),
+      cost: featureEvents.reduce((sum, e) => sum + (e.estimatedCost || 0), 0),
+      avgLatencyMs: completed.length > 0
+        ? completed.reduce((sum, e) => sum + (e.latencyMs || 0), 0) / completed.length
+        : 0
+    }
+  })
+
+  const byDay = new Map<string, DailyUsage>()
+  for (const event of events) {
+    const day = byDay.get(event.day) || { day: event.day, calls: 0, tokens: 0, cost: 0, failures: 0 }
+    day.calls++
+    day.tokens += event.totalTokens || 0
+    day.cost += event.estimatedCost || 0
+    if (event.status === 'error') day.failures++
+    byDay.set(event.day, day)
+  }
+
+  return {
+    features,
+    daily: [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day))
+  }
+}
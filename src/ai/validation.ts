@@ -0,0 +1,101 @@
+import type { JsonSchema } from './types'
+
+export interface ValidationResult<T> {
+  value: T
+  errors: string[]
+}
+
+const normalizeEnumValue = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+/**
+ * Pull the JSON payload out of model text that may wrap it in markdown
+ * fences or surround it with prose
+ */
+export function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/)
+  if (fenced) return fenced[1].trim()
+
+  const start = text.search(/[[{]/)
+  if (start < 0) return text.trim()
+  const closing = text[start] === '[' ? ']' : '}'
+  const end = text.lastIndexOf(closing)
+  return end > start ? text.slice(start, end + 1) : text.slice(start)
+}
+
+/**
+ * Check a model response against its schema, coercing what can be safely
+ * coerced: numeric strings, enum casing and spacing, percentages given for
+ * 0-1 fields, out-of-range numbers (clamped) and invalid values that have a
+ * schema default. Anything else is reported as an error.
+ */
+export function validateSchema<T>(value: unknown, schema: JsonSchema): ValidationResult<T> {
+  const errors: string[] = []
+  const coerced = coerce(value, schema, '$', errors)
+  if (coerced === undefined && errors.length === 0) errors.push('$ is missing')
+  return { value: coerced as T, errors }
+}
+
+function coerce(value: unknown, schema: JsonSchema, path: string, errors: string[]): unknown {
+  if (value === undefined || value === null) return schema.default
+
+  const invalid = (message: string) => {
+    if (schema.default !== undefined) return schema.default
+    errors.push(`${path} ${message}`)
+    return undefined
+  }
+
+  if (schema.enum) {
+    const match = schema.enum.find(option =>
+      option === value || (typeof option === 'string' && typeof value === 'string' && normalizeEnumValue(option) === normalizeEnumValue(value))
+    )
+    return match !== undefined ? match : invalid(`must be one of ${schema.enum.join(', ')} (got ${JSON.stringify(value)})`)
+  }
+
+  switch (schema.type) {
+    case 'number':
+    case 'integer': {
+      const parsed = typeof value === 'string' ? Number(value.replace(/[%,$\s]/g, '')) : value
+      if (typeof parsed !== 'number' || !Number.isFinite(parsed)) return invalid(`must be a number (got ${JSON.stringify(value)})`)
+      let number = parsed
+      // Models often answer 85 for a 0-1 confidence
+      if (schema.maximum === 1 && number > 1 && number <= 100) number = number / 100
+      if (schema.minimum !== undefined) number = Math.max(schema.minimum, number)
+      if (schema.maximum !== undefined) number = Math.min(schema.maximum, number)
+      return schema.type === 'integer' ? Math.round(number) : number
+    }
+    case 'string':
+      if (typeof value === 'string') return value
+      if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+      return invalid('must be a string')
+    case 'boolean':
+      if (typeof value === 'boolean') return value
+      if (value === 'true' || value === 'false') return value === 'true'
+      return invalid('must be a boolean')
+    case 'array': {
+      if (!Array.isArray(value)) return invalid('must be an array')
+      const items = value.map((item, i) => coerce(item, schema.items || {}, `${path}[${i}]`, errors))
+      if (schema.minItems !== undefined && items.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} items`)
+      }
+      return items
+    }
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) return invalid('must be an object')
+      const source = value as Record<string, unknown>
+      if (!schema.properties) return source
+
+      const result: Record<string, unknown> = {}
+      for (const [key, child] of Object.entries(schema.properties)) {
+        const childValue = coerce(source[key], child, `${path}.${key}`, errors)
+        if (childValue !== undefined) {
+          result[key] = childValue
+        } else if (schema.required?.includes(key) && !(key in source && source[key] !== null)) {
+          errors.push(`${path}.${key} is required`)
+        }
+      }
+      return result
+    }
+    default:
+      return value
+  }
+}
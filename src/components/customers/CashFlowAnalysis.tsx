@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Badge } from '../ui/badge'
+import {
+  BarChart,
+  Bar,
+  PieChart,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts'
+import { ArrowDownRight, ArrowUpRight, Repeat, Wallet } from 'lucide-react'
+import { CashFlowAnalyzer } from '../../services/cashFlow'
+import type { CashFlowAnalysis as CashFlowResult } from '../../services/cashFlow'
+
+interface CashFlowAnalysisProps {
+  customerId: string
+}
+
+const CATEGORY_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#6B7280']
+const MAX_CATEGORIES = 7
+
+const formatCurrency = (value: number) => `$${Math.round(value).toLocaleString()}`
+const formatCategory = (category: string) => category.charAt(0).toUpperCase() + category.slice(1).replace(/_/g, ' ')
+
+export function CashFlowAnalysis({ customerId }: CashFlowAnalysisProps) {
+  const [analysis, setAnalysis] = useState<CashFlowResult | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadAnalysis(customerId)
+  }, [customerId])
+
+  const loadAnalysis = async (id: string) => {
+    try {
+      setLoading(true)
+      setAnalysis(await CashFlowAnalyzer.forCustomer(id))
+    } catch (error) {
+      console.error('Error analyzing cash flow:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <div className="h-48 bg-gray-100 rounded animate-pulse"></div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!analysis || analysis.transactionCount === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-8">
+          <Wallet className="mx-auto h-8 w-8 text-gray-400 mb-2" />
+          <p className="text-muted-foreground">No transactions in the last six months to analyze</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // Fold the long tail of categories into "Other" so the pie stays readable
+  const topCategories = analysis.categoryMix.slice(0, MAX_CATEGORIES)
+  const otherAmount = analysis.categoryMix.slice(MAX_CATEGORIES).reduce((sum, c) => sum + c.amount, 0)
+  const categoryData = [
+    ...topCategories.map(c => ({ name: formatCategory(c.category), value: c.amount })),
+    ...(otherAmount > 0 ? [{ name: 'Other', value: otherAmount }] : [])
+  ]
+
+  const { totals, income, recurring, savingsRate, features } = analysis
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center">
+          <Wallet className="mr-2 h-5 w-5" />
+          Cash Flow
+        </CardTitle>
+        <CardDescription>Monthly inflow and outflow, spending mix and recurring obligations over six months</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Inflow</p>
+            <p className="text-xl font-bold text-green-600 flex items-center">
+              <ArrowUpRight className="h-4 w-4 mr-1" />
+              {formatCurrency(totals.inflow)}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Outflow</p>
+            <p className="text-xl font-bold text-red-600 flex items-center">
+              <ArrowDownRight className="h-4 w-4 mr-1" />
+              {formatCurrency(totals.outflow)}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Net Savings Rate</p>
+            <p className={`text-xl font-bold ${savingsRate !== null && savingsRate < 0 ? 'text-red-600' : ''}`}>
+              {savingsRate !== null ? `${Math.round(savingsRate * 100)}%` : '—'}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Detected Income</p>
+            {income.detected ? (
+              <>
+                <p className="text-xl font-bold">{formatCurrency(income.monthlyIncome)}/mo</p>
+                <p className="text-xs text-muted-foreground">
+                  ~{formatCurrency(income.typicalDeposit)} deposits in {Math.round(income.regularity * 100)}% of months
+                </p>
+              </>
+            ) : (
+              <p className="text-sm font-medium mt-1">No regular deposits</p>
+            )}
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <p className="text-sm font-medium mb-2">Monthly Inflow vs Outflow</p>
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={analysis.months}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="month" />
+                <YAxis />
+                <Tooltip formatter={(value) => formatCurrency(value as number)} />
+                <Legend />
+                <Bar dataKey="inflow" name="Inflow" fill="#10B981" />
+                <Bar dataKey="outflow" name="Outflow" fill="#EF4444" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div>
+            <p className="text-sm font-medium mb-2">Spending by Category</p>
+            <ResponsiveContainer width="100%" height={220}>
+              <PieChart>
+                <Pie data={categoryData} dataKey="value" nameKey="name" cx="50%" cy="50%" outerRadius={80}>
+                  {categoryData.map((entry, index) => (
+                    <Cell key={entry.name} fill={CATEGORY_COLORS[index % CATEGORY_COLORS.length]} />
+                  ))}
+                </Pie>
+                <Tooltip formatter={(value) => formatCurrency(value as number)} />
+                <Legend />
+              </PieChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium flex items-center">
+              <Repeat className="mr-2 h-4 w-4" />
+              Recurring Obligations
+            </p>
+            <span className="text-sm text-muted-foreground">
+              {formatCurrency(features.recurringMonthlyCost)}/mo
+            </span>
+          </div>
+          {recurring.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No recurring payments detected</p>
+          ) : (
+            recurring.map((obligation, index) => (
+              <div key={`${obligation.category}_${index}`} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium">{formatCategory(obligation.category)}</span>
+                  <Badge variant="outline" className="capitalize">{obligation.frequency}</Badge>
+                </div>
+                <span className="text-muted-foreground">
+                  {obligation.occurrences} × ~{formatCurrency(obligation.averageAmount)} · {formatCurrency(obligation.monthlyCost)}/mo
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Activity, AlertTriangle, Brain, CalendarSearch, CreditCard, MessageSquare, Target } from 'lucide-react'
+import { CustomerTimeline as TimelineService, TIMELINE_EVENT_TYPES } from '../../services/customerTimeline'
+import type { TimelineCursor, TimelineEvent, TimelineEventType } from '../../services/customerTimeline'
+
+interface CustomerTimelineProps {
+  customerId: string
+}
+
+const TYPE_LABELS: Record<TimelineEventType, string> = {
+  transaction: 'Transactions',
+  interaction: 'Interactions',
+  risk: 'Risk',
+  segment: 'Segments',
+  insight: 'AI Insights'
+}
+
+const TONE_COLORS: Record<TimelineEvent['tone'], string> = {
+  positive: 'text-green-600',
+  negative: 'text-red-600',
+  warning: 'text-yellow-600',
+  neutral: 'text-blue-500'
+}
+
+function EventIcon({ event }: { event: TimelineEvent }) {
+  const className = `h-4 w-4 ${TONE_COLORS[event.tone]}`
+  switch (event.type) {
+    case 'transaction':
+      return <CreditCard className={className} />
+    case 'interaction':
+      return <MessageSquare className={className} />
+    case 'risk':
+      return <AlertTriangle className={className} />
+    case 'segment':
+      return <Target className={className} />
+    case 'insight':
+      return <Brain className={className} />
+    default:
+      return <Activity className={className} />
+  }
+}
+
+export function CustomerTimeline({ customerId }: CustomerTimelineProps) {
+  const [events, setEvents] = useState<TimelineEvent[]>([])
+  const [next, setNext] = useState<TimelineCursor | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  // A failed page stops infinite scroll until the user retries
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false)
+  const [types, setTypes] = useState<TimelineEventType[]>(TIMELINE_EVENT_TYPES)
+  const [jumpDate, setJumpDate] = useState('')
+  const [anchor, setAnchor] = useState<TimelineCursor | null>(null)
+  const sentinel = useRef<HTMLDivElement>(null)
+  // Drops responses for a filter or date that is no longer selected
+  const requestId = useRef(0)
+
+  useEffect(() => {
+    loadFirstPage(customerId, types, anchor)
+  }, [customerId, types, anchor])
+
+  const loadFirstPage = async (id: string, selected: TimelineEventType[], cursor: TimelineCursor | null) => {
+    const request = ++requestId.current
+    try {
+      setLoading(true)
+      setLoadMoreFailed(false)
+      const page = await TimelineService.page(id, { types: selected, cursor })
+      if (request !== requestId.current) return
+      setEvents(page.events)
+      setNext(page.next)
+    } catch (error) {
+      console.error('Error loading customer timeline:', error)
+    } finally {
+      if (request === requestId.current) setLoading(false)
+    }
+  }
+
+  const loadMore = useCallback(async () => {
+    if (!next || loadingMore) return
+    const request = requestId.current
+    try {
+      setLoadingMore(true)
+      const page = await TimelineService.page(customerId, { types, cursor: next })
+      if (request !== requestId.current) return
+      setEvents(current => [...current, ...page.events])
+      setNext(page.next)
+      setLoadMoreFailed(false)
+    } catch (error) {
+      console.error('Error loading more timeline events:', error)
+      if (request === requestId.current) setLoadMoreFailed(true)
+    } finally {
+      setLoadingMore(false)
+    }
+  }, [customerId, types, next, loadingMore])
+
+  // Infinite scroll: fetch the next page when the end of the list comes into view
+  useEffect(() => {
+    const element = sentinel.current
+    if (!element || !next || loadingMore || loadMoreFailed) return
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMore()
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [next, loadingMore, loadMoreFailed, loadMore])
+
+  const toggleType = (type: TimelineEventType) => {
+    const selected = types.includes(type) ? types.filter(t => t !== type) : [...types, type]
+    if (selected.length > 0) setTypes(TIMELINE_EVENT_TYPES.filter(t => selected.includes(t)))
+  }
+
+  const jumpToDate = () => {
+    if (jumpDate) setAnchor(TimelineService.cursorForDate(jumpDate))
+  }
+
+  const showLatest = () => {
+    setJumpDate('')
+    setAnchor(null)
+  }
+
+  // Group consecutive events under a heading per calendar day
+  const days: { day: string; events: TimelineEvent[] }[] = []
+  for (const event of events) {
+    const day = new Date(event.timestamp).toLocaleDateString('en-US', {
+      weekday: 'short', month: 'short', day: 'numeric', year: 'numeric'
+    })
+    if (days.length === 0 || days[days.length - 1].day !== day) days.push({ day, events: [] })
+    days[days.length - 1].events.push(event)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {TIMELINE_EVENT_TYPES.map(type => (
+            <Button
+              key={type}
+              size="sm"
+              variant={types.includes(type) ? 'default' : 'outline'}
+              onClick={() => toggleType(type)}
+            >
+              {TYPE_LABELS[type]}
+            </Button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            className="w-40"
+            value={jumpDate}
+            onChange={(e) => setJumpDate(e.target.value)}
+          />
+          <Button size="sm" variant="outline" onClick={jumpToDate} disabled={!jumpDate}>
+            <CalendarSearch className="mr-2 h-4 w-4" />
+            Jump
+          </Button>
+          {anchor && (
+            <Button size="sm" variant="ghost" onClick={showLatest}>
+              Latest
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="space-y-3">
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="h-12 bg-gray-100 rounded animate-pulse"></div>
+          ))}
+        </div>
+      ) : events.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Activity className="mx-auto h-8 w-8 text-gray-400 mb-2" />
+          <p>{anchor ? 'No activity on or before this date' : 'No activity recorded for this customer'}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {days.map(group => (
+            <div key={group.day} className="space-y-2">
+              <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{group.day}</p>
+              {group.events.map(event => (
+                <div key={event.id} className="flex items-start justify-between gap-3 p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-start space-x-3 min-w-0">
+                    <div className="mt-0.5">
+                      <EventIcon event={event} />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{event.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(event.timestamp).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                        {event.detail && ` · ${event.detail}`}
+                      </p>
+                    </div>
+                  </div>
+                  {event.amount !== undefined && (
+                    <span className={`text-sm font-semibold whitespace-nowrap ${event.amount >= 0 ? 'text-green-600' : 'text-gray-900'}`}>
+                      {event.amount >= 0 ? '+' : '-'}${Math.abs(event.amount).toLocaleString()}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+          <div ref={sentinel} className="py-2 text-center text-xs text-muted-foreground">
+            {!next ? 'Start of history' : loadingMore ? 'Loading more...' : loadMoreFailed ? (
+              <div className="flex items-center justify-center gap-2">
+                <span>Couldn't load more events</span>
+                <Button size="sm" variant="outline" onClick={loadMore}>
+                  Retry
+                </Button>
+              </div>
+            ) : ''}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
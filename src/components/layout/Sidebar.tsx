@@ -10,6 +10,11 @@ import {
   BarChart3, 
   Brain, 
   Shield,
+  ShieldAlert,
+  UserSearch,
+  UserCheck,
+  Gauge,
+  FileCode,
   Building2,
   Settings,
   LogOut,
@@ -19,6 +24,7 @@ import {
   ChevronRight
 } from 'lucide-react'
 import { blink } from '../../blink/client'
+import { isOfflineBackend } from '../../data'
 
 const navigation = [
   {
@@ -57,6 +63,36 @@ const navigation = [
     href: '/risk',
     icon: Shield,
     description: 'Fraud detection & risk analysis'
+  },
+  {
+    name: 'AML Monitoring',
+    href: '/aml',
+    icon: ShieldAlert,
+    description: 'Transaction monitoring & cases'
+  },
+  {
+    name: 'Screening',
+    href: '/screening',
+    icon: UserSearch,
+    description: 'Sanctions & PEP watchlists'
+  },
+  {
+    name: 'KYC Review',
+    href: '/kyc',
+    icon: UserCheck,
+    description: 'Customer due diligence queue'
+  },
+  {
+    name: 'AI Usage',
+    href: '/ai-usage',
+    icon: Gauge,
+    description: 'Calls, tokens & budgets'
+  },
+  {
+    name: 'Prompts',
+    href: '/prompts',
+    icon: FileCode,
+    description: 'Versioned templates & A/B tests'
   }
 ]
 
@@ -66,6 +102,7 @@ export function Sidebar() {
   const [mobileOpen, setMobileOpen] = useState(false)
 
   const handleLogout = () => {
+    if (isOfflineBackend) return
     blink.auth.logout()
   }
 
@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Badge } from '../ui/badge'
+import { Button } from '../ui/button'
+import { Progress } from '../ui/progress'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table'
+import { Activity, Eye, RefreshCw, ScanSearch } from 'lucide-react'
+import { db } from '../../data'
+import type { LoadProgress, Transaction } from '../../data'
+import { AnomalyDetector } from '../../services/anomalyDetection'
+import type { AnomalyScanResult } from '../../services/anomalyDetection'
+
+interface TransactionAnomaliesProps {
+  customerNames: Map<string, string>
+}
+
+export function TransactionAnomalies({ customerNames }: TransactionAnomaliesProps) {
+  const [flagged, setFlagged] = useState<Transaction[]>([])
+  const [loading, setLoading] = useState(true)
+  const [scanning, setScanning] = useState(false)
+  const [scanProgress, setScanProgress] = useState<LoadProgress | null>(null)
+  const [lastScan, setLastScan] = useState<AnomalyScanResult | null>(null)
+  const [history, setHistory] = useState<Transaction[]>([])
+
+  useEffect(() => {
+    loadFlagged()
+  }, [])
+
+  const loadFlagged = async () => {
+    try {
+      const transactions = await db.transactions.list({
+        where: { riskFlag: 1 },
+        orderBy: { anomalyScore: 'desc' },
+        limit: 100
+      })
+      setFlagged(transactions)
+    } catch (error) {
+      console.error('Error loading flagged transactions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const scanTransactions = async () => {
+    try {
+      setScanning(true)
+      const result = await AnomalyDetector.scanAll(setScanProgress)
+      setLastScan(result)
+      await loadFlagged()
+    } catch (error) {
+      console.error('Error scanning transactions:', error)
+    } finally {
+      setScanning(false)
+      setScanProgress(null)
+    }
+  }
+
+  const loadCustomerHistory = async (transaction: Transaction) => {
+    try {
+      const transactions = await db.transactions.list({
+        where: { customerId: transaction.customerId },
+        orderBy: { transactionDate: 'desc' },
+        limit: 50
+      })
+      setHistory(transactions)
+    } catch (error) {
+      console.error('Error loading customer transactions:', error)
+    }
+  }
+
+  const getScoreColor = (score: number) => {
+    if (score >= 0.85) return 'bg-red-200 text-red-900'
+    if (score >= 0.7) return 'bg-red-100 text-red-800'
+    return 'bg-yellow-100 text-yellow-800'
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center">
+              <Activity className="mr-2 h-5 w-5 text-orange-500" />
+              Transaction Anomalies
+            </CardTitle>
+            <CardDescription>
+              Transactions scored against each customer's own history
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={scanTransactions} disabled={scanning}>
+            {scanning ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ScanSearch className="mr-2 h-4 w-4" />
+            )}
+            {scanning ? 'Scanning...' : 'Scan Transactions'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {scanning && scanProgress && (
+          <div className="space-y-1">
+            <Progress value={scanProgress.total > 0 ? (scanProgress.loaded / scanProgress.total) * 100 : 0} />
+            <p className="text-xs text-muted-foreground">
+              Loaded {scanProgress.loaded.toLocaleString()} of {scanProgress.total.toLocaleString()} transactions
+            </p>
+          </div>
+        )}
+
+        {lastScan && (
+          <p className="text-sm text-muted-foreground">
+            Scanned {lastScan.transactionsScanned.toLocaleString()} transactions across {lastScan.customersScanned.toLocaleString()} customers; {lastScan.flagged.toLocaleString()} flagged.
+          </p>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : flagged.length === 0 ? (
+          <div className="text-center py-8">
+            <Activity className="mx-auto h-8 w-8 text-gray-400 mb-2" />
+            <p className="text-muted-foreground">No anomalous transactions flagged</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Customer</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Score</TableHead>
+                <TableHead>Top Reason</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {flagged.map(transaction => {
+                const reasons = AnomalyDetector.parseReasons(transaction.anomalyReasons)
+                return (
+                  <TableRow key={transaction.id}>
+                    <TableCell className="font-medium">
+                      {customerNames.get(transaction.customerId) || 'Unknown Customer'}
+                    </TableCell>
+                    <TableCell>{new Date(transaction.transactionDate).toLocaleDateString()}</TableCell>
+                    <TableCell className="capitalize">{transaction.merchantCategory}</TableCell>
+                    <TableCell className="text-right">${transaction.amount.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Badge className={getScoreColor(transaction.anomalyScore || 0)}>
+                        {Math.round((transaction.anomalyScore || 0) * 100)}%
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
+                      {reasons[0]?.description || '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Dialog>
+                        <DialogTrigger asChild>
+                          <Button variant="ghost" size="sm" onClick={() => loadCustomerHistory(transaction)}>
+                            <Eye className="h-4 w-4 mr-1" />
+                            Details
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                          <DialogHeader>
+                            <DialogTitle>Anomalous Transaction</DialogTitle>
+                            <DialogDescription>
+                              {customerNames.get(transaction.customerId) || 'Unknown Customer'} · {transaction.description} · {new Date(transaction.transactionDate).toLocaleString()}
+                            </DialogDescription>
+                          </DialogHeader>
+                          <div className="space-y-4">
+                            <div className="grid gap-4 md:grid-cols-4 text-sm">
+                              <div>
+                                <p className="text-muted-foreground">Amount</p>
+                                <p className="font-semibold">${transaction.amount.toLocaleString()}</p>
+                              </div>
+                              <div>
+                                <p className="text-muted-foreground">Category</p>
+                                <p className="font-semibold capitalize">{transaction.merchantCategory}</p>
+                              </div>
+                              <div>
+                                <p className="text-muted-foreground">Channel</p>
+                                <p className="font-semibold capitalize">{transaction.channel}</p>
+                              </div>
+                              <div>
+                                <p className="text-muted-foreground">Location</p>
+                                <p className="font-semibold">{transaction.location}</p>
+                              </div>
+                            </div>
+
+                            <div>
+                              <h4 className="font-semibold mb-2">Why it was flagged</h4>
+                              <div className="space-y-2">
+                                {reasons.map(reason => (
+                                  <div key={reason.signal} className="flex items-center justify-between p-2 bg-orange-50 rounded">
+                                    <span className="text-sm">{reason.description}</span>
+                                    <Badge variant="outline">{reason.signal}</Badge>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+
+                            <div>
+                              <h4 className="font-semibold mb-2">Recent customer transactions</h4>
+                              <Table>
+                                <TableHeader>
+                                  <TableRow>
+                                    <TableHead>Date</TableHead>
+                                    <TableHead>Category</TableHead>
+                                    <TableHead>Channel</TableHead>
+                                    <TableHead className="text-right">Amount</TableHead>
+                                    <TableHead className="text-right">Score</TableHead>
+                                  </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                  {history.map(t => (
+                                    <TableRow key={t.id} className={t.id === transaction.id ? 'bg-orange-50' : ''}>
+                                      <TableCell>{new Date(t.transactionDate).toLocaleDateString()}</TableCell>
+                                      <TableCell className="capitalize">{t.merchantCategory}</TableCell>
+                                      <TableCell className="capitalize">{t.channel}</TableCell>
+                                      <TableCell className="text-right">${t.amount.toLocaleString()}</TableCell>
+                                      <TableCell className="text-right">
+                                        {t.anomalyScore !== undefined && t.anomalyScore !== null ? `${Math.round(t.anomalyScore * 100)}%` : '—'}
+                                      </TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                            </div>
+                          </div>
+                        </DialogContent>
+                      </Dialog>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
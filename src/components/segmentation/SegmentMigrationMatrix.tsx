@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Badge } from '../ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table'
+import { ResponsiveContainer, Sankey, Tooltip } from 'recharts'
+import { ArrowRight, RefreshCw } from 'lucide-react'
+import type { Customer, SegmentationRun } from '../../data'
+import { AT_RISK_PATTERN, HIGH_VALUE_PATTERN, SegmentMigrationService } from '../../services/segmentMigration'
+import type { SegmentMigration } from '../../services/segmentMigration'
+
+interface SegmentMigrationMatrixProps {
+  base: SegmentationRun
+  target: SegmentationRun
+  customers: Customer[]
+}
+
+const UNASSIGNED = 'unassigned'
+
+const formatBalance = (value: number) =>
+  value >= 1000000 ? `$${(value / 1000000).toFixed(1)}M` : `$${Math.round(value / 1000)}K`
+
+export function SegmentMigrationMatrix({ base, target, customers }: SegmentMigrationMatrixProps) {
+  const [migration, setMigration] = useState<SegmentMigration | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [fromSegmentId, setFromSegmentId] = useState('')
+  const [toSegmentId, setToSegmentId] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadMigration = async () => {
+      try {
+        setLoading(true)
+        const result = await SegmentMigrationService.buildMigration(base, target, customers)
+        if (cancelled) return
+        setMigration(result)
+        // Default to the High Value → At-Risk question when both segments exist
+        setFromSegmentId(
+          (SegmentMigrationService.findSegment(result.fromSegments, HIGH_VALUE_PATTERN) || result.fromSegments[0])?.id || ''
+        )
+        setToSegmentId(
+          (SegmentMigrationService.findSegment(result.toSegments, AT_RISK_PATTERN) || result.toSegments[0])?.id || ''
+        )
+      } catch (error) {
+        console.error('Error building segment migration:', error)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    loadMigration()
+    return () => {
+      cancelled = true
+    }
+  }, [base, target, customers])
+
+  const cellFor = (fromId: string | null, toId: string | null) =>
+    migration?.cells.find(c => c.fromSegmentId === fromId && c.toSegmentId === toId)
+
+  const sankeyData = useMemo(() => {
+    if (!migration) return null
+    const fromIds = [...migration.fromSegments.map(s => s.id), UNASSIGNED]
+    const toIds = [...migration.toSegments.map(s => s.id), UNASSIGNED]
+    const nodes = [
+      ...migration.fromSegments.map(s => ({ name: `${s.segmentName} (v${migration.base.version})` })),
+      { name: `Unassigned (v${migration.base.version})` },
+      ...migration.toSegments.map(s => ({ name: `${s.segmentName} (v${migration.target.version})` })),
+      { name: `Unassigned (v${migration.target.version})` }
+    ]
+    const links = migration.cells
+      .filter(c => c.customerCount > 0 && (c.fromSegmentId || c.toSegmentId))
+      .map(c => ({
+        source: fromIds.indexOf(c.fromSegmentId ?? UNASSIGNED),
+        target: fromIds.length + toIds.indexOf(c.toSegmentId ?? UNASSIGNED),
+        value: c.customerCount
+      }))
+    return links.length > 0 ? { nodes, links } : null
+  }, [migration])
+
+  const migrated = useMemo(
+    () => (migration && fromSegmentId && toSegmentId
+      ? SegmentMigrationService.migratedCustomers(migration, fromSegmentId, toSegmentId, customers)
+      : []),
+    [migration, fromSegmentId, toSegmentId, customers]
+  )
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!migration) return null
+
+  const fromRows = [...migration.fromSegments.map(s => ({ id: s.id as string | null, name: s.segmentName })), { id: null, name: 'Unassigned' }]
+  const toColumns = [...migration.toSegments.map(s => ({ id: s.id as string | null, name: s.segmentName })), { id: null, name: 'Unassigned' }]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold">
+          Customer migration v{migration.base.version} → v{migration.target.version}
+        </h4>
+        <Badge variant="outline">{migration.movedCount.toLocaleString()} customers changed segment</Badge>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>From \ To</TableHead>
+              {toColumns.map(column => (
+                <TableHead key={column.id ?? UNASSIGNED} className="text-right">{column.name}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {fromRows.map(row => (
+              <TableRow key={row.id ?? UNASSIGNED}>
+                <TableCell className="font-medium">{row.name}</TableCell>
+                {toColumns.map(column => {
+                  const cell = cellFor(row.id, column.id)
+                  return (
+                    <TableCell key={column.id ?? UNASSIGNED} className="text-right">
+                      {cell ? (
+                        <div>
+                          <div className="font-semibold">{cell.customerCount.toLocaleString()}</div>
+                          <div className="text-xs text-muted-foreground">{formatBalance(cell.totalBalance)}</div>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                  )
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {sankeyData && (
+        <ResponsiveContainer width="100%" height={360}>
+          <Sankey
+            data={sankeyData}
+            nodePadding={24}
+            margin={{ top: 10, right: 160, bottom: 10, left: 10 }}
+            link={{ stroke: '#93C5FD' }}
+          >
+            <Tooltip formatter={(value) => [value, 'Customers']} />
+          </Sankey>
+        </ResponsiveContainer>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={fromSegmentId} onValueChange={setFromSegmentId}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder={`Segment in v${migration.base.version}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {migration.fromSegments.map(s => (
+                <SelectItem key={s.id} value={s.id}>{s.segmentName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          <Select value={toSegmentId} onValueChange={setToSegmentId}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder={`Segment in v${migration.target.version}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {migration.toSegments.map(s => (
+                <SelectItem key={s.id} value={s.id}>{s.segmentName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-sm text-muted-foreground">{migrated.length.toLocaleString()} customers</span>
+        </div>
+
+        {migrated.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Customer</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                <TableHead className="text-right">Credit Score</TableHead>
+                <TableHead className="text-right">Risk Score</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {migrated.slice(0, 50).map(customer => (
+                <TableRow key={customer.id}>
+                  <TableCell className="font-medium">{customer.firstName} {customer.lastName}</TableCell>
+                  <TableCell className="text-right">${(customer.accountBalance || 0).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{customer.creditScore}</TableCell>
+                  <TableCell className="text-right">{((customer.riskScore || 0) * 100).toFixed(0)}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {migrated.length > 50 && (
+          <p className="text-xs text-muted-foreground">Showing 50 of {migrated.length.toLocaleString()} customers</p>
+        )}
+      </div>
+    </div>
+  )
+}
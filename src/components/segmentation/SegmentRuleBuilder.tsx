@@ -0,0 +1,329 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import { Checkbox } from '../ui/checkbox'
+import { Badge } from '../ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog'
+import { Plus, Trash2, Filter, Users, RefreshCw } from 'lucide-react'
+import { db } from '../../data'
+import type { Customer, CustomerSegment } from '../../data'
+import { CRITERIA_FIELDS, SegmentCriteriaEngine } from '../../services/segmentCriteria'
+import type { CriteriaFieldDefinition, SegmentCriteria } from '../../services/segmentCriteria'
+import { ChurnModel } from '../../services/churnModel'
+
+interface RuleCondition {
+  key: number
+  field: string
+  min: string
+  max: string
+  values: string[]
+}
+
+interface SegmentRuleBuilderProps {
+  customers: Customer[]
+  onSaved: () => void
+}
+
+const fieldDefinition = (field: string): CriteriaFieldDefinition =>
+  CRITERIA_FIELDS.find(f => f.field === field) || CRITERIA_FIELDS[0]
+
+const newCondition = (key: number): RuleCondition => ({
+  key,
+  field: CRITERIA_FIELDS[0].field,
+  min: '',
+  max: '',
+  values: []
+})
+
+/**
+ * Convert builder rows into stored criteria; incomplete rows are skipped
+ */
+function buildCriteria(conditions: RuleCondition[], matchMode: 'all' | 'any'): SegmentCriteria | null {
+  const groups: SegmentCriteria[] = []
+
+  for (const condition of conditions) {
+    const definition = fieldDefinition(condition.field)
+    if (definition.type === 'enum') {
+      if (condition.values.length > 0) groups.push({ [condition.field]: condition.values })
+      continue
+    }
+
+    const range: { min?: number; max?: number } = {}
+    if (condition.min.trim() !== '' && !Number.isNaN(Number(condition.min))) range.min = Number(condition.min)
+    if (condition.max.trim() !== '' && !Number.isNaN(Number(condition.max))) range.max = Number(condition.max)
+    if (range.min !== undefined || range.max !== undefined) groups.push({ [condition.field]: range })
+  }
+
+  if (groups.length === 0) return null
+  return matchMode === 'all' ? { AND: groups } : { OR: groups }
+}
+
+export function SegmentRuleBuilder({ customers, onSaved }: SegmentRuleBuilderProps) {
+  const [open, setOpen] = useState(false)
+  const [segmentName, setSegmentName] = useState('')
+  const [description, setDescription] = useState('')
+  const [matchMode, setMatchMode] = useState<'all' | 'any'>('all')
+  const [conditions, setConditions] = useState<RuleCondition[]>([newCondition(0)])
+  const [nextKey, setNextKey] = useState(1)
+  const [saving, setSaving] = useState(false)
+  const [churnFields, setChurnFields] = useState<Map<string, Record<string, unknown>> | null>(null)
+  const [scoringChurn, setScoringChurn] = useState(false)
+
+  const criteria = useMemo(() => buildCriteria(conditions, matchMode), [conditions, matchMode])
+
+  const usesChurn = conditions.some(c => c.field === 'churnProbability')
+
+  useEffect(() => {
+    // Churn probabilities come from the model, so they are scored only once a rule needs them
+    if (!usesChurn || churnFields || scoringChurn) return
+    setScoringChurn(true)
+    ChurnModel.predictAll(customers)
+      .then(({ predictions }) => setChurnFields(ChurnModel.toCriteriaFields(predictions)))
+      .catch(error => {
+        console.error('Error scoring churn for segment preview:', error)
+        setChurnFields(new Map())
+      })
+      .finally(() => setScoringChurn(false))
+  }, [usesChurn, churnFields, scoringChurn, customers])
+
+  useEffect(() => {
+    setChurnFields(null)
+  }, [customers])
+
+  const matchingCustomers = useMemo(
+    () => (criteria ? SegmentCriteriaEngine.filterCustomers(criteria, customers, churnFields || undefined) : []),
+    [criteria, customers, churnFields]
+  )
+
+  const updateCondition = (key: number, changes: Partial<RuleCondition>) => {
+    setConditions(prev => prev.map(c => (c.key === key ? { ...c, ...changes } : c)))
+  }
+
+  const addCondition = () => {
+    setConditions(prev => [...prev, newCondition(nextKey)])
+    setNextKey(nextKey + 1)
+  }
+
+  const removeCondition = (key: number) => {
+    setConditions(prev => prev.filter(c => c.key !== key))
+  }
+
+  const toggleValue = (condition: RuleCondition, value: string, checked: boolean) => {
+    updateCondition(condition.key, {
+      values: checked ? [...condition.values, value] : condition.values.filter(v => v !== value)
+    })
+  }
+
+  const resetForm = () => {
+    setSegmentName('')
+    setDescription('')
+    setMatchMode('all')
+    setConditions([newCondition(nextKey)])
+    setNextKey(nextKey + 1)
+  }
+
+  const saveSegment = async () => {
+    if (!criteria || !segmentName.trim()) return
+
+    try {
+      setSaving(true)
+      const user = await db.currentUser()
+      const avgBalance = matchingCustomers.length > 0
+        ? matchingCustomers.reduce((sum, c) => sum + (c.accountBalance || 0), 0) / matchingCustomers.length
+        : 0
+      const avgRiskScore = matchingCustomers.length > 0
+        ? matchingCustomers.reduce((sum, c) => sum + (c.riskScore || 0), 0) / matchingCustomers.length
+        : 0
+
+      const segment = await db.customerSegments.create({
+        id: `seg_rule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        userId: user.id,
+        segmentName: segmentName.trim(),
+        description: description.trim() || `Rule-based segment matching ${matchMode === 'all' ? 'all' : 'any'} of ${conditions.length} conditions`,
+        criteria: JSON.stringify(criteria),
+        customerCount: matchingCustomers.length,
+        avgBalance,
+        totalRevenue: avgBalance * matchingCustomers.length,
+        growthRate: 0,
+        riskLevel: avgRiskScore > 0.7 ? 'high' : avgRiskScore > 0.4 ? 'medium' : 'low',
+        isActive: 1
+      })
+
+      // Write assignments for the new segment through the criteria engine
+      await SegmentCriteriaEngine.refreshSegment(segment as CustomerSegment, customers, user.id, churnFields || undefined)
+
+      resetForm()
+      setOpen(false)
+      onSaved()
+    } catch (error) {
+      console.error('Error saving rule-based segment:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={customers.length === 0}>
+          <Plus className="mr-2 h-4 w-4" />
+          Build Segment
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Build Segment from Rules</DialogTitle>
+          <DialogDescription>
+            Combine conditions over customer fields. The matching count updates as you edit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="segment-name">Segment Name</Label>
+              <Input
+                id="segment-name"
+                placeholder="e.g. Affluent Mobile Users"
+                value={segmentName}
+                onChange={(e) => setSegmentName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Match</Label>
+              <Select value={matchMode} onValueChange={(value) => setMatchMode(value as 'all' | 'any')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All conditions (AND)</SelectItem>
+                  <SelectItem value="any">Any condition (OR)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="segment-description">Description</Label>
+            <Textarea
+              id="segment-description"
+              placeholder="Who is in this segment and why it matters"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-3">
+            {conditions.map((condition, index) => {
+              const definition = fieldDefinition(condition.field)
+              return (
+                <div key={condition.key} className="p-4 bg-gray-50 rounded-lg border space-y-3">
+                  <div className="flex items-center justify-between space-x-2">
+                    <div className="flex items-center space-x-2 flex-1">
+                      {index > 0 && (
+                        <Badge variant="outline">{matchMode === 'all' ? 'AND' : 'OR'}</Badge>
+                      )}
+                      <Select
+                        value={condition.field}
+                        onValueChange={(field) => updateCondition(condition.key, { field, min: '', max: '', values: [] })}
+                      >
+                        <SelectTrigger className="w-[220px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CRITERIA_FIELDS.map(f => (
+                            <SelectItem key={f.field} value={f.field}>{f.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeCondition(condition.key)}
+                      disabled={conditions.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {definition.type === 'range' ? (
+                    <div className="grid gap-3 grid-cols-2">
+                      <Input
+                        type="number"
+                        placeholder="Min"
+                        step={definition.format === 'ratio' ? '0.05' : '1'}
+                        value={condition.min}
+                        onChange={(e) => updateCondition(condition.key, { min: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        placeholder="Max"
+                        step={definition.format === 'ratio' ? '0.05' : '1'}
+                        value={condition.max}
+                        onChange={(e) => updateCondition(condition.key, { max: e.target.value })}
+                      />
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap gap-3">
+                      {definition.options?.map(option => (
+                        <label key={option} className="flex items-center space-x-2 text-sm">
+                          <Checkbox
+                            checked={condition.values.includes(option)}
+                            onCheckedChange={(checked) => toggleValue(condition, option, checked === true)}
+                          />
+                          <span className="capitalize">{option}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+
+            <Button variant="outline" size="sm" onClick={addCondition}>
+              <Filter className="mr-2 h-4 w-4" />
+              Add Condition
+            </Button>
+          </div>
+
+          <div className="flex items-center justify-between p-4 bg-blue-50 rounded-lg border border-blue-200">
+            <div className="flex items-center space-x-2">
+              <Users className="h-4 w-4 text-blue-600" />
+              <span className="text-sm font-medium text-blue-900">Matching customers</span>
+            </div>
+            <div className="text-right">
+              {scoringChurn ? (
+                <RefreshCw className="ml-auto h-5 w-5 animate-spin text-blue-900" />
+              ) : (
+                <span className="text-2xl font-bold text-blue-900">{matchingCustomers.length.toLocaleString()}</span>
+              )}
+              <p className="text-xs text-blue-800">
+                {customers.length > 0 ? ((matchingCustomers.length / customers.length) * 100).toFixed(1) : 0}% of {customers.length.toLocaleString()}
+              </p>
+            </div>
+          </div>
+
+          {criteria && (
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <pre className="text-xs text-muted-foreground whitespace-pre-wrap">
+                {JSON.stringify(criteria, null, 2)}
+              </pre>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={saveSegment} disabled={saving || scoringChurn || !criteria || !segmentName.trim()}>
+            {saving && <RefreshCw className="mr-2 h-4 w-4 animate-spin" />}
+            {saving ? 'Saving...' : 'Save Segment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
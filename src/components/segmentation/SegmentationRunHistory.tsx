@@ -0,0 +1,271 @@
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '../ui/alert-dialog'
+import { History, RotateCcw, Trash2, GitCompare, CheckCircle } from 'lucide-react'
+import type { Customer, SegmentationRun } from '../../data'
+import { SegmentationRunService } from '../../services/segmentationRuns'
+import type { RunComparison } from '../../services/segmentationRuns'
+import { SegmentMigrationMatrix } from './SegmentMigrationMatrix'
+
+interface SegmentationRunHistoryProps {
+  runs: SegmentationRun[]
+  customers: Customer[]
+  onChanged: () => void
+}
+
+export function SegmentationRunHistory({ runs, customers, onChanged }: SegmentationRunHistoryProps) {
+  const [busyRunId, setBusyRunId] = useState<string | null>(null)
+  const [baseRunId, setBaseRunId] = useState<string>('')
+  const [targetRunId, setTargetRunId] = useState<string>('')
+  const [comparison, setComparison] = useState<RunComparison | null>(null)
+
+  useEffect(() => {
+    // Default to comparing the two newest runs
+    if (runs.length >= 2) {
+      setTargetRunId(prev => (runs.some(r => r.id === prev) ? prev : runs[0].id))
+      setBaseRunId(prev => (runs.some(r => r.id === prev) ? prev : runs[1].id))
+    } else {
+      setComparison(null)
+    }
+  }, [runs])
+
+  const activateRun = async (run: SegmentationRun) => {
+    try {
+      setBusyRunId(run.id)
+      await SegmentationRunService.activateRun(run.id)
+      onChanged()
+    } catch (error) {
+      console.error('Error activating segmentation run:', error)
+    } finally {
+      setBusyRunId(null)
+    }
+  }
+
+  const deleteRun = async (run: SegmentationRun) => {
+    try {
+      setBusyRunId(run.id)
+      await SegmentationRunService.deleteRun(run.id)
+      setComparison(null)
+      onChanged()
+    } catch (error) {
+      console.error('Error deleting segmentation run:', error)
+    } finally {
+      setBusyRunId(null)
+    }
+  }
+
+  const compareRuns = async () => {
+    const base = runs.find(r => r.id === baseRunId)
+    const target = runs.find(r => r.id === targetRunId)
+    if (!base || !target) return
+
+    try {
+      setComparison(await SegmentationRunService.compareRuns(base, target))
+    } catch (error) {
+      console.error('Error comparing segmentation runs:', error)
+    }
+  }
+
+  const activeRun = runs.find(r => r.isActive === 1)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5" />
+          <span>Segmentation Runs</span>
+        </CardTitle>
+        <CardDescription>
+          Every AI segmentation is kept as a version. Activate an older run to roll back.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Version</TableHead>
+              <TableHead>Method</TableHead>
+              <TableHead>Author</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead>Fit</TableHead>
+              <TableHead className="text-right">Segments</TableHead>
+              <TableHead className="text-right">Customers</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {runs.map(run => (
+              <TableRow key={run.id}>
+                <TableCell className="font-medium">
+                  <div className="flex items-center space-x-2">
+                    <span>v{run.version}</span>
+                    {run.isActive === 1 && <Badge>Active</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell>{run.method}</TableCell>
+                <TableCell>{run.authorEmail}</TableCell>
+                <TableCell>{new Date(run.createdAt).toLocaleString()}</TableCell>
+                <TableCell>
+                  <RunDiagnostics run={run} />
+                </TableCell>
+                <TableCell className="text-right">{run.segmentCount}</TableCell>
+                <TableCell className="text-right">{run.customerCount.toLocaleString()}</TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end space-x-2">
+                    {run.isActive !== 1 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => activateRun(run)}
+                        disabled={busyRunId !== null}
+                      >
+                        {activeRun && run.version < activeRun.version ? (
+                          <RotateCcw className="mr-1 h-4 w-4" />
+                        ) : (
+                          <CheckCircle className="mr-1 h-4 w-4" />
+                        )}
+                        {activeRun && run.version < activeRun.version ? 'Roll Back' : 'Activate'}
+                      </Button>
+                    )}
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" disabled={busyRunId !== null}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete run v{run.version}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            This removes its {run.segmentCount} segments and all of their customer assignments.
+                            {run.isActive === 1 && ' The newest remaining run will become active.'}
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => deleteRun(run)}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {runs.length >= 2 && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={baseRunId} onValueChange={setBaseRunId}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="Base run" />
+                </SelectTrigger>
+                <SelectContent>
+                  {runs.map(run => (
+                    <SelectItem key={run.id} value={run.id}>v{run.version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">vs</span>
+              <Select value={targetRunId} onValueChange={setTargetRunId}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="Target run" />
+                </SelectTrigger>
+                <SelectContent>
+                  {runs.map(run => (
+                    <SelectItem key={run.id} value={run.id}>v{run.version}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={compareRuns} disabled={!baseRunId || !targetRunId || baseRunId === targetRunId}>
+                <GitCompare className="mr-2 h-4 w-4" />
+                Compare
+              </Button>
+            </div>
+
+            {comparison && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Segment</TableHead>
+                    <TableHead className="text-right">v{comparison.base.run.version}</TableHead>
+                    <TableHead className="text-right">v{comparison.target.run.version}</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparison.segments.map(segment => (
+                    <TableRow key={segment.segmentName}>
+                      <TableCell className="font-medium">{segment.segmentName}</TableCell>
+                      <TableCell className="text-right">{segment.baseCount?.toLocaleString() ?? '—'}</TableCell>
+                      <TableCell className="text-right">{segment.targetCount?.toLocaleString() ?? '—'}</TableCell>
+                      <TableCell className="text-right">
+                        {segment.change === null ? (
+                          <Badge variant="outline">{segment.baseCount === null ? 'New' : 'Removed'}</Badge>
+                        ) : (
+                          <span className={segment.change > 0 ? 'text-green-600' : segment.change < 0 ? 'text-red-600' : ''}>
+                            {segment.change > 0 ? '+' : ''}{segment.change.toLocaleString()}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="font-semibold">Total</TableCell>
+                    <TableCell className="text-right font-semibold">{comparison.base.totalCustomers.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-semibold">{comparison.target.totalCustomers.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {comparison.target.segments.length - comparison.base.segments.length > 0 ? '+' : ''}
+                      {comparison.target.segments.length - comparison.base.segments.length} segments
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+
+            {comparison && (
+              <SegmentMigrationMatrix
+                base={comparison.base.run}
+                target={comparison.target.run}
+                customers={customers}
+              />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Chosen k and silhouette of a run, with every candidate k of the elbow search on hover
+ */
+function RunDiagnostics({ run }: { run: SegmentationRun }) {
+  const diagnostics = SegmentationRunService.parseDiagnostics(run)
+  if (!diagnostics) return <span className="text-muted-foreground">—</span>
+
+  const elbow = diagnostics.elbow
+    .map(point => `k=${point.k}: inertia ${Math.round(point.inertia).toLocaleString()}, silhouette ${point.silhouette.toFixed(2)}`)
+    .join('\n')
+
+  return (
+    <span className="text-sm" title={elbow}>
+      k={diagnostics.k} · silhouette {diagnostics.silhouette.toFixed(2)}
+    </span>
+  )
+}
@@ -0,0 +1,47 @@
+import { blink } from '../blink/client'
+import type { DataStore, Repository, TableName } from './types'
+
+function blinkRepository<T extends { id: string }>(tableName: TableName): Repository<T> {
+  const table = blink.db.table<T>(tableName)
+
+  return {
+    create: (data) => table.create(data),
+    createMany: (data) => table.createMany(data),
+    get: (id) => table.get(id),
+    list: (options) => table.list(options),
+    update: (id, data) => table.update(id, data),
+    delete: (id) => table.delete(id),
+    deleteMany: (options) => table.deleteMany(options),
+    count: (options) => table.count(options)
+  }
+}
+
+/**
+ * Data store backed by the hosted Blink project
+ */
+export function createBlinkStore(): DataStore {
+  return {
+    customers: blinkRepository('customers'),
+    transactions: blinkRepository('transactions'),
+    customerInteractions: blinkRepository('customerInteractions'),
+    customerSegments: blinkRepository('customerSegments'),
+    customerSegmentAssignments: blinkRepository('customerSegmentAssignments'),
+    segmentationRuns: blinkRepository('segmentationRuns'),
+    riskAssessments: blinkRepository('riskAssessments'),
+    aiInsights: blinkRepository('aiInsights'),
+    amlAlerts: blinkRepository('amlAlerts'),
+    amlCases: blinkRepository('amlCases'),
+    screeningMatches: blinkRepository('screeningMatches'),
+    kycEvents: blinkRepository('kycEvents'),
+    aiRedactionAudits: blinkRepository('aiRedactionAudits'),
+    aiUsageEvents: blinkRepository('aiUsageEvents'),
+    promptTemplates: blinkRepository('promptTemplates'),
+    metricSnapshots: blinkRepository('metricSnapshots'),
+    churnModelRuns: blinkRepository('churnModelRuns'),
+    churnPredictions: blinkRepository('churnPredictions'),
+    currentUser: async () => {
+      const user = await blink.auth.me()
+      return { id: user.id, email: user.email, displayName: user.displayName }
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { createBlinkStore } from './blinkAdapter'
+import { createLocalStore } from './localAdapter'
+import type { DataBackend, DataStore } from './types'
+
+export type * from './types'
+
+const BACKENDS: DataBackend[] = ['blink', 'indexeddb', 'memory']
+
+/**
+ * Resolve the backend once at startup. A `dataBackend` entry in localStorage
+ * overrides the VITE_DATA_BACKEND build setting so a deployed build can be
+ * switched to offline mode for demos.
+ */
+function resolveBackend(): DataBackend {
+  let override: string | null = null
+  try {
+    override = typeof localStorage !== 'undefined' ? localStorage.getItem('dataBackend') : null
+  } catch {
+    override = null
+  }
+  const configured = override || import.meta.env.VITE_DATA_BACKEND
+  return BACKENDS.includes(configured as DataBackend) ? configured as DataBackend : 'blink'
+}
+
+export function createDataStore(backend: DataBackend): DataStore {
+  switch (backend) {
+    case 'indexeddb':
+      return createLocalStore({ persist: true })
+    case 'memory':
+      return createLocalStore({ persist: false })
+    default:
+      return createBlinkStore()
+  }
+}
+
+export const dataBackend = resolveBackend()
+
+export const isOfflineBackend = dataBackend !== 'blink'
+
+export const db = createDataStore(dataBackend)
+
+export { streamRecords, loadAll, reduceRecords, DEFAULT_PAGE_SIZE } from './pagination'
+export type { LoadProgress, PagedLoadOptions } from './pagination'
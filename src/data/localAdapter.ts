@@ -0,0 +1,268 @@
+import type {
+  DataStore,
+  DataUser,
+  FilterCondition,
+  FilterOperators,
+  QueryOptions,
+  Repository,
+  TableName
+} from './types'
+
+const LOCAL_USER: DataUser = {
+  id: 'local_user',
+  email: 'analyst@local.demo',
+  displayName: 'Local Analyst'
+}
+
+const TABLES: TableName[] = [
+  'customers',
+  'transactions',
+  'customerInteractions',
+  'customerSegments',
+  'customerSegmentAssignments',
+  'segmentationRuns',
+  'riskAssessments',
+  'aiInsights',
+  'amlAlerts',
+  'amlCases',
+  'screeningMatches',
+  'kycEvents',
+  'aiRedactionAudits',
+  'aiUsageEvents',
+  'promptTemplates',
+  'metricSnapshots',
+  'churnModelRuns',
+  'churnPredictions'
+]
+
+type StoredRecord = { id: string } & Record<string, unknown>
+
+interface Persistence {
+  load(table: string): Promise<StoredRecord[]>
+  put(table: string, records: StoredRecord[]): Promise<void>
+  remove(table: string, ids: string[]): Promise<void>
+}
+
+const OPERATOR_KEYS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'not_in']
+
+function isOperatorObject(value: unknown): value is FilterOperators {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.keys(value).length > 0 && Object.keys(value).every(k => OPERATOR_KEYS.includes(k))
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === undefined || a === null) return -1
+  if (b === undefined || b === null) return 1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  return String(a).localeCompare(String(b))
+}
+
+function matchesOperators(value: unknown, ops: FilterOperators): boolean {
+  if ('eq' in ops && value !== ops.eq) return false
+  if ('neq' in ops && value === ops.neq) return false
+  if (ops.gt !== undefined && !(compareValues(value, ops.gt) > 0)) return false
+  if (ops.gte !== undefined && !(compareValues(value, ops.gte) >= 0)) return false
+  if (ops.lt !== undefined && !(compareValues(value, ops.lt) < 0)) return false
+  if (ops.lte !== undefined && !(compareValues(value, ops.lte) <= 0)) return false
+  if (ops.in && !ops.in.includes(value)) return false
+  if (ops.not_in && ops.not_in.includes(value)) return false
+  return true
+}
+
+/**
+ * Evaluate a query filter against a single record, mirroring the Blink filter semantics
+ */
+export function matchesFilter(record: Record<string, unknown>, where?: FilterCondition): boolean {
+  if (!where) return true
+
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'AND') return (condition as FilterCondition[]).every(c => matchesFilter(record, c))
+    if (key === 'OR') return (condition as FilterCondition[]).some(c => matchesFilter(record, c))
+    if (isOperatorObject(condition)) return matchesOperators(record[key], condition)
+    return record[key] === condition
+  })
+}
+
+function applyQuery<T extends StoredRecord>(records: T[], options: QueryOptions = {}): T[] {
+  let result = records.filter(r => matchesFilter(r, options.where))
+
+  if (options.orderBy) {
+    const order = Object.entries(options.orderBy)
+    result = [...result].sort((a, b) => {
+      for (const [field, direction] of order) {
+        const diff = compareValues(a[field], b[field])
+        if (diff !== 0) return direction === 'desc' ? -diff : diff
+      }
+      return 0
+    })
+  }
+
+  const offset = options.offset || 0
+  return options.limit !== undefined ? result.slice(offset, offset + options.limit) : result.slice(offset)
+}
+
+function generateId(table: string): string {
+  return `${table}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+class LocalTable<T extends StoredRecord> implements Repository<T> {
+  private records = new Map<string, T>()
+  private ready: Promise<void> | null = null
+  private tableName: string
+  private persistence: Persistence | null
+
+  constructor(tableName: string, persistence: Persistence | null) {
+    this.tableName = tableName
+    this.persistence = persistence
+  }
+
+  private async load(): Promise<void> {
+    if (!this.persistence) return
+    if (!this.ready) {
+      this.ready = this.persistence.load(this.tableName).then(rows => {
+        for (const row of rows) this.records.set(row.id, row as T)
+      })
+    }
+    await this.ready
+  }
+
+  private async save(records: T[]): Promise<void> {
+    if (this.persistence) await this.persistence.put(this.tableName, records)
+  }
+
+  async create(data: Partial<T>): Promise<T> {
+    const [record] = await this.createMany([data])
+    return record
+  }
+
+  async createMany(data: Partial<T>[]): Promise<T[]> {
+    await this.load()
+    const now = new Date().toISOString()
+    const created = data.map(d => ({
+      createdAt: now,
+      updatedAt: now,
+      ...d,
+      id: d.id || generateId(this.tableName)
+    }) as unknown as T)
+    for (const record of created) this.records.set(record.id, record)
+    await this.save(created)
+    return created.map(r => ({ ...r }))
+  }
+
+  async get(id: string): Promise<T | null> {
+    await this.load()
+    const record = this.records.get(id)
+    return record ? { ...record } : null
+  }
+
+  async list(options?: QueryOptions): Promise<T[]> {
+    await this.load()
+    return applyQuery([...this.records.values()], options).map(r => ({ ...r }))
+  }
+
+  async update(id: string, data: Partial<T>): Promise<T> {
+    await this.load()
+    const existing = this.records.get(id)
+    if (!existing) throw new Error(`Record ${id} not found in ${this.tableName}`)
+    const updated = { ...existing, ...data, id, updatedAt: new Date().toISOString() }
+    this.records.set(id, updated)
+    await this.save([updated])
+    return { ...updated }
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.load()
+    this.records.delete(id)
+    if (this.persistence) await this.persistence.remove(this.tableName, [id])
+  }
+
+  async deleteMany(options: { where: FilterCondition }): Promise<void> {
+    await this.load()
+    const ids = applyQuery([...this.records.values()], { where: options.where }).map(r => r.id)
+    for (const id of ids) this.records.delete(id)
+    if (this.persistence && ids.length > 0) await this.persistence.remove(this.tableName, ids)
+  }
+
+  async count(options?: { where?: FilterCondition }): Promise<number> {
+    await this.load()
+    return applyQuery([...this.records.values()], { where: options?.where }).length
+  }
+}
+
+const IDB_NAME = 'ai-banking-local'
+const IDB_STORE = 'records'
+
+function promisifyRequest<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+/**
+ * Persist every table in a single object store keyed by [table, id], so new
+ * tables never require an IndexedDB schema upgrade.
+ */
+function createIndexedDBPersistence(): Persistence {
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  const open = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(IDB_NAME, 1)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(IDB_STORE, { keyPath: ['table', 'id'] })
+        store.createIndex('byTable', 'table')
+      }
+      dbPromise = promisifyRequest(request)
+    }
+    return dbPromise
+  }
+
+  return {
+    async load(table) {
+      const idb = await open()
+      const index = idb.transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE).index('byTable')
+      const rows = await promisifyRequest(index.getAll(table))
+      return rows.map(row => row.data as StoredRecord)
+    },
+    async put(table, records) {
+      const idb = await open()
+      const tx = idb.transaction(IDB_STORE, 'readwrite')
+      const store = tx.objectStore(IDB_STORE)
+      for (const record of records) store.put({ table, id: record.id, data: record })
+      await promisifyTransaction(tx)
+    },
+    async remove(table, ids) {
+      const idb = await open()
+      const tx = idb.transaction(IDB_STORE, 'readwrite')
+      const store = tx.objectStore(IDB_STORE)
+      for (const id of ids) store.delete([table, id])
+      await promisifyTransaction(tx)
+    }
+  }
+}
+
+/**
+ * Data store that runs entirely in the browser. With `persist` the tables are
+ * kept in IndexedDB, otherwise they live in memory for the page lifetime.
+ */
+export function createLocalStore(options: { persist: boolean }): DataStore {
+  const persistence = options.persist && typeof indexedDB !== 'undefined' ? createIndexedDBPersistence() : null
+  const tables = Object.fromEntries(
+    TABLES.map(name => [name, new LocalTable(name, persistence)])
+  ) as unknown as Omit<DataStore, 'currentUser'>
+
+  return {
+    ...tables,
+    currentUser: async () => LOCAL_USER
+  }
+}
@@ -0,0 +1,97 @@
+import type { FilterCondition, FilterOperators, Repository } from './types'
+
+export const DEFAULT_PAGE_SIZE = 500
+
+export interface LoadProgress {
+  loaded: number
+  total: number
+}
+
+export interface PagedLoadOptions {
+  where?: FilterCondition
+  pageSize?: number
+  onProgress?: (progress: LoadProgress) => void
+  signal?: AbortSignal
+}
+
+/**
+ * Add the keyset bound to the caller's filter. The bound is merged into the
+ * same flat object rather than wrapped in an AND group, which the Blink query
+ * builder cannot serialise; an existing `id` filter gets the bound merged into
+ * its operators.
+ */
+function afterCursor(where: FilterCondition | undefined, cursor: string): FilterCondition {
+  if (!where || where.id === undefined) return { ...where, id: { gt: cursor } }
+
+  const id = where.id
+  const operators: FilterOperators = typeof id === 'object' && id !== null && !Array.isArray(id)
+    ? { ...(id as FilterOperators) }
+    : { eq: id }
+  // Rows before the cursor already met any lower bound, so the cursor replaces it
+  delete operators.gte
+  return { ...where, id: { ...operators, gt: cursor } }
+}
+
+/**
+ * Page through a table with a keyset cursor on `id`. Unlike offset paging this
+ * stays stable while rows are inserted and never skips past a page boundary.
+ */
+export async function* streamRecords<T extends { id: string }>(
+  repository: Repository<T>,
+  options: PagedLoadOptions = {}
+): AsyncGenerator<T[]> {
+  const pageSize = options.pageSize || DEFAULT_PAGE_SIZE
+  const total = await repository.count({ where: options.where })
+  let loaded = 0
+  let cursor: string | null = null
+
+  options.onProgress?.({ loaded, total })
+
+  while (true) {
+    if (options.signal?.aborted) return
+
+    const page = await repository.list({
+      where: cursor ? afterCursor(options.where, cursor) : options.where,
+      orderBy: { id: 'asc' },
+      limit: pageSize
+    })
+    if (page.length === 0) return
+
+    loaded += page.length
+    cursor = page[page.length - 1].id
+    options.onProgress?.({ loaded, total: Math.max(total, loaded) })
+    yield page
+
+    if (page.length < pageSize) return
+  }
+}
+
+/**
+ * Load every matching row, page by page
+ */
+export async function loadAll<T extends { id: string }>(
+  repository: Repository<T>,
+  options: PagedLoadOptions = {}
+): Promise<T[]> {
+  const rows: T[] = []
+  for await (const page of streamRecords(repository, options)) {
+    rows.push(...page)
+  }
+  return rows
+}
+
+/**
+ * Fold every matching row into an accumulator without holding the full table in memory
+ */
+export async function reduceRecords<T extends { id: string }, A>(
+  repository: Repository<T>,
+  reducer: (accumulator: A, row: T) => A,
+  initial: A,
+  options: PagedLoadOptions = {}
+): Promise<A> {
+  let accumulator = initial
+  for await (const page of streamRecords(repository, options)) {
+    for (const row of page) accumulator = reducer(accumulator, row)
+  }
+  return accumulator
+}
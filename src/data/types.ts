@@ -0,0 +1,381 @@
+export interface Customer {
+  id: string
+  userId: string
+  customerNumber: string
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  dateOfBirth: string
+  address: string
+  city: string
+  state: string
+  zipCode: string
+  country: string
+  accountBalance: number
+  creditScore: number
+  annualIncome: number
+  employmentStatus: string
+  accountType: string
+  accountOpenedDate: string
+  lastTransactionDate: string
+  transactionCount: number
+  avgMonthlyBalance: number
+  riskScore: number
+  customerLifetimeValue: number
+  preferredChannel: string
+  kycStatus: string // pending | info_requested | approved | rejected
+  kycChecklist?: string // JSON KycChecklist
+  kycReviewedAt?: string
+  kycNextReviewDate?: string
+  screeningStatus?: string // clear | potential_match | escalated
+  screenedAt?: string
+  isActive: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface Transaction {
+  id: string
+  userId: string
+  customerId: string
+  transactionType: string
+  amount: number
+  description: string
+  merchantCategory: string
+  channel: string
+  location: string
+  isRecurring: number
+  riskFlag: number
+  anomalyScore?: number
+  anomalyReasons?: string // JSON AnomalyReason[]
+  transactionDate: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CustomerInteraction {
+  id: string
+  userId: string
+  customerId: string
+  interactionType: string
+  channel: string
+  subject: string
+  description: string
+  outcome: string
+  satisfactionScore: number
+  agentId: string
+  durationMinutes: number
+  interactionDate: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CustomerSegment {
+  id: string
+  userId: string
+  segmentName: string
+  description: string
+  criteria: string // JSON
+  customerCount: number
+  avgBalance: number
+  totalRevenue: number
+  growthRate: number
+  riskLevel: string
+  isActive: number
+  runId?: string // set when the segment was produced by a segmentation run
+  promptVersion?: string // e.g. segment-naming@v1, when the AI named the segment
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CustomerSegmentAssignment {
+  id: string
+  userId: string
+  customerId: string
+  segmentId: string
+  confidenceScore: number
+  runId?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SegmentationRun {
+  id: string
+  userId: string
+  version: number
+  method: string
+  parameters: string // JSON
+  segmentCount: number
+  customerCount: number
+  authorEmail: string
+  isActive: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface RiskAssessment {
+  id: string
+  userId: string
+  customerId: string
+  assessmentType: string
+  riskScore: number
+  riskLevel: string
+  factors: string // JSON array
+  recommendations: string // JSON array
+  status: string
+  assessedDate: string
+  expiresDate: string
+  scorecardScore?: number
+  scorecard?: string // JSON ScorecardResult
+  promptVersion?: string // e.g. risk-assessment@v2, when the AI wrote the narrative
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AmlAlert {
+  id: string
+  userId: string
+  customerId: string
+  caseId?: string
+  alertKey: string // rule + customer + first transaction id
+  ruleId: string
+  ruleName: string
+  severity: string
+  description: string
+  transactionIds: string // JSON array
+  totalAmount: number
+  windowStart: string
+  windowEnd: string
+  status: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AmlCase {
+  id: string
+  userId: string
+  customerId: string
+  title: string
+  status: string // open | investigating | escalated | sar_filed | closed
+  priority: string
+  assignee: string
+  notes: string // JSON AmlCaseNote[]
+  alertCount: number
+  totalAmount: number
+  openedAt: string
+  closedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ScreeningMatch {
+  id: string
+  userId: string
+  customerId: string
+  entryId: string // watchlist uid / ent_num
+  entryName: string
+  matchedName: string // primary name or alias that scored best
+  listType: string // sanctions | pep
+  programs: string
+  nameScore: number // 0-1
+  dobMatch: string // exact | year | mismatch | unknown
+  countryMatch: string // match | mismatch | unknown
+  score: number // 0-1 after corroboration
+  status: string // pending | cleared | escalated
+  decisionReason?: string
+  reviewedBy?: string
+  reviewedAt?: string
+  watchlistSource: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface KycEvent {
+  id: string
+  userId: string
+  customerId: string
+  fromStatus: string
+  toStatus: string
+  reason: string
+  reviewer: string
+  checklist: string // JSON KycChecklist at the time of the decision
+  riskTier: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AIRedactionAudit {
+  id: string
+  userId: string
+  provider: string
+  operation: string // text | object
+  redactions: string // JSON Redaction[]: tokens and PII types only, never the values
+  redactionCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AIUsageEvent {
+  id: string
+  userId: string
+  provider: string
+  feature: string // segmentation | insights | risk | clv | recommendations | other
+  operation: string // text | object
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  estimatedCost: number
+  latencyMs: number
+  attempts: number
+  status: string // success | error | budget_exceeded
+  error?: string
+  day: string // YYYY-MM-DD, for daily budgets
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PromptTemplateVersion {
+  id: string
+  userId: string
+  name: string // PromptName
+  version: string // v2, v3...; v1 is the built-in template
+  template: string
+  notes: string
+  isActive: number // at most one per name; none means the built-in is active
+  authorEmail: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface MetricSnapshot {
+  id: string
+  userId: string
+  day: string // YYYY-MM-DD; one snapshot per scope per day
+  scope: string // portfolio | segment
+  scopeName: string // 'Portfolio' or the segment name, which outlives segment IDs across runs
+  segmentId?: string
+  customerCount: number
+  totalBalance: number
+  avgBalance: number
+  avgRiskScore: number
+  lowRiskCount: number
+  mediumRiskCount: number
+  highRiskCount: number
+  activeSegments: number
+  activeInsights: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ChurnModelRun {
+  id: string
+  userId: string
+  model: string // JSON ChurnModelSummary
+  trainingSize: number
+  customerCount: number // customers scored with this model
+  auc?: number
+  usedFallback: number
+  trainedAt: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ChurnPredictionRecord {
+  id: string
+  userId: string
+  runId: string
+  customerId: string
+  probability: number
+  riskLevel: string
+  drivers: string // JSON ChurnDriver[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AIInsight {
+  id: string
+  userId: string
+  customerId?: string
+  segmentId?: string
+  title: string
+  description: string
+  insightType: string
+  priority: string
+  confidenceScore: number
+  status: string
+  promptVersion?: string // e.g. portfolio-insights@v1
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DataUser {
+  id: string
+  email: string
+  displayName?: string
+}
+
+/**
+ * Filter syntax shared by every backend. A plain value means equality, an
+ * operator object compares, and AND / OR nest further conditions.
+ */
+export interface FilterOperators {
+  eq?: unknown
+  neq?: unknown
+  gt?: number | string
+  gte?: number | string
+  lt?: number | string
+  lte?: number | string
+  in?: unknown[]
+  not_in?: unknown[]
+}
+
+export type FilterCondition = {
+  AND?: FilterCondition[]
+  OR?: FilterCondition[]
+  [field: string]: unknown
+}
+
+export interface QueryOptions {
+  where?: FilterCondition
+  orderBy?: Record<string, 'asc' | 'desc'>
+  limit?: number
+  offset?: number
+}
+
+export interface Repository<T extends { id: string }> {
+  create(data: Partial<T>): Promise<T>
+  createMany(data: Partial<T>[]): Promise<T[]>
+  get(id: string): Promise<T | null>
+  list(options?: QueryOptions): Promise<T[]>
+  update(id: string, data: Partial<T>): Promise<T>
+  delete(id: string): Promise<void>
+  deleteMany(options: { where: FilterCondition }): Promise<void>
+  count(options?: { where?: FilterCondition }): Promise<number>
+}
+
+export interface DataStore {
+  customers: Repository<Customer>
+  transactions: Repository<Transaction>
+  customerInteractions: Repository<CustomerInteraction>
+  customerSegments: Repository<CustomerSegment>
+  customerSegmentAssignments: Repository<CustomerSegmentAssignment>
+  segmentationRuns: Repository<SegmentationRun>
+  riskAssessments: Repository<RiskAssessment>
+  aiInsights: Repository<AIInsight>
+  amlAlerts: Repository<AmlAlert>
+  amlCases: Repository<AmlCase>
+  screeningMatches: Repository<ScreeningMatch>
+  kycEvents: Repository<KycEvent>
+  aiRedactionAudits: Repository<AIRedactionAudit>
+  aiUsageEvents: Repository<AIUsageEvent>
+  promptTemplates: Repository<PromptTemplateVersion>
+  metricSnapshots: Repository<MetricSnapshot>
+  churnModelRuns: Repository<ChurnModelRun>
+  churnPredictions: Repository<ChurnPredictionRecord>
+  currentUser(): Promise<DataUser>
+}
+
+export type TableName = Exclude<keyof DataStore, 'currentUser'>
+
+export type DataBackend = 'blink' | 'indexeddb' | 'memory'
@@ -4,6 +4,7 @@ import { Badge } from '../components/ui/badge'
 import { Button } from '../components/ui/button'
 import { Progress } from '../components/ui/progress'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
+import { Alert, AlertDescription, AlertTitle } from '../components/ui/alert'
 import { 
   Brain, 
   TrendingUp, 
@@ -14,9 +15,13 @@ import {
   RefreshCw,
   CheckCircle,
   XCircle,
-  Clock
+  Clock,
+  AlertCircle
 } from 'lucide-react'
-import { blink } from '../blink/client'
+import { ai, AIValidationError, generateStructured } from '../ai'
+import type { JsonSchema } from '../ai'
+import { db, reduceRecords } from '../data'
+import { PromptRegistry } from '../services/promptRegistry'
 
 interface AIInsight {
   id: string
@@ -26,15 +31,46 @@ interface AIInsight {
   priority: string
   confidenceScore: number
   status: string
+  promptVersion?: string
   createdAt: string
   customerId?: string
   segmentId?: string
 }
 
+interface GeneratedInsight {
+  title: string
+  description: string
+  type: string
+  priority: string
+  confidence: number
+}
+
+interface GenerationError {
+  message: string
+  details: string[]
+}
+
+const INSIGHTS_SCHEMA: JsonSchema = {
+  type: 'array',
+  minItems: 1,
+  items: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      description: { type: 'string' },
+      type: { type: 'string', enum: ['opportunity', 'risk_alert', 'retention', 'cross_sell', 'operational', 'trend', 'behavior'] },
+      priority: { type: 'string', enum: ['high', 'medium', 'low'], default: 'medium' },
+      confidence: { type: 'number', minimum: 0, maximum: 1 }
+    },
+    required: ['title', 'description', 'type', 'priority', 'confidence']
+  }
+}
+
 export function AIInsights() {
   const [insights, setInsights] = useState<AIInsight[]>([])
   const [loading, setLoading] = useState(true)
   const [generating, setGenerating] = useState(false)
+  const [generationError, setGenerationError] = useState<GenerationError | null>(null)
 
   useEffect(() => {
     loadInsights()
@@ -42,7 +78,7 @@ export function AIInsights() {
 
   const loadInsights = async () => {
     try {
-      const insightData = await blink.db.aiInsights.list({
+      const insightData = await db.aiInsights.list({
         orderBy: { createdAt: 'desc' },
         limit: 50
       })
@@ -57,65 +93,61 @@ export function AIInsights() {
   const generateNewInsights = async () => {
     try {
       setGenerating(true)
+      setGenerationError(null)
       
       // Load customer data for analysis
-      const customers = await blink.db.customers.list({ limit: 1000 })
-      const segments = await blink.db.customerSegments.list()
+      const portfolio = await reduceRecords(
+        db.customers,
+        (acc, c) => ({
+          count: acc.count + 1,
+          totalBalance: acc.totalBalance + (c.accountBalance || 0),
+          highValue: acc.highValue + ((c.accountBalance || 0) > 50000 ? 1 : 0),
+          highRisk: acc.highRisk + ((c.riskScore || 0) > 0.7 ? 1 : 0)
+        }),
+        { count: 0, totalBalance: 0, highValue: 0, highRisk: 0 }
+      )
+      const segments = await db.customerSegments.list({ where: { isActive: 1 } })
       
-      // Generate insights using AI
-      const { text } = await blink.ai.generateText({
-        prompt: `Analyze this banking customer data and generate 5-8 actionable business insights:
-
-Customer Data Summary:
-- Total customers: ${customers.length}
-- Average balance: $${customers.reduce((sum, c) => sum + (c.accountBalance || 0), 0) / customers.length}
-- High-value customers (>$50k): ${customers.filter(c => (c.accountBalance || 0) > 50000).length}
-- High-risk customers: ${customers.filter(c => (c.riskScore || 0) > 0.7).length}
-- Active segments: ${segments.length}
-
-Generate insights for:
-1. Revenue opportunities
-2. Risk management alerts
-3. Customer retention strategies
-4. Cross-selling opportunities
-5. Operational improvements
-6. Market trends
-7. Customer behavior patterns
-
-For each insight, provide:
-- title (concise, actionable)
-- description (2-3 sentences with specific recommendations)
-- type (opportunity, risk_alert, retention, cross_sell, operational, trend, behavior)
-- priority (high, medium, low)
-- confidence (0.0-1.0)
+      const { prompt, promptVersion } = await PromptRegistry.render('portfolio-insights', {
+        totalCustomers: portfolio.count,
+        averageBalance: `$${portfolio.count > 0 ? portfolio.totalBalance / portfolio.count : 0}`,
+        highValueCustomers: portfolio.highValue,
+        highRiskCustomers: portfolio.highRisk,
+        activeSegments: segments.length
+      })
 
-Return as JSON array with fields: title, description, type, priority, confidence`,
+      // Generate insights using AI
+      const generatedInsights = await generateStructured<GeneratedInsight[]>(ai, {
+        mode: 'text',
+        feature: 'insights',
+        schema: INSIGHTS_SCHEMA,
+        prompt,
         maxTokens: 1500
       })
 
-      try {
-        const generatedInsights = JSON.parse(text)
-        const user = await blink.auth.me()
+      const user = await db.currentUser()
 
-        for (const insight of generatedInsights) {
-          await blink.db.aiInsights.create({
-            id: `insight_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            userId: user.id,
-            title: insight.title,
-            description: insight.description,
-            insightType: insight.type,
-            priority: insight.priority,
-            confidenceScore: insight.confidence,
-            status: 'active'
-          })
-        }
-
-        await loadInsights()
-      } catch (parseError) {
-        console.error('Error parsing AI insights:', parseError)
+      for (const insight of generatedInsights) {
+        await db.aiInsights.create({
+          id: `insight_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          userId: user.id,
+          title: insight.title,
+          description: insight.description,
+          insightType: insight.type,
+          priority: insight.priority,
+          confidenceScore: insight.confidence,
+          status: 'active',
+          promptVersion
+        })
       }
+
+      await loadInsights()
     } catch (error) {
       console.error('Error generating insights:', error)
+      setGenerationError({
+        message: error instanceof Error ? error.message : 'Insight generation failed',
+        details: error instanceof AIValidationError ? error.errors : []
+      })
     } finally {
       setGenerating(false)
     }
@@ -123,7 +155,7 @@ Return as JSON array with fields: title, description, type, priority, confidence
 
   const updateInsightStatus = async (insightId: string, status: string) => {
     try {
-      await blink.db.aiInsights.update(insightId, { status })
+      await db.aiInsights.update(insightId, { status })
       await loadInsights()
     } catch (error) {
       console.error('Error updating insight status:', error)
@@ -214,6 +246,27 @@ Return as JSON array with fields: title, description, type, priority, confidence
         </Button>
       </div>
 
+      {generationError && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Could not generate insights</AlertTitle>
+          <AlertDescription>
+            <p>{generationError.message}</p>
+            {generationError.details.length > 0 && (
+              <ul className="list-disc pl-4">
+                {generationError.details.slice(0, 5).map((detail, i) => (
+                  <li key={i} className="font-mono text-xs">{detail}</li>
+                ))}
+              </ul>
+            )}
+            <Button variant="outline" size="sm" className="mt-2" onClick={generateNewInsights} disabled={generating}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Try again
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Insights Overview */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
@@ -329,6 +382,9 @@ Return as JSON array with fields: title, description, type, priority, confidence
                               <div className="text-sm text-muted-foreground">
                                 {new Date(insight.createdAt).toLocaleDateString()}
                               </div>
+                              {insight.promptVersion && (
+                                <Badge variant="outline" className="font-mono text-xs">{insight.promptVersion}</Badge>
+                              )}
                             </div>
                           </div>
                         </div>
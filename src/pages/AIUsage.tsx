@@ -0,0 +1,307 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
+import { Badge } from '../components/ui/badge'
+import { Button } from '../components/ui/button'
+import { Input } from '../components/ui/input'
+import { Label } from '../components/ui/label'
+import { Progress } from '../components/ui/progress'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table'
+import { Activity, CircleX, Coins, Gauge, RefreshCw, Save, Timer } from 'lucide-react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { aiProviderName, loadAILimits, saveAILimits, summarizeUsage, usageDay } from '../ai'
+import type { AISchedulerLimits } from '../ai'
+import { db, loadAll } from '../data'
+import type { AIUsageEvent } from '../data'
+
+const HISTORY_DAYS = 30
+
+const LIMIT_FIELDS: { key: keyof AISchedulerLimits; label: string; step: string }[] = [
+  { key: 'maxConcurrency', label: 'Max concurrent calls', step: '1' },
+  { key: 'maxRetries', label: 'Retries on throttling', step: '1' },
+  { key: 'dailyTokenBudget', label: 'Daily token budget (0 = unlimited)', step: '1000' },
+  { key: 'dailyCostBudget', label: 'Daily cost budget, USD (0 = unlimited)', step: '0.5' },
+  { key: 'costPer1kTokens', label: 'Cost per 1K tokens, USD', step: '0.0005' }
+]
+
+export function AIUsage() {
+  const [events, setEvents] = useState<AIUsageEvent[]>([])
+  const [limits, setLimits] = useState<AISchedulerLimits>(() => loadAILimits(aiProviderName))
+  const [loading, setLoading] = useState(true)
+  const [userId, setUserId] = useState('')
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      const user = await db.currentUser()
+      const since = usageDay(new Date(Date.now() - (HISTORY_DAYS - 1) * 24 * 60 * 60 * 1000))
+      const usage = await loadAll(db.aiUsageEvents, { where: { day: { gte: since } } })
+      setUserId(user.id)
+      setEvents(usage)
+    } catch (error) {
+      console.error('Error loading AI usage:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateLimit = (key: keyof AISchedulerLimits, value: string) => {
+    setLimits(prev => ({ ...prev, [key]: Math.max(0, Number(value) || 0) }))
+  }
+
+  const summary = useMemo(() => summarizeUsage(events), [events])
+
+  const today = useMemo(() => {
+    const day = usageDay()
+    // Budgets are per user, so today's spend only counts the current user's calls
+    const todayEvents = events.filter(e => e.day === day && e.userId === userId)
+    const completed = todayEvents.filter(e => e.status !== 'budget_exceeded')
+    return {
+      calls: todayEvents.length,
+      tokens: todayEvents.reduce((sum, e) => sum + (e.totalTokens || 0), 0),
+      cost: todayEvents.reduce((sum, e) => sum + (e.estimatedCost || 0), 0),
+      failures: todayEvents.filter(e => e.status !== 'success').length,
+      avgLatencyMs: completed.length > 0
+        ? completed.reduce((sum, e) => sum + (e.latencyMs || 0), 0) / completed.length
+        : 0
+    }
+  }, [events, userId])
+
+  const recentFailures = useMemo(
+    () => events
+      .filter(e => e.status !== 'success')
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, 10),
+    [events]
+  )
+
+  if (loading) {
+    return (
+      <div className="flex-1 space-y-4 p-8 pt-6">
+        <div className="flex items-center justify-between space-y-2">
+          <h2 className="text-3xl font-bold tracking-tight">AI Usage</h2>
+        </div>
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader className="space-y-0 pb-2">
+                <div className="h-4 bg-gray-200 rounded w-24 animate-pulse"></div>
+              </CardHeader>
+              <CardContent>
+                <div className="h-8 bg-gray-200 rounded w-16 animate-pulse"></div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 space-y-4 p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">AI Usage</h2>
+          <p className="text-muted-foreground">
+            Calls, tokens and latency per feature over the last {HISTORY_DAYS} days · provider <Badge variant="outline">{aiProviderName}</Badge>
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadData}>
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Calls Today</CardTitle>
+            <Activity className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{today.calls}</div>
+            <p className="text-xs text-muted-foreground">
+              Avg latency {Math.round(today.avgLatencyMs).toLocaleString()} ms
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Tokens Today</CardTitle>
+            <Gauge className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{today.tokens.toLocaleString()}</div>
+            {limits.dailyTokenBudget > 0 ? (
+              <>
+                <Progress value={Math.min(100, (today.tokens / limits.dailyTokenBudget) * 100)} className="mt-2 h-2" />
+                <p className="text-xs text-muted-foreground mt-1">
+                  of {limits.dailyTokenBudget.toLocaleString()} budget
+                </p>
+              </>
+            ) : (
+              <p className="text-xs text-muted-foreground">No token budget</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Cost Today</CardTitle>
+            <Coins className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">${today.cost.toFixed(2)}</div>
+            {limits.dailyCostBudget > 0 ? (
+              <>
+                <Progress value={Math.min(100, (today.cost / limits.dailyCostBudget) * 100)} className="mt-2 h-2" />
+                <p className="text-xs text-muted-foreground mt-1">
+                  of ${limits.dailyCostBudget.toFixed(2)} budget
+                </p>
+              </>
+            ) : (
+              <p className="text-xs text-muted-foreground">No cost budget</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Failures Today</CardTitle>
+            <CircleX className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{today.failures}</div>
+            <p className="text-xs text-muted-foreground">Errors and budget blocks</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Usage by Feature</CardTitle>
+            <CardDescription>All users, last {HISTORY_DAYS} days</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Feature</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Avg Latency</TableHead>
+                  <TableHead className="text-right">Failures</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.features.map(feature => (
+                  <TableRow key={feature.feature}>
+                    <TableCell className="font-medium">{feature.label}</TableCell>
+                    <TableCell className="text-right">{feature.calls}</TableCell>
+                    <TableCell className="text-right">{feature.tokens.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">${feature.cost.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{Math.round(feature.avgLatencyMs).toLocaleString()} ms</TableCell>
+                    <TableCell className="text-right">
+                      {feature.failures > 0 && <Badge variant="destructive">{feature.failures}</Badge>}
+                      {feature.budgetBlocked > 0 && (
+                        <Badge variant="secondary" className="ml-1">{feature.budgetBlocked} over budget</Badge>
+                      )}
+                      {feature.failures === 0 && feature.budgetBlocked === 0 && '0'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Daily Tokens</CardTitle>
+            <CardDescription>Tokens used per day</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {summary.daily.length === 0 ? (
+              <p className="text-center text-muted-foreground py-12">No AI calls recorded yet</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={summary.daily}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="day" />
+                  <YAxis />
+                  <Tooltip formatter={(value) => [Number(value).toLocaleString(), 'Tokens']} />
+                  <Bar dataKey="tokens" fill="#8B5CF6" />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Limits</CardTitle>
+            <CardDescription>Applied to every AI call from this browser; budgets are per user per day</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {LIMIT_FIELDS.map(field => (
+              <div key={field.key} className="grid grid-cols-2 items-center gap-4">
+                <Label htmlFor={field.key}>{field.label}</Label>
+                <Input
+                  id={field.key}
+                  type="number"
+                  min="0"
+                  step={field.step}
+                  value={limits[field.key]}
+                  onChange={(e) => updateLimit(field.key, e.target.value)}
+                />
+              </div>
+            ))}
+            <Button onClick={() => saveAILimits(limits)}>
+              <Save className="mr-2 h-4 w-4" />
+              Save Limits
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Failures</CardTitle>
+            <CardDescription>Calls that errored or were blocked by a budget</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recentFailures.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No failed calls</p>
+            ) : (
+              <div className="space-y-3">
+                {recentFailures.map(event => (
+                  <div key={event.id} className="flex items-start justify-between gap-4 border-b pb-2 last:border-0">
+                    <div className="min-w-0">
+                      <div className="flex items-center space-x-2">
+                        <Badge variant={event.status === 'budget_exceeded' ? 'secondary' : 'destructive'}>
+                          {event.status === 'budget_exceeded' ? 'Over budget' : 'Error'}
+                        </Badge>
+                        <span className="text-sm font-medium">{event.feature}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1 truncate">{event.error}</p>
+                    </div>
+                    <div className="flex items-center text-xs text-muted-foreground whitespace-nowrap">
+                      <Timer className="mr-1 h-3 w-3" />
+                      {new Date(event.createdAt).toLocaleString()}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,526 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
+import { Badge } from '../components/ui/badge'
+import { Button } from '../components/ui/button'
+import { Input } from '../components/ui/input'
+import { Label } from '../components/ui/label'
+import { Progress } from '../components/ui/progress'
+import { Switch } from '../components/ui/switch'
+import { Textarea } from '../components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table'
+import {
+  AlertTriangle,
+  Briefcase,
+  Download,
+  Eye,
+  FileText,
+  RefreshCw,
+  Save,
+  ScanSearch,
+  ShieldAlert
+} from 'lucide-react'
+import { db, loadAll } from '../data'
+import type { AmlCase, LoadProgress } from '../data'
+import { AmlMonitor } from '../services/amlMonitoring'
+import type { AmlRuleConfig, AmlScanResult, AmlSeverity } from '../services/amlMonitoring'
+import { AmlCaseService, AML_CASE_STATUSES } from '../services/amlCases'
+import type { AmlCaseDetail, AmlCaseStatus } from '../services/amlCases'
+
+const STATUS_LABELS: Record<AmlCaseStatus, string> = {
+  open: 'Open',
+  investigating: 'Investigating',
+  escalated: 'Escalated',
+  sar_filed: 'SAR Filed',
+  closed: 'Closed'
+}
+
+export function AmlMonitoring() {
+  const [cases, setCases] = useState<AmlCase[]>([])
+  const [customerNames, setCustomerNames] = useState<Map<string, string>>(new Map())
+  const [rules, setRules] = useState<AmlRuleConfig[]>(() => AmlMonitor.loadRules())
+  const [loading, setLoading] = useState(true)
+  const [scanning, setScanning] = useState(false)
+  const [scanProgress, setScanProgress] = useState<LoadProgress | null>(null)
+  const [lastScan, setLastScan] = useState<AmlScanResult | null>(null)
+  const [statusFilter, setStatusFilter] = useState<'active' | 'all' | AmlCaseStatus>('active')
+  const [detail, setDetail] = useState<AmlCaseDetail | null>(null)
+  const [assignee, setAssignee] = useState('')
+  const [noteText, setNoteText] = useState('')
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      const [caseList, customers] = await Promise.all([
+        loadAll(db.amlCases),
+        loadAll(db.customers)
+      ])
+      setCases(caseList.sort((a, b) => b.openedAt.localeCompare(a.openedAt)))
+      setCustomerNames(new Map(customers.map(c => [c.id, `${c.firstName} ${c.lastName}`])))
+    } catch (error) {
+      console.error('Error loading AML cases:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runMonitoring = async () => {
+    try {
+      setScanning(true)
+      const user = await db.currentUser()
+      const result = await AmlMonitor.scanAll(user, setScanProgress)
+      setLastScan(result)
+      await loadData()
+    } catch (error) {
+      console.error('Error running AML monitoring:', error)
+    } finally {
+      setScanning(false)
+      setScanProgress(null)
+    }
+  }
+
+  const updateRule = (id: string, changes: Partial<AmlRuleConfig>) => {
+    setRules(prev => prev.map(rule => rule.id === id ? { ...rule, ...changes } : rule))
+  }
+
+  const updateParameter = (id: string, key: string, value: number) => {
+    setRules(prev => prev.map(rule => rule.id === id
+      ? { ...rule, parameters: rule.parameters.map(p => p.key === key ? { ...p, value } : p) }
+      : rule
+    ))
+  }
+
+  const openCase = async (caseId: string) => {
+    try {
+      const caseDetail = await AmlCaseService.getCaseDetail(caseId)
+      setDetail(caseDetail)
+      setAssignee(caseDetail?.amlCase.assignee || '')
+      setNoteText('')
+    } catch (error) {
+      console.error('Error loading AML case:', error)
+    }
+  }
+
+  const updateCase = async (changes: { status?: AmlCaseStatus; assignee?: string }) => {
+    if (!detail) return
+    try {
+      await AmlCaseService.updateCase(detail.amlCase.id, changes)
+      await Promise.all([openCase(detail.amlCase.id), loadData()])
+    } catch (error) {
+      console.error('Error updating AML case:', error)
+    }
+  }
+
+  const addNote = async () => {
+    if (!detail || !noteText.trim()) return
+    try {
+      const user = await db.currentUser()
+      await AmlCaseService.addNote(detail.amlCase.id, noteText.trim(), user.displayName || user.email)
+      await openCase(detail.amlCase.id)
+    } catch (error) {
+      console.error('Error adding case note:', error)
+    }
+  }
+
+  const exportSar = () => {
+    if (!detail) return
+    const report = AmlCaseService.buildSarReport(detail)
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `sar_${detail.amlCase.id}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const filteredCases = useMemo(() => cases.filter(c => {
+    if (statusFilter === 'all') return true
+    if (statusFilter === 'active') return c.status !== 'closed' && c.status !== 'sar_filed'
+    return c.status === statusFilter
+  }), [cases, statusFilter])
+
+  const getSeverityColor = (severity: string) => {
+    switch (severity) {
+      case 'high': return 'bg-red-100 text-red-800'
+      case 'medium': return 'bg-yellow-100 text-yellow-800'
+      default: return 'bg-blue-100 text-blue-800'
+    }
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'open': return 'bg-blue-100 text-blue-800'
+      case 'investigating': return 'bg-purple-100 text-purple-800'
+      case 'escalated': return 'bg-orange-100 text-orange-800'
+      case 'sar_filed': return 'bg-red-100 text-red-800'
+      default: return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  const activeCases = cases.filter(c => c.status !== 'closed' && c.status !== 'sar_filed')
+
+  if (loading) {
+    return (
+      <div className="flex-1 space-y-4 p-8 pt-6">
+        <div className="flex items-center justify-between space-y-2">
+          <h2 className="text-3xl font-bold tracking-tight">AML Monitoring</h2>
+        </div>
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <div className="h-4 bg-gray-200 rounded w-32 animate-pulse mb-2"></div>
+                <div className="h-8 bg-gray-200 rounded w-16 animate-pulse"></div>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 space-y-4 p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">AML Monitoring</h2>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={loadData}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button onClick={runMonitoring} disabled={scanning}>
+            {scanning ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ScanSearch className="mr-2 h-4 w-4" />
+            )}
+            {scanning ? 'Monitoring...' : 'Run Monitoring'}
+          </Button>
+        </div>
+      </div>
+
+      {scanning && scanProgress && (
+        <div className="space-y-1">
+          <Progress value={scanProgress.total > 0 ? (scanProgress.loaded / scanProgress.total) * 100 : 0} />
+          <p className="text-xs text-muted-foreground">
+            Loaded {scanProgress.loaded.toLocaleString()} of {scanProgress.total.toLocaleString()} transactions
+          </p>
+        </div>
+      )}
+
+      {lastScan && (
+        <p className="text-sm text-muted-foreground">
+          Scanned {lastScan.transactionsScanned.toLocaleString()} transactions across {lastScan.customersScanned.toLocaleString()} customers; {lastScan.alertsRaised} new alerts, {lastScan.alertsUpdated} updated, {lastScan.casesOpened} new cases.
+        </p>
+      )}
+
+      {/* Case Overview */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Active Cases</CardTitle>
+            <Briefcase className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{activeCases.length}</div>
+            <p className="text-xs text-muted-foreground">{cases.length} total</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">High Priority</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-red-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">
+              {activeCases.filter(c => c.priority === 'high').length}
+            </div>
+            <p className="text-xs text-muted-foreground">Active cases</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Open Alerts</CardTitle>
+            <ShieldAlert className="h-4 w-4 text-orange-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {activeCases.reduce((sum, c) => sum + (c.alertCount || 0), 0)}
+            </div>
+            <p className="text-xs text-muted-foreground">Across active cases</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">SARs Filed</CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{cases.filter(c => c.status === 'sar_filed').length}</div>
+            <p className="text-xs text-muted-foreground">All time</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Rule Configuration */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle>Monitoring Rules</CardTitle>
+              <CardDescription>Thresholds apply to the next monitoring run</CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => AmlMonitor.saveRules(rules)}>
+              <Save className="mr-2 h-4 w-4" />
+              Save Rules
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          {rules.map(rule => (
+            <div key={rule.id} className="p-4 border rounded-lg space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h4 className="font-semibold">{rule.name}</h4>
+                  <p className="text-sm text-muted-foreground">{rule.description}</p>
+                </div>
+                <Switch checked={rule.enabled} onCheckedChange={enabled => updateRule(rule.id, { enabled })} />
+              </div>
+              <div className="grid gap-3 grid-cols-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Severity</Label>
+                  <Select value={rule.severity} onValueChange={value => updateRule(rule.id, { severity: value as AmlSeverity })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {rule.parameters.map(parameter => (
+                  <div key={parameter.key} className="space-y-1">
+                    <Label className="text-xs">{parameter.label}</Label>
+                    <Input
+                      type="number"
+                      value={parameter.value}
+                      disabled={!rule.enabled}
+                      onChange={e => updateParameter(rule.id, parameter.key, Number(e.target.value) || 0)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Cases */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle>Investigation Cases</CardTitle>
+              <CardDescription>Alerts roll up into one open case per customer</CardDescription>
+            </div>
+            <Select value={statusFilter} onValueChange={value => setStatusFilter(value as typeof statusFilter)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+                {AML_CASE_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredCases.length === 0 ? (
+            <div className="text-center py-8">
+              <ShieldAlert className="mx-auto h-8 w-8 text-gray-400 mb-2" />
+              <p className="text-muted-foreground">No cases — run monitoring to evaluate transactions</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Case</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Assignee</TableHead>
+                  <TableHead className="text-right">Alerts</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Opened</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredCases.map(amlCase => (
+                  <TableRow key={amlCase.id}>
+                    <TableCell className="font-medium">
+                      {customerNames.get(amlCase.customerId) || 'Unknown Customer'}
+                    </TableCell>
+                    <TableCell>{amlCase.title}</TableCell>
+                    <TableCell>
+                      <Badge className={getSeverityColor(amlCase.priority)}>{amlCase.priority}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={getStatusColor(amlCase.status)}>
+                        {STATUS_LABELS[amlCase.status as AmlCaseStatus] || amlCase.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{amlCase.assignee || '—'}</TableCell>
+                    <TableCell className="text-right">{amlCase.alertCount}</TableCell>
+                    <TableCell className="text-right">${Math.round(amlCase.totalAmount || 0).toLocaleString()}</TableCell>
+                    <TableCell>{new Date(amlCase.openedAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => openCase(amlCase.id)}>
+                        <Eye className="h-4 w-4 mr-1" />
+                        Open
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Case Detail */}
+      <Dialog open={detail !== null} onOpenChange={open => { if (!open) setDetail(null) }}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          {detail && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{detail.amlCase.title}</DialogTitle>
+                <DialogDescription>
+                  {detail.customer ? `${detail.customer.firstName} ${detail.customer.lastName} · ${detail.customer.customerNumber}` : 'Unknown Customer'} · opened {new Date(detail.amlCase.openedAt).toLocaleDateString()}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-6">
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Status</Label>
+                    <Select
+                      value={detail.amlCase.status}
+                      onValueChange={value => updateCase({ status: value as AmlCaseStatus })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {AML_CASE_STATUSES.map(status => (
+                          <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Assignee</Label>
+                    <div className="flex space-x-2">
+                      <Input value={assignee} onChange={e => setAssignee(e.target.value)} placeholder="Analyst" />
+                      <Button
+                        variant="outline"
+                        onClick={() => updateCase({ assignee: assignee.trim() })}
+                        disabled={assignee.trim() === (detail.amlCase.assignee || '')}
+                      >
+                        Assign
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">SAR</Label>
+                    <Button variant="outline" className="w-full" onClick={exportSar}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Export SAR
+                    </Button>
+                  </div>
+                </div>
+
+                <div>
+                  <h4 className="font-semibold mb-2">Alerts</h4>
+                  <div className="space-y-2">
+                    {detail.alerts.map(alert => (
+                      <div key={alert.id} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div>
+                          <p className="font-medium text-sm">{alert.ruleName}</p>
+                          <p className="text-sm text-muted-foreground">{alert.description}</p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <Badge className={getSeverityColor(alert.severity)}>{alert.severity}</Badge>
+                          <Badge variant="outline">{alert.status}</Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <h4 className="font-semibold mb-2">Transactions</h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Channel</TableHead>
+                        <TableHead>Location</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {detail.transactions.map(t => (
+                        <TableRow key={t.id}>
+                          <TableCell>{new Date(t.transactionDate).toLocaleString()}</TableCell>
+                          <TableCell className="capitalize">{t.transactionType}</TableCell>
+                          <TableCell className="capitalize">{t.channel}</TableCell>
+                          <TableCell>{t.location}</TableCell>
+                          <TableCell className="text-right">${t.amount.toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div>
+                  <h4 className="font-semibold mb-2">Investigation Notes</h4>
+                  <div className="space-y-2 mb-3">
+                    {detail.notes.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No notes yet</p>
+                    ) : detail.notes.map((note, index) => (
+                      <div key={index} className="p-3 bg-gray-50 rounded-lg">
+                        <p className="text-sm">{note.text}</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {note.author} · {new Date(note.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                  <Textarea
+                    value={noteText}
+                    onChange={e => setNoteText(e.target.value)}
+                    placeholder="Findings, contact with the customer, rationale for the decision..."
+                  />
+                  <div className="flex justify-end mt-2">
+                    <Button onClick={addNote} disabled={!noteText.trim()}>Add Note</Button>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
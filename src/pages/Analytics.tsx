@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
+import { Progress } from '../components/ui/progress'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
 import { 
   BarChart, 
@@ -28,64 +29,61 @@ import {
   Calendar,
   Filter
 } from 'lucide-react'
-import { blink } from '../blink/client'
+import type { LoadProgress } from '../data'
+import { AnalyticsEngine } from '../services/analyticsEngine'
+import type { AnalyticsData, KpiDelta, TimeRange } from '../services/analyticsEngine'
 
-const mockTransactionData = [
-  { month: 'Jan', transactions: 2400, volume: 1200000, customers: 180 },
-  { month: 'Feb', transactions: 1398, volume: 980000, customers: 165 },
-  { month: 'Mar', transactions: 9800, volume: 2100000, customers: 220 },
-  { month: 'Apr', transactions: 3908, volume: 1800000, customers: 195 },
-  { month: 'May', transactions: 4800, volume: 2400000, customers: 240 },
-  { month: 'Jun', transactions: 3800, volume: 2200000, customers: 210 },
-]
+const PERIOD_NAMES = { day: 'Daily', week: 'Weekly', month: 'Monthly' }
 
-const mockChannelData = [
-  { name: 'Online Banking', value: 45, color: '#3B82F6' },
-  { name: 'Mobile App', value: 35, color: '#10B981' },
-  { name: 'ATM', value: 15, color: '#F59E0B' },
-  { name: 'Branch', value: 5, color: '#EF4444' },
-]
-
-const mockCustomerBehavior = [
-  { segment: 'High Value', avgTransactions: 25, avgBalance: 75000, satisfaction: 4.8 },
-  { segment: 'Young Professionals', avgTransactions: 18, avgBalance: 35000, satisfaction: 4.2 },
-  { segment: 'Digital Natives', avgTransactions: 22, avgBalance: 28000, satisfaction: 4.5 },
-  { segment: 'Premium Savers', avgTransactions: 12, avgBalance: 85000, satisfaction: 4.6 },
-  { segment: 'Standard', avgTransactions: 8, avgBalance: 15000, satisfaction: 3.9 },
-]
-
-const mockRiskAnalysis = [
-  { riskLevel: 'Low', count: 450, percentage: 75 },
-  { riskLevel: 'Medium', count: 120, percentage: 20 },
-  { riskLevel: 'High', count: 30, percentage: 5 },
-]
+function DeltaLabel({ delta }: { delta: KpiDelta }) {
+  if (delta.change === null) {
+    return <p className="text-xs text-muted-foreground">No data for the previous period</p>
+  }
+  return (
+    <p className="text-xs text-muted-foreground">
+      <span className={delta.change < 0 ? 'text-red-600' : 'text-green-600'}>
+        {delta.change > 0 ? '+' : ''}{delta.change}%
+      </span> from last period
+    </p>
+  )
+}
 
 export function Analytics() {
-  const [customers, setCustomers] = useState([])
+  const [data, setData] = useState<AnalyticsData | null>(null)
   const [loading, setLoading] = useState(true)
-  const [timeRange, setTimeRange] = useState('6m')
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null)
+  const [timeRange, setTimeRange] = useState<TimeRange>('6m')
 
   useEffect(() => {
-    loadAnalyticsData()
-  }, [])
+    loadAnalyticsData(timeRange)
+  }, [timeRange])
 
-  const loadAnalyticsData = async () => {
+  const loadAnalyticsData = async (range: TimeRange) => {
     try {
-      const customerData = await blink.db.customers.list({ limit: 1000 })
-      setCustomers(customerData)
+      setLoading(true)
+      setData(await AnalyticsEngine.load(range, setLoadProgress))
     } catch (error) {
       console.error('Error loading analytics data:', error)
     } finally {
       setLoading(false)
+      setLoadProgress(null)
     }
   }
 
-  if (loading) {
+  if (loading || !data) {
     return (
       <div className="flex-1 space-y-4 p-8 pt-6">
         <div className="flex items-center justify-between space-y-2">
           <h2 className="text-3xl font-bold tracking-tight">Analytics</h2>
         </div>
+        {loadProgress && loadProgress.total > 0 && (
+          <div className="space-y-1">
+            <Progress value={(loadProgress.loaded / loadProgress.total) * 100} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              Loaded {loadProgress.loaded.toLocaleString()} of {loadProgress.total.toLocaleString()} transactions
+            </p>
+          </div>
+        )}
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
           {[...Array(4)].map((_, i) => (
             <Card key={i}>
@@ -100,12 +98,15 @@ export function Analytics() {
     )
   }
 
+  const { kpis, trend, channels, segments, risk, riskTrend } = data
+  const periodName = PERIOD_NAMES[data.window.granularity]
+
   return (
     <div className="flex-1 space-y-4 p-8 pt-6">
       <div className="flex items-center justify-between space-y-2">
         <h2 className="text-3xl font-bold tracking-tight">Analytics</h2>
         <div className="flex items-center space-x-2">
-          <Select value={timeRange} onValueChange={setTimeRange}>
+          <Select value={timeRange} onValueChange={value => setTimeRange(value as TimeRange)}>
             <SelectTrigger className="w-32">
               <SelectValue />
             </SelectTrigger>
@@ -127,10 +128,8 @@ export function Analytics() {
             <Activity className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">24,106</div>
-            <p className="text-xs text-muted-foreground">
-              <span className="text-green-600">+12.5%</span> from last period
-            </p>
+            <div className="text-2xl font-bold">{kpis.transactions.current.toLocaleString()}</div>
+            <DeltaLabel delta={kpis.transactions} />
           </CardContent>
         </Card>
 
@@ -140,10 +139,12 @@ export function Analytics() {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">$12.3M</div>
-            <p className="text-xs text-muted-foreground">
-              <span className="text-green-600">+8.2%</span> from last period
-            </p>
+            <div className="text-2xl font-bold">
+              ${kpis.volume.current >= 1000000
+                ? `${(kpis.volume.current / 1000000).toFixed(1)}M`
+                : Math.round(kpis.volume.current).toLocaleString()}
+            </div>
+            <DeltaLabel delta={kpis.volume} />
           </CardContent>
         </Card>
 
@@ -153,10 +154,8 @@ export function Analytics() {
             <Users className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{customers.length.toLocaleString()}</div>
-            <p className="text-xs text-muted-foreground">
-              <span className="text-green-600">+5.1%</span> from last period
-            </p>
+            <div className="text-2xl font-bold">{kpis.activeCustomers.current.toLocaleString()}</div>
+            <DeltaLabel delta={kpis.activeCustomers} />
           </CardContent>
         </Card>
 
@@ -166,10 +165,8 @@ export function Analytics() {
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">$510</div>
-            <p className="text-xs text-muted-foreground">
-              <span className="text-red-600">-2.1%</span> from last period
-            </p>
+            <div className="text-2xl font-bold">${Math.round(kpis.avgTransactionValue.current).toLocaleString()}</div>
+            <DeltaLabel delta={kpis.avgTransactionValue} />
           </CardContent>
         </Card>
       </div>
@@ -187,13 +184,13 @@ export function Analytics() {
             <Card>
               <CardHeader>
                 <CardTitle>Transaction Trends</CardTitle>
-                <CardDescription>Monthly transaction volume and count</CardDescription>
+                <CardDescription>{periodName} transaction count</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
-                  <AreaChart data={mockTransactionData}>
+                  <AreaChart data={trend}>
                     <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="month" />
+                    <XAxis dataKey="period" />
                     <YAxis />
                     <Tooltip formatter={(value, name) => [
                       name === 'transactions' ? value.toLocaleString() : `$${(value as number).toLocaleString()}`,
@@ -208,13 +205,13 @@ export function Analytics() {
             <Card>
               <CardHeader>
                 <CardTitle>Transaction Volume</CardTitle>
-                <CardDescription>Monthly transaction value trends</CardDescription>
+                <CardDescription>{periodName} transaction value</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
-                  <LineChart data={mockTransactionData}>
+                  <LineChart data={trend}>
                     <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="month" />
+                    <XAxis dataKey="period" />
                     <YAxis />
                     <Tooltip formatter={(value) => [`$${(value as number).toLocaleString()}`, 'Volume']} />
                     <Line type="monotone" dataKey="volume" stroke="#10B981" strokeWidth={3} />
@@ -227,13 +224,13 @@ export function Analytics() {
           <Card>
             <CardHeader>
               <CardTitle>Customer Activity</CardTitle>
-              <CardDescription>Active customers by month</CardDescription>
+              <CardDescription>{periodName} distinct customers transacting</CardDescription>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
-                <BarChart data={mockTransactionData}>
+                <BarChart data={trend}>
                   <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis dataKey="month" />
+                  <XAxis dataKey="period" />
                   <YAxis />
                   <Tooltip formatter={(value) => [value, 'Active Customers']} />
                   <Bar dataKey="customers" fill="#8B5CF6" />
@@ -252,7 +249,7 @@ export function Analytics() {
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
-                  <BarChart data={mockCustomerBehavior} layout="horizontal">
+                  <BarChart data={segments} layout="vertical">
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis type="number" />
                     <YAxis dataKey="segment" type="category" width={100} />
@@ -270,7 +267,7 @@ export function Analytics() {
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
-                  <ScatterChart data={mockCustomerBehavior}>
+                  <ScatterChart data={segments}>
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="avgBalance" name="Balance" />
                     <YAxis dataKey="avgTransactions" name="Transactions" />
@@ -289,18 +286,20 @@ export function Analytics() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {mockCustomerBehavior.map((segment, index) => (
+                {segments.map((segment, index) => (
                   <div key={index} className="flex items-center justify-between">
                     <div className="flex items-center space-x-4">
                       <div className="w-24 text-sm font-medium">{segment.segment}</div>
                       <div className="flex-1 bg-gray-200 rounded-full h-2 w-32">
                         <div 
                           className="bg-blue-600 h-2 rounded-full" 
-                          style={{ width: `${(segment.satisfaction / 5) * 100}%` }}
+                          style={{ width: `${((segment.satisfaction ?? 0) / 5) * 100}%` }}
                         ></div>
                       </div>
                     </div>
-                    <div className="text-sm font-medium">{segment.satisfaction}/5.0</div>
+                    <div className="text-sm font-medium">
+                      {segment.satisfaction !== null ? `${segment.satisfaction}/5.0` : 'No scores'}
+                    </div>
                   </div>
                 ))}
               </div>
@@ -319,15 +318,15 @@ export function Analytics() {
                 <ResponsiveContainer width="100%" height={300}>
                   <PieChart>
                     <Pie
-                      data={mockChannelData}
+                      data={channels}
                       cx="50%"
                       cy="50%"
                       innerRadius={60}
                       outerRadius={100}
                       paddingAngle={5}
-                      dataKey="value"
+                      dataKey="share"
                     >
-                      {mockChannelData.map((entry, index) => (
+                      {channels.map((entry, index) => (
                         <Cell key={`cell-${index}`} fill={entry.color} />
                       ))}
                     </Pie>
@@ -335,7 +334,7 @@ export function Analytics() {
                   </PieChart>
                 </ResponsiveContainer>
                 <div className="mt-4 space-y-2">
-                  {mockChannelData.map((channel, index) => (
+                  {channels.map((channel, index) => (
                     <div key={index} className="flex items-center justify-between">
                       <div className="flex items-center">
                         <div 
@@ -344,7 +343,7 @@ export function Analytics() {
                         />
                         <span className="text-sm">{channel.name}</span>
                       </div>
-                      <span className="text-sm font-medium">{channel.value}%</span>
+                      <span className="text-sm font-medium">{channel.share}%</span>
                     </div>
                   ))}
                 </div>
@@ -358,14 +357,9 @@ export function Analytics() {
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
-                  <BarChart data={[
-                    { channel: 'Online', avgValue: 650, transactions: 1200 },
-                    { channel: 'Mobile', avgValue: 420, transactions: 980 },
-                    { channel: 'ATM', avgValue: 180, transactions: 450 },
-                    { channel: 'Branch', avgValue: 1200, transactions: 120 },
-                  ]}>
+                  <BarChart data={channels}>
                     <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="channel" />
+                    <XAxis dataKey="name" />
                     <YAxis />
                     <Tooltip formatter={(value) => [`$${value}`, 'Avg Value']} />
                     <Bar dataKey="avgValue" fill="#F59E0B" />
@@ -387,7 +381,7 @@ export function Analytics() {
                 <ResponsiveContainer width="100%" height={300}>
                   <PieChart>
                     <Pie
-                      data={mockRiskAnalysis}
+                      data={risk}
                       cx="50%"
                       cy="50%"
                       innerRadius={60}
@@ -406,7 +400,7 @@ export function Analytics() {
                   </PieChart>
                 </ResponsiveContainer>
                 <div className="mt-4 space-y-2">
-                  {mockRiskAnalysis.map((risk, index) => (
+                  {risk.map((risk, index) => (
                     <div key={index} className="flex items-center justify-between">
                       <div className="flex items-center">
                         <div 
@@ -427,20 +421,13 @@ export function Analytics() {
             <Card>
               <CardHeader>
                 <CardTitle>Risk Trends</CardTitle>
-                <CardDescription>Risk level changes over time</CardDescription>
+                <CardDescription>{periodName} risk assessments by level</CardDescription>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={300}>
-                  <LineChart data={[
-                    { month: 'Jan', low: 420, medium: 110, high: 35 },
-                    { month: 'Feb', low: 435, medium: 105, high: 32 },
-                    { month: 'Mar', low: 445, medium: 115, high: 28 },
-                    { month: 'Apr', low: 450, medium: 120, high: 30 },
-                    { month: 'May', low: 448, medium: 118, high: 32 },
-                    { month: 'Jun', low: 450, medium: 120, high: 30 },
-                  ]}>
+                  <LineChart data={riskTrend}>
                     <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="month" />
+                    <XAxis dataKey="period" />
                     <YAxis />
                     <Tooltip />
                     <Line type="monotone" dataKey="low" stroke="#10B981" name="Low Risk" />
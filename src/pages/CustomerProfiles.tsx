@@ -7,6 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '../components/ui/dialog'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { Progress } from '../components/ui/progress'
+import { Alert, AlertDescription, AlertTitle } from '../components/ui/alert'
 import { 
   Search, 
   Filter, 
@@ -15,6 +16,7 @@ import {
   CreditCard, 
   AlertTriangle,
   TrendingUp,
+  TrendingDown,
   Phone,
   Mail,
   MapPin,
@@ -27,9 +29,15 @@ import {
   Download,
   Plus
 } from 'lucide-react'
-import { blink } from '../blink/client'
+import { AIValidationError } from '../ai'
+import { db } from '../data'
 import { DataSeeder } from '../services/dataSeeder'
 import { MLEngine } from '../services/mlEngine'
+import { SegmentCriteriaEngine } from '../services/segmentCriteria'
+import { ChurnModel } from '../services/churnModel'
+import type { ChurnPrediction } from '../services/churnModel'
+import { CustomerTimeline } from '../components/customers/CustomerTimeline'
+import { CashFlowAnalysis } from '../components/customers/CashFlowAnalysis'
 
 interface Customer {
   id: string
@@ -60,6 +68,7 @@ interface CustomerInsight {
   confidence: number
   recommendation: string
   potentialRevenue?: number
+  promptVersion?: string
 }
 
 export function CustomerProfiles() {
@@ -72,10 +81,15 @@ export function CustomerProfiles() {
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
   const [customerInsights, setCustomerInsights] = useState<CustomerInsight[]>([])
   const [insightsLoading, setInsightsLoading] = useState(false)
+  const [insightsError, setInsightsError] = useState<string | null>(null)
   const [seeding, setSeeding] = useState(false)
+  const [churnPredictions, setChurnPredictions] = useState<Map<string, ChurnPrediction>>(new Map())
+  const [churnTrainedAt, setChurnTrainedAt] = useState<string | null>(null)
+  const [retrainingChurn, setRetrainingChurn] = useState(false)
 
   useEffect(() => {
     loadCustomers()
+    loadChurnPredictions()
   }, [])
 
   useEffect(() => {
@@ -84,7 +98,7 @@ export function CustomerProfiles() {
 
   const loadCustomers = async () => {
     try {
-      const customerData = await blink.db.customers.list({
+      const customerData = await db.customers.list({
         orderBy: { createdAt: 'desc' },
         limit: 500
       })
@@ -96,6 +110,31 @@ export function CustomerProfiles() {
     }
   }
 
+  // Stored predictions only; training happens on a schedule or from the Retrain button
+  const loadChurnPredictions = async () => {
+    try {
+      const scoring = await ChurnModel.loadLatest()
+      setChurnPredictions(scoring?.predictions || new Map())
+      setChurnTrainedAt(scoring?.model.trainedAt || null)
+    } catch (error) {
+      console.error('Error loading churn predictions:', error)
+    }
+  }
+
+  const retrainChurnModel = async () => {
+    try {
+      setRetrainingChurn(true)
+      const user = await db.currentUser()
+      const scoring = await ChurnModel.retrain(user)
+      setChurnPredictions(scoring.predictions)
+      setChurnTrainedAt(scoring.model.trainedAt)
+    } catch (error) {
+      console.error('Error retraining churn model:', error)
+    } finally {
+      setRetrainingChurn(false)
+    }
+  }
+
   const filterCustomers = () => {
     let filtered = customers
 
@@ -141,10 +180,12 @@ export function CustomerProfiles() {
   const seedSampleData = async () => {
     try {
       setSeeding(true)
-      const user = await blink.auth.me()
+      const user = await db.currentUser()
       await DataSeeder.seedCustomerData(user.id, 50)
       await DataSeeder.seedCustomerSegments(user.id)
+      await SegmentCriteriaEngine.refreshAllSegments(user.id)
       await loadCustomers()
+      retrainChurnModel()
     } catch (error) {
       console.error('Error seeding data:', error)
     } finally {
@@ -155,9 +196,10 @@ export function CustomerProfiles() {
   const generateCustomerInsights = async (customer: Customer) => {
     try {
       setInsightsLoading(true)
+      setInsightsError(null)
       
       // Load customer transactions for context
-      const transactions = await blink.db.transactions.list({
+      const transactions = await db.transactions.list({
         where: { customerId: customer.id },
         orderBy: { transactionDate: 'desc' },
         limit: 20
@@ -181,6 +223,10 @@ export function CustomerProfiles() {
       setCustomerInsights(insights)
     } catch (error) {
       console.error('Error generating insights:', error)
+      setCustomerInsights([])
+      setInsightsError(error instanceof AIValidationError
+        ? `The AI response failed validation after ${error.attempts} attempts: ${error.errors.slice(0, 3).join('; ')}`
+        : error instanceof Error ? error.message : 'Insight generation failed')
     } finally {
       setInsightsLoading(false)
     }
@@ -192,6 +238,12 @@ export function CustomerProfiles() {
     return { level: 'High', color: 'bg-red-500', textColor: 'text-red-700' }
   }
 
+  const getChurnColor = (prediction: ChurnPrediction) => {
+    if (prediction.riskLevel === 'high') return 'text-red-700'
+    if (prediction.riskLevel === 'medium') return 'text-yellow-700'
+    return 'text-green-700'
+  }
+
   const getStatusBadge = (customer: Customer) => {
     if (!customer.isActive) return <Badge variant="secondary">Inactive</Badge>
     if (customer.kycStatus === 'pending') return <Badge variant="outline">KYC Pending</Badge>
@@ -233,6 +285,15 @@ export function CustomerProfiles() {
             <RefreshCw className="mr-2 h-4 w-4" />
             Refresh
           </Button>
+          <Button
+            variant="outline"
+            onClick={retrainChurnModel}
+            disabled={retrainingChurn}
+            title={churnTrainedAt ? `Churn model trained ${new Date(churnTrainedAt).toLocaleString()}` : 'No churn model trained yet'}
+          >
+            <Brain className={`mr-2 h-4 w-4 ${retrainingChurn ? 'animate-pulse' : ''}`} />
+            {retrainingChurn ? 'Retraining...' : 'Retrain Churn Model'}
+          </Button>
           <Button variant="outline">
             <Download className="mr-2 h-4 w-4" />
             Export
@@ -361,6 +422,7 @@ export function CustomerProfiles() {
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {filteredCustomers.map((customer) => {
             const risk = getRiskLevel(customer.riskScore)
+            const churn = churnPredictions.get(customer.id)
             return (
               <Dialog key={customer.id}>
                 <DialogTrigger asChild>
@@ -395,6 +457,14 @@ export function CustomerProfiles() {
                             <span className={`text-sm font-medium ${risk.textColor}`}>{risk.level}</span>
                           </div>
                         </div>
+                        {churn && (
+                          <div className="flex justify-between items-center">
+                            <span className="text-sm text-muted-foreground">Churn Risk</span>
+                            <span className={`text-sm font-medium ${getChurnColor(churn)}`}>
+                              {Math.round(churn.probability * 100)}%
+                            </span>
+                          </div>
+                        )}
                         <div className="flex justify-between items-center">
                           <span className="text-sm text-muted-foreground">CLV</span>
                           <span className="font-semibold">${customer.customerLifetimeValue.toLocaleString()}</span>
@@ -562,6 +632,47 @@ export function CustomerProfiles() {
                           </div>
                         </CardContent>
                       </Card>
+
+                      {churn && (
+                        <Card>
+                          <CardHeader>
+                            <CardTitle className="text-lg flex items-center">
+                              <TrendingDown className="mr-2 h-5 w-5" />
+                              Churn Prediction
+                            </CardTitle>
+                          </CardHeader>
+                          <CardContent>
+                            <div className="space-y-4">
+                              <div className="flex items-center justify-between">
+                                <span>Churn Probability</span>
+                                <div className="flex items-center space-x-2">
+                                  <Progress value={churn.probability * 100} className="w-32" />
+                                  <span className="font-medium">{Math.round(churn.probability * 100)}%</span>
+                                </div>
+                              </div>
+                              <div className="flex items-center justify-between">
+                                <span>Churn Risk</span>
+                                <Badge variant={churn.riskLevel === 'high' ? 'destructive' : churn.riskLevel === 'medium' ? 'default' : 'secondary'}>
+                                  {churn.riskLevel}
+                                </Badge>
+                              </div>
+                              {churn.drivers.length > 0 && (
+                                <div className="space-y-2">
+                                  <p className="text-sm font-medium">Top drivers</p>
+                                  {churn.drivers.map(driver => (
+                                    <div key={driver.feature} className="flex items-center justify-between text-sm">
+                                      <span className="text-muted-foreground">{driver.label}</span>
+                                      <span className="font-medium">{Number(driver.value.toFixed(2)).toLocaleString()}</span>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          </CardContent>
+                        </Card>
+                      )}
+
+                      <CashFlowAnalysis customerId={customer.id} />
                     </TabsContent>
 
                     <TabsContent value="insights" className="space-y-4">
@@ -583,6 +694,14 @@ export function CustomerProfiles() {
                         </Button>
                       </div>
 
+                      {insightsError && (
+                        <Alert variant="destructive">
+                          <AlertTriangle className="h-4 w-4" />
+                          <AlertTitle>Could not generate insights</AlertTitle>
+                          <AlertDescription>{insightsError}</AlertDescription>
+                        </Alert>
+                      )}
+
                       {customerInsights.length > 0 ? (
                         <div className="space-y-4">
                           {customerInsights.map((insight, index) => (
@@ -618,6 +737,9 @@ export function CustomerProfiles() {
                                       <strong>Potential Revenue:</strong> ${insight.potentialRevenue.toLocaleString()}
                                     </div>
                                   )}
+                                  {insight.promptVersion && (
+                                    <div className="text-xs text-muted-foreground font-mono">{insight.promptVersion}</div>
+                                  )}
                                 </div>
                               </CardContent>
                             </Card>
@@ -636,8 +758,8 @@ export function CustomerProfiles() {
                     <TabsContent value="activity" className="space-y-4">
                       <Card>
                         <CardHeader>
-                          <CardTitle>Recent Activity</CardTitle>
-                          <CardDescription>Transaction history and account activity</CardDescription>
+                          <CardTitle>Activity Timeline</CardTitle>
+                          <CardDescription>Transactions, interactions, risk assessments, segment changes and AI insights</CardDescription>
                         </CardHeader>
                         <CardContent>
                           <div className="space-y-4">
@@ -664,9 +786,7 @@ export function CustomerProfiles() {
                                 </div>
                               </div>
                             </div>
-                            <div className="text-center py-4 text-muted-foreground">
-                              <p>Detailed transaction history would appear here</p>
-                            </div>
+                            <CustomerTimeline customerId={customer.id} />
                           </div>
                         </CardContent>
                       </Card>
@@ -27,43 +27,18 @@ import {
   Activity,
   CreditCard,
   ArrowUpRight,
-  ArrowDownRight
+  ArrowDownRight,
+  ShieldCheck,
+  Smile
 } from 'lucide-react'
-import { blink } from '../blink/client'
+import type { LoadProgress } from '../data'
+import { DashboardAggregates } from '../services/dashboardAggregates'
+import type { DashboardData } from '../services/dashboardAggregates'
+import { ActivityFeed, formatRelativeTime } from '../services/activityFeed'
+import type { ActivityItem } from '../services/activityFeed'
 
-interface DashboardMetrics {
-  totalCustomers: number
-  totalBalance: number
-  avgBalance: number
-  highRiskCustomers: number
-  activeSegments: number
-  pendingInsights: number
-  monthlyGrowth: number
-  customerSatisfaction: number
-}
-
-const mockRecentActivity = [
-  { id: 1, type: 'new_customer', message: 'New high-value customer registered', time: '2 minutes ago', priority: 'high' },
-  { id: 2, type: 'risk_alert', message: 'Risk score increased for customer #1234', time: '15 minutes ago', priority: 'high' },
-  { id: 3, type: 'insight', message: 'AI identified cross-selling opportunity', time: '1 hour ago', priority: 'medium' },
-  { id: 4, type: 'segment', message: 'New segment "Digital Natives" created', time: '2 hours ago', priority: 'low' },
-]
-
-const mockSegmentPerformance = [
-  { name: 'High Value', customers: 145, revenue: 2400000, growth: 12.5 },
-  { name: 'Young Professionals', customers: 320, revenue: 1800000, growth: 8.2 },
-  { name: 'Digital Natives', customers: 280, revenue: 1200000, growth: 15.1 },
-  { name: 'Premium Savers', customers: 95, revenue: 1600000, growth: 5.8 },
-]
-
-const mockRiskDistribution = [
-  { name: 'Low Risk', value: 75, color: '#10B981' },
-  { name: 'Medium Risk', value: 20, color: '#F59E0B' },
-  { name: 'High Risk', value: 5, color: '#EF4444' },
-]
-
-export function Dashboard() {
-  const [metrics, setMetrics] = useState<DashboardMetrics>({
+const emptyDashboard: DashboardData = {
+  metrics: {
     totalCustomers: 0,
     totalBalance: 0,
     avgBalance: 0,
@@ -71,9 +46,59 @@ export function Dashboard() {
     activeSegments: 0,
     pendingInsights: 0,
     monthlyGrowth: 0,
-    customerSatisfaction: 0
-  })
+    assetGrowth: 0,
+    avgBalanceChange: 0,
+    fromSnapshots: false,
+    customerSatisfaction: null
+  },
+  segmentPerformance: [],
+  riskDistribution: [],
+  insightSummary: { opportunities: 0, riskAlerts: 0, highlights: [] },
+  history: []
+}
+
+function TrendLabel({ value }: { value: number }) {
+  const Arrow = value < 0 ? ArrowDownRight : ArrowUpRight
+  return (
+    <span className={`${value < 0 ? 'text-red-600' : 'text-green-600'} flex items-center`}>
+      <Arrow className="h-3 w-3 mr-1" />
+      {value > 0 ? '+' : ''}{value}%
+    </span>
+  )
+}
+
+const insightStyles: Record<string, { icon: typeof Brain; box: string; iconColor: string; title: string; badge: string; text: string }> = {
+  opportunity: {
+    icon: TrendingUp,
+    box: 'bg-green-50 border-green-200',
+    iconColor: 'text-green-600',
+    title: 'text-green-900',
+    badge: 'text-green-700 border-green-300',
+    text: 'text-green-800'
+  },
+  cross_sell: {
+    icon: Brain,
+    box: 'bg-blue-50 border-blue-200',
+    iconColor: 'text-blue-600',
+    title: 'text-blue-900',
+    badge: 'text-blue-700 border-blue-300',
+    text: 'text-blue-800'
+  },
+  risk_alert: {
+    icon: AlertTriangle,
+    box: 'bg-red-50 border-red-200',
+    iconColor: 'text-red-600',
+    title: 'text-red-900',
+    badge: 'text-red-700 border-red-300',
+    text: 'text-red-800'
+  }
+}
+
+export function Dashboard() {
+  const [dashboard, setDashboard] = useState<DashboardData>(emptyDashboard)
+  const [activity, setActivity] = useState<ActivityItem[]>([])
   const [loading, setLoading] = useState(true)
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null)
 
   useEffect(() => {
     loadDashboardData()
@@ -81,30 +106,17 @@ export function Dashboard() {
 
   const loadDashboardData = async () => {
     try {
-      const [customers, segments, insights] = await Promise.all([
-        blink.db.customers.list({ limit: 1000 }),
-        blink.db.customerSegments.list(),
-        blink.db.aiInsights.list({ where: { status: 'active' } })
+      const [data, recent] = await Promise.all([
+        DashboardAggregates.load(setLoadProgress),
+        ActivityFeed.recent()
       ])
-
-      const totalBalance = customers.reduce((sum, c) => sum + (c.accountBalance || 0), 0)
-      const avgBalance = customers.length > 0 ? totalBalance / customers.length : 0
-      const highRiskCustomers = customers.filter(c => (c.riskScore || 0) > 0.7).length
-
-      setMetrics({
-        totalCustomers: customers.length,
-        totalBalance,
-        avgBalance,
-        highRiskCustomers,
-        activeSegments: segments.length,
-        pendingInsights: insights.length,
-        monthlyGrowth: 8.5, // Mock data
-        customerSatisfaction: 4.2 // Mock data
-      })
+      setDashboard(data)
+      setActivity(recent)
     } catch (error) {
       console.error('Error loading dashboard data:', error)
     } finally {
       setLoading(false)
+      setLoadProgress(null)
     }
   }
 
@@ -118,6 +130,8 @@ export function Dashboard() {
         return <Brain className="h-4 w-4 text-purple-500" />
       case 'segment':
         return <Target className="h-4 w-4 text-blue-500" />
+      case 'compliance':
+        return <ShieldCheck className="h-4 w-4 text-orange-500" />
       default:
         return <Activity className="h-4 w-4 text-gray-500" />
     }
@@ -136,12 +150,29 @@ export function Dashboard() {
     }
   }
 
+  const { metrics, segmentPerformance, riskDistribution, insightSummary, history } = dashboard
+  const changeLabel = metrics.fromSnapshots ? 'from last month' : 'from last month (estimated)'
+  const trend = history.map(s => ({
+    day: new Date(s.day).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+    customers: s.customerCount,
+    assets: s.totalBalance,
+    highRisk: s.highRiskCount
+  }))
+
   if (loading) {
     return (
       <div className="flex-1 space-y-4 p-8 pt-6">
         <div className="flex items-center justify-between space-y-2">
           <h2 className="text-3xl font-bold tracking-tight">Dashboard</h2>
         </div>
+        {loadProgress && loadProgress.total > 0 && (
+          <div className="space-y-1">
+            <Progress value={(loadProgress.loaded / loadProgress.total) * 100} className="h-2" />
+            <p className="text-xs text-muted-foreground">
+              Loaded {loadProgress.loaded.toLocaleString()} of {loadProgress.total.toLocaleString()} customers
+            </p>
+          </div>
+        )}
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
           {[...Array(4)].map((_, i) => (
             <Card key={i}>
@@ -169,7 +200,7 @@ export function Dashboard() {
       </div>
 
       {/* Key Metrics */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Total Customers</CardTitle>
@@ -178,11 +209,8 @@ export function Dashboard() {
           <CardContent>
             <div className="text-2xl font-bold">{metrics.totalCustomers.toLocaleString()}</div>
             <p className="text-xs text-muted-foreground">
-              <span className="text-green-600 flex items-center">
-                <ArrowUpRight className="h-3 w-3 mr-1" />
-                +{metrics.monthlyGrowth}%
-              </span>
-              from last month
+              <TrendLabel value={metrics.monthlyGrowth} />
+              {changeLabel}
             </p>
           </CardContent>
         </Card>
@@ -195,11 +223,8 @@ export function Dashboard() {
           <CardContent>
             <div className="text-2xl font-bold">${(metrics.totalBalance / 1000000).toFixed(1)}M</div>
             <p className="text-xs text-muted-foreground">
-              <span className="text-green-600 flex items-center">
-                <ArrowUpRight className="h-3 w-3 mr-1" />
-                +12.3%
-              </span>
-              from last month
+              <TrendLabel value={metrics.assetGrowth} />
+              {changeLabel}
             </p>
           </CardContent>
         </Card>
@@ -210,13 +235,10 @@ export function Dashboard() {
             <CreditCard className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${metrics.avgBalance.toLocaleString()}</div>
+            <div className="text-2xl font-bold">${Math.round(metrics.avgBalance).toLocaleString()}</div>
             <p className="text-xs text-muted-foreground">
-              <span className="text-red-600 flex items-center">
-                <ArrowDownRight className="h-3 w-3 mr-1" />
-                -2.1%
-              </span>
-              from last month
+              <TrendLabel value={metrics.avgBalanceChange} />
+              {changeLabel}
             </p>
           </CardContent>
         </Card>
@@ -233,6 +255,21 @@ export function Dashboard() {
             </p>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Satisfaction</CardTitle>
+            <Smile className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {metrics.customerSatisfaction !== null ? `${metrics.customerSatisfaction.toFixed(1)} / 5` : '—'}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {metrics.customerSatisfaction !== null ? 'Average interaction score' : 'No scored interactions yet'}
+            </p>
+          </CardContent>
+        </Card>
       </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
@@ -243,8 +280,13 @@ export function Dashboard() {
             <CardDescription>Revenue and growth by customer segment</CardDescription>
           </CardHeader>
           <CardContent>
+            {segmentPerformance.length === 0 ? (
+              <div className="flex h-[300px] items-center justify-center text-sm text-muted-foreground">
+                No active segments yet. Run AI segmentation to see performance here.
+              </div>
+            ) : (
             <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={mockSegmentPerformance}>
+              <BarChart data={segmentPerformance}>
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="name" />
                 <YAxis />
@@ -257,6 +299,7 @@ export function Dashboard() {
                 <Bar dataKey="customers" fill="#3B82F6" />
               </BarChart>
             </ResponsiveContainer>
+            )}
           </CardContent>
         </Card>
 
@@ -270,7 +313,7 @@ export function Dashboard() {
             <ResponsiveContainer width="100%" height={200}>
               <PieChart>
                 <Pie
-                  data={mockRiskDistribution}
+                  data={riskDistribution}
                   cx="50%"
                   cy="50%"
                   innerRadius={40}
@@ -278,7 +321,7 @@ export function Dashboard() {
                   paddingAngle={5}
                   dataKey="value"
                 >
-                  {mockRiskDistribution.map((entry, index) => (
+                  {riskDistribution.map((entry, index) => (
                     <Cell key={`cell-${index}`} fill={entry.color} />
                   ))}
                 </Pie>
@@ -286,7 +329,7 @@ export function Dashboard() {
               </PieChart>
             </ResponsiveContainer>
             <div className="mt-4 space-y-2">
-              {mockRiskDistribution.map((risk, index) => (
+              {riskDistribution.map((risk, index) => (
                 <div key={index} className="flex items-center justify-between">
                   <div className="flex items-center">
                     <div 
@@ -295,7 +338,9 @@ export function Dashboard() {
                     />
                     <span className="text-sm">{risk.name}</span>
                   </div>
-                  <span className="text-sm font-medium">{risk.value}%</span>
+                  <span className="text-sm font-medium">
+                    {risk.value}% <span className="text-muted-foreground font-normal">({risk.count.toLocaleString()})</span>
+                  </span>
                 </div>
               ))}
             </div>
@@ -303,6 +348,39 @@ export function Dashboard() {
         </Card>
       </div>
 
+      {/* Portfolio Trend */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Portfolio Trend</CardTitle>
+          <CardDescription>Daily snapshots of customers, assets and high-risk customers</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {trend.length < 2 ? (
+            <div className="flex h-[250px] items-center justify-center text-sm text-muted-foreground">
+              Trends appear once snapshots from at least two days are stored. A snapshot is taken daily.
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height={250}>
+              <LineChart data={trend}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="day" />
+                <YAxis yAxisId="customers" />
+                <YAxis yAxisId="assets" orientation="right" tickFormatter={(value) => `$${(value / 1000000).toFixed(1)}M`} />
+                <Tooltip
+                  formatter={(value, name) => [
+                    name === 'Assets' ? `$${(value as number).toLocaleString()}` : (value as number).toLocaleString(),
+                    name
+                  ]}
+                />
+                <Line yAxisId="customers" type="monotone" dataKey="customers" name="Customers" stroke="#3B82F6" strokeWidth={2} />
+                <Line yAxisId="customers" type="monotone" dataKey="highRisk" name="High Risk" stroke="#EF4444" strokeWidth={2} />
+                <Line yAxisId="assets" type="monotone" dataKey="assets" name="Assets" stroke="#10B981" strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
         {/* AI Insights Summary */}
         <Card className="col-span-4">
@@ -318,48 +396,36 @@ export function Dashboard() {
                   <div className="text-sm text-muted-foreground">Active Insights</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-2xl font-bold text-green-600">12</div>
+                  <div className="text-2xl font-bold text-green-600">{insightSummary.opportunities}</div>
                   <div className="text-sm text-muted-foreground">Opportunities</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-2xl font-bold text-red-600">3</div>
+                  <div className="text-2xl font-bold text-red-600">{insightSummary.riskAlerts}</div>
                   <div className="text-sm text-muted-foreground">Risk Alerts</div>
                 </div>
               </div>
               
               <div className="space-y-3">
-                <div className="p-3 bg-green-50 rounded-lg border border-green-200">
-                  <div className="flex items-center space-x-2 mb-1">
-                    <TrendingUp className="h-4 w-4 text-green-600" />
-                    <span className="text-sm font-medium text-green-900">Revenue Opportunity</span>
-                    <Badge variant="outline" className="text-green-700 border-green-300">High Priority</Badge>
-                  </div>
-                  <p className="text-sm text-green-800">
-                    145 high-value customers eligible for premium investment products. Potential revenue: $2.4M annually.
+                {insightSummary.highlights.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No active insights. Generate AI insights to surface opportunities and risks.
                   </p>
-                </div>
-                
-                <div className="p-3 bg-blue-50 rounded-lg border border-blue-200">
-                  <div className="flex items-center space-x-2 mb-1">
-                    <Brain className="h-4 w-4 text-blue-600" />
-                    <span className="text-sm font-medium text-blue-900">Cross-sell Opportunity</span>
-                    <Badge variant="outline" className="text-blue-700 border-blue-300">Medium Priority</Badge>
-                  </div>
-                  <p className="text-sm text-blue-800">
-                    280 digital natives showing increased mobile usage. Perfect candidates for digital banking plus.
-                  </p>
-                </div>
-                
-                <div className="p-3 bg-red-50 rounded-lg border border-red-200">
-                  <div className="flex items-center space-x-2 mb-1">
-                    <AlertTriangle className="h-4 w-4 text-red-600" />
-                    <span className="text-sm font-medium text-red-900">Risk Alert</span>
-                    <Badge variant="outline" className="text-red-700 border-red-300">High Priority</Badge>
-                  </div>
-                  <p className="text-sm text-red-800">
-                    15 customers showing unusual transaction patterns. Requires immediate review for fraud prevention.
-                  </p>
-                </div>
+                ) : insightSummary.highlights.map(insight => {
+                  const style = insightStyles[insight.insightType] || insightStyles.cross_sell
+                  const Icon = style.icon
+                  return (
+                    <div key={insight.id} className={`p-3 rounded-lg border ${style.box}`}>
+                      <div className="flex items-center space-x-2 mb-1">
+                        <Icon className={`h-4 w-4 ${style.iconColor}`} />
+                        <span className={`text-sm font-medium ${style.title}`}>{insight.title}</span>
+                        <Badge variant="outline" className={`capitalize ${style.badge}`}>
+                          {insight.priority} Priority
+                        </Badge>
+                      </div>
+                      <p className={`text-sm ${style.text}`}>{insight.description}</p>
+                    </div>
+                  )
+                })}
               </div>
             </div>
           </CardContent>
@@ -373,13 +439,16 @@ export function Dashboard() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {mockRecentActivity.map((activity) => (
+              {activity.length === 0 && (
+                <p className="text-sm text-muted-foreground">No recent activity</p>
+              )}
+              {activity.map((activity) => (
                 <div key={activity.id} className="flex items-start space-x-3">
                   {getActivityIcon(activity.type)}
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium">{activity.message}</p>
                     <div className="flex items-center space-x-2 mt-1">
-                      <p className="text-xs text-muted-foreground">{activity.time}</p>
+                      <p className="text-xs text-muted-foreground">{formatRelativeTime(activity.timestamp)}</p>
                       <Badge variant={getPriorityColor(activity.priority)} className="text-xs">
                         {activity.priority}
                       </Badge>
@@ -0,0 +1,452 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
+import { Badge } from '../components/ui/badge'
+import { Button } from '../components/ui/button'
+import { Checkbox } from '../components/ui/checkbox'
+import { Input } from '../components/ui/input'
+import { Label } from '../components/ui/label'
+import { Textarea } from '../components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table'
+import {
+  CalendarClock,
+  CheckCircle,
+  ClipboardCheck,
+  Clock,
+  Eye,
+  History,
+  RefreshCw,
+  UserCheck,
+  XCircle
+} from 'lucide-react'
+import { db, loadAll } from '../data'
+import type { Customer, KycEvent } from '../data'
+import { KycService, KYC_CHECKS, KYC_STATUS_LABELS, RE_KYC_INTERVAL_MONTHS } from '../services/kycReview'
+import type { KycCheckId, KycStatus } from '../services/kycReview'
+
+type QueueFilter = 'open' | 'due' | KycStatus
+
+export function KycReview() {
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [loading, setLoading] = useState(true)
+  const [flagging, setFlagging] = useState(false)
+  const [filter, setFilter] = useState<QueueFilter>('open')
+  const [selected, setSelected] = useState<Customer | null>(null)
+  const [history, setHistory] = useState<KycEvent[]>([])
+  const [notes, setNotes] = useState<Partial<Record<KycCheckId, string>>>({})
+  const [reason, setReason] = useState('')
+  const [decisionError, setDecisionError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadCustomers()
+  }, [])
+
+  const loadCustomers = async () => {
+    try {
+      setCustomers(await loadAll(db.customers))
+    } catch (error) {
+      console.error('Error loading customers:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openReview = async (customer: Customer) => {
+    setSelected(customer)
+    setReason('')
+    setDecisionError(null)
+    const checklist = KycService.parseChecklist(customer.kycChecklist)
+    setNotes(Object.fromEntries(KYC_CHECKS.map(check => [check.id, checklist[check.id]?.note || ''])))
+    try {
+      setHistory(await KycService.getHistory(customer.id))
+    } catch (error) {
+      console.error('Error loading KYC history:', error)
+    }
+  }
+
+  const replaceCustomer = (updated: Customer) => {
+    setSelected(updated)
+    setCustomers(prev => prev.map(c => c.id === updated.id ? updated : c))
+  }
+
+  const toggleCheck = async (checkId: KycCheckId, checked: boolean) => {
+    if (!selected) return
+    try {
+      const user = await db.currentUser()
+      const updated = await KycService.saveChecklistItem(selected, checkId, { checked, note: notes[checkId] }, user.displayName || user.email)
+      replaceCustomer(updated)
+    } catch (error) {
+      console.error('Error saving KYC checklist:', error)
+    }
+  }
+
+  const decide = async (toStatus: KycStatus) => {
+    if (!selected) return
+    try {
+      const user = await db.currentUser()
+      const updated = await KycService.transition(selected, toStatus, reason, user.displayName || user.email, user)
+      replaceCustomer(updated)
+      setReason('')
+      setDecisionError(null)
+      setHistory(await KycService.getHistory(updated.id))
+    } catch (error) {
+      console.error('Error recording KYC decision:', error)
+      setDecisionError(error instanceof Error ? error.message : 'Decision could not be recorded')
+    }
+  }
+
+  const flagDueReviews = async () => {
+    try {
+      setFlagging(true)
+      await KycService.flagDueReviews(await db.currentUser())
+      await loadCustomers()
+    } catch (error) {
+      console.error('Error flagging re-KYC reviews:', error)
+    } finally {
+      setFlagging(false)
+    }
+  }
+
+  const dueCustomers = useMemo(() => customers.filter(c => KycService.isReviewDue(c)), [customers])
+
+  const filteredCustomers = useMemo(() => {
+    switch (filter) {
+      case 'open': return customers.filter(c => c.kycStatus === 'pending' || c.kycStatus === 'info_requested')
+      case 'due': return dueCustomers
+      default: return customers.filter(c => c.kycStatus === filter)
+    }
+  }, [customers, dueCustomers, filter])
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'approved': return 'bg-green-100 text-green-800'
+      case 'rejected': return 'bg-red-100 text-red-800'
+      case 'info_requested': return 'bg-blue-100 text-blue-800'
+      default: return 'bg-yellow-100 text-yellow-800'
+    }
+  }
+
+  const getTierColor = (tier: string) => {
+    switch (tier) {
+      case 'high': return 'bg-red-100 text-red-800'
+      case 'medium': return 'bg-yellow-100 text-yellow-800'
+      default: return 'bg-green-100 text-green-800'
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex-1 space-y-4 p-8 pt-6">
+        <div className="flex items-center justify-between space-y-2">
+          <h2 className="text-3xl font-bold tracking-tight">KYC Review</h2>
+        </div>
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <div className="h-4 bg-gray-200 rounded w-32 animate-pulse mb-2"></div>
+                <div className="h-8 bg-gray-200 rounded w-16 animate-pulse"></div>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  const selectedChecklist = selected ? KycService.parseChecklist(selected.kycChecklist) : {}
+  const selectedComplete = selected ? KycService.completedChecks(selected, selectedChecklist) : 0
+  const selectedTier = selected ? KycService.riskTier(selected) : 'low'
+  const selectedDue = selected ? KycService.nextReviewDate(selected) : null
+
+  return (
+    <div className="flex-1 space-y-4 p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">KYC Review</h2>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={loadCustomers}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button onClick={flagDueReviews} disabled={flagging || dueCustomers.length === 0}>
+            {flagging ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CalendarClock className="mr-2 h-4 w-4" />
+            )}
+            {flagging ? 'Flagging...' : `Start Re-KYC (${dueCustomers.length})`}
+          </Button>
+        </div>
+      </div>
+
+      {/* KYC Overview */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Pending Review</CardTitle>
+            <Clock className="h-4 w-4 text-yellow-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-yellow-600">
+              {customers.filter(c => c.kycStatus === 'pending').length}
+            </div>
+            <p className="text-xs text-muted-foreground">Awaiting a reviewer</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Info Requested</CardTitle>
+            <ClipboardCheck className="h-4 w-4 text-blue-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {customers.filter(c => c.kycStatus === 'info_requested').length}
+            </div>
+            <p className="text-xs text-muted-foreground">Waiting on the customer</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Re-KYC Due</CardTitle>
+            <CalendarClock className="h-4 w-4 text-orange-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{dueCustomers.length}</div>
+            <p className="text-xs text-muted-foreground">
+              Every {RE_KYC_INTERVAL_MONTHS.high}/{RE_KYC_INTERVAL_MONTHS.medium}/{RE_KYC_INTERVAL_MONTHS.low} months by tier
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Approved</CardTitle>
+            <UserCheck className="h-4 w-4 text-green-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">
+              {customers.filter(c => c.kycStatus === 'approved').length}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {customers.filter(c => c.kycStatus === 'rejected').length} rejected
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* KYC Queue */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle>KYC Queue</CardTitle>
+              <CardDescription>Customers waiting on identity, address and source-of-funds checks</CardDescription>
+            </div>
+            <Select value={filter} onValueChange={value => setFilter(value as QueueFilter)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open reviews</SelectItem>
+                <SelectItem value="due">Re-KYC due</SelectItem>
+                {(Object.keys(KYC_STATUS_LABELS) as KycStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{KYC_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredCustomers.length === 0 ? (
+            <div className="text-center py-8">
+              <UserCheck className="mx-auto h-8 w-8 text-gray-400 mb-2" />
+              <p className="text-muted-foreground">No customers in this queue</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Risk Tier</TableHead>
+                  <TableHead>Checklist</TableHead>
+                  <TableHead>Screening</TableHead>
+                  <TableHead>Next Review</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredCustomers.map(customer => {
+                  const tier = KycService.riskTier(customer)
+                  const nextReview = KycService.nextReviewDate(customer)
+                  return (
+                    <TableRow key={customer.id}>
+                      <TableCell>
+                        <div className="font-medium">{customer.firstName} {customer.lastName}</div>
+                        <div className="text-xs text-muted-foreground">{customer.customerNumber}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getStatusColor(customer.kycStatus)}>
+                          {KYC_STATUS_LABELS[customer.kycStatus as KycStatus] || customer.kycStatus}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getTierColor(tier)}>{tier}</Badge>
+                      </TableCell>
+                      <TableCell>{KycService.completedChecks(customer)}/{KYC_CHECKS.length}</TableCell>
+                      <TableCell className="capitalize">{(customer.screeningStatus || 'not screened').replace('_', ' ')}</TableCell>
+                      <TableCell>{customer.kycStatus === 'approved' && nextReview ? nextReview.toLocaleDateString() : '—'}</TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => openReview(customer)}>
+                          <Eye className="h-4 w-4 mr-1" />
+                          Review
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Review Dialog */}
+      <Dialog open={selected !== null} onOpenChange={open => { if (!open) setSelected(null) }}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selected.firstName} {selected.lastName}</DialogTitle>
+                <DialogDescription>
+                  {selected.customerNumber} · DOB {selected.dateOfBirth} · {selected.address}, {selected.city}, {selected.state}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-6">
+                <div className="grid gap-4 md:grid-cols-3 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Status</p>
+                    <Badge className={getStatusColor(selected.kycStatus)}>
+                      {KYC_STATUS_LABELS[selected.kycStatus as KycStatus] || selected.kycStatus}
+                    </Badge>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Risk tier</p>
+                    <Badge className={getTierColor(selectedTier)}>{selectedTier}</Badge>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Next periodic review</p>
+                    <p className="font-semibold">
+                      {selected.kycStatus === 'approved' && selectedDue
+                        ? selectedDue.toLocaleDateString()
+                        : `${RE_KYC_INTERVAL_MONTHS[selectedTier]} months after approval`}
+                    </p>
+                  </div>
+                </div>
+
+                <div>
+                  <h4 className="font-semibold mb-2">Checklist ({selectedComplete}/{KYC_CHECKS.length})</h4>
+                  <div className="space-y-3">
+                    {KYC_CHECKS.map(check => {
+                      const item = selectedChecklist[check.id]
+                      const complete = KycService.isCheckComplete(selected, selectedChecklist, check)
+                      return (
+                        <div key={check.id} className="p-3 border rounded-lg space-y-2">
+                          <div className="flex items-start space-x-3">
+                            {check.manual ? (
+                              <Checkbox
+                                checked={item?.checked === true}
+                                onCheckedChange={checked => toggleCheck(check.id, checked === true)}
+                                className="mt-0.5"
+                              />
+                            ) : complete ? (
+                              <CheckCircle className="h-4 w-4 text-green-600 mt-0.5" />
+                            ) : (
+                              <XCircle className="h-4 w-4 text-red-500 mt-0.5" />
+                            )}
+                            <div className="flex-1">
+                              <p className="text-sm font-medium">{check.label}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {check.manual
+                                  ? check.description
+                                  : `Screening result: ${(selected.screeningStatus || 'not screened').replace('_', ' ')}`}
+                              </p>
+                              {item?.checked && item.checkedBy && (
+                                <p className="text-xs text-muted-foreground">
+                                  Verified by {item.checkedBy}{item.checkedAt ? ` on ${new Date(item.checkedAt).toLocaleDateString()}` : ''}
+                                </p>
+                              )}
+                            </div>
+                          </div>
+                          {check.manual && (
+                            <Input
+                              value={notes[check.id] || ''}
+                              onChange={e => setNotes(prev => ({ ...prev, [check.id]: e.target.value }))}
+                              placeholder="Document reference or note (saved with the check)"
+                              className="text-sm"
+                            />
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Decision reason</Label>
+                  <Textarea
+                    value={reason}
+                    onChange={e => setReason(e.target.value)}
+                    placeholder="Why this decision was made"
+                  />
+                  {decisionError && <p className="text-sm text-red-600">{decisionError}</p>}
+                  <div className="flex justify-end space-x-2">
+                    {KycService.allowedTransitions(selected.kycStatus).map(status => (
+                      <Button
+                        key={status}
+                        variant={status === 'rejected' ? 'destructive' : status === 'approved' ? 'default' : 'outline'}
+                        onClick={() => decide(status)}
+                        disabled={!reason.trim() || (status === 'approved' && selectedComplete < KYC_CHECKS.length)}
+                      >
+                        {status === 'approved' && 'Approve'}
+                        {status === 'rejected' && 'Reject'}
+                        {status === 'info_requested' && 'Request Info'}
+                        {status === 'pending' && (selected.kycStatus === 'info_requested' ? 'Info Received' : 'Reopen Review')}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <h4 className="font-semibold mb-2 flex items-center">
+                    <History className="mr-2 h-4 w-4" />
+                    Status History
+                  </h4>
+                  {history.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No decisions recorded yet</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {history.map(event => (
+                        <div key={event.id} className="p-3 bg-gray-50 rounded-lg text-sm">
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium">
+                              {KYC_STATUS_LABELS[event.fromStatus as KycStatus] || event.fromStatus} → {KYC_STATUS_LABELS[event.toStatus as KycStatus] || event.toStatus}
+                            </span>
+                            <span className="text-xs text-muted-foreground">
+                              {event.reviewer} · {new Date(event.createdAt).toLocaleString()}
+                            </span>
+                          </div>
+                          <p className="text-muted-foreground mt-1">{event.reason}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
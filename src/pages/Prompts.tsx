@@ -0,0 +1,328 @@
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
+import { Badge } from '../components/ui/badge'
+import { Button } from '../components/ui/button'
+import { Input } from '../components/ui/input'
+import { Label } from '../components/ui/label'
+import { Progress } from '../components/ui/progress'
+import { Textarea } from '../components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table'
+import { Alert, AlertDescription } from '../components/ui/alert'
+import { AlertTriangle, Check, FileCode, GitCompare, Play, Save } from 'lucide-react'
+import { CUSTOMER_PROMPTS, PROMPT_LABELS, promptRef, templateVariables } from '../ai'
+import type { PromptName, PromptTemplate } from '../ai'
+import { db } from '../data'
+import { PromptRegistry } from '../services/promptRegistry'
+import { PromptComparison } from '../services/promptComparison'
+import type { PromptComparisonRow, PromptRunOutput } from '../services/promptComparison'
+
+const PROMPT_NAMES = Object.keys(PROMPT_LABELS) as PromptName[]
+const DEFAULT_SAMPLE_SIZE = 5
+const MAX_SAMPLE_SIZE = 25
+
+function OutputPanel({ run }: { run: PromptRunOutput }) {
+  return (
+    <div className="space-y-2 min-w-0">
+      <Badge variant="outline" className="font-mono">{run.promptVersion}</Badge>
+      {run.error && <p className="text-sm text-red-600">{run.error}</p>}
+      {run.output !== null && (
+        <pre className="text-xs bg-muted rounded p-3 overflow-auto max-h-64 whitespace-pre-wrap">
+          {JSON.stringify(run.output, null, 2)}
+        </pre>
+      )}
+    </div>
+  )
+}
+
+export function Prompts() {
+  const [selectedName, setSelectedName] = useState<PromptName>('customer-insights')
+  const [versions, setVersions] = useState<PromptTemplate[]>([])
+  const [activeVersion, setActiveVersion] = useState('v1')
+  const [draft, setDraft] = useState('')
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [versionA, setVersionA] = useState('v1')
+  const [versionB, setVersionB] = useState('v1')
+  const [sampleSize, setSampleSize] = useState(DEFAULT_SAMPLE_SIZE)
+  const [comparing, setComparing] = useState(false)
+  const [compareProgress, setCompareProgress] = useState<{ done: number; total: number } | null>(null)
+  const [comparison, setComparison] = useState<PromptComparisonRow[]>([])
+
+  useEffect(() => {
+    loadVersions(selectedName)
+  }, [selectedName])
+
+  const loadVersions = async (name: PromptName) => {
+    try {
+      const [list, active] = await Promise.all([
+        PromptRegistry.listVersions(name),
+        PromptRegistry.getActive(name)
+      ])
+      setVersions(list)
+      setActiveVersion(active.version)
+      setDraft(active.template)
+      setNotes('')
+      setSaveError(null)
+      setComparison([])
+      // Default comparison: the active version against the newest one
+      setVersionA(active.version)
+      setVersionB(list[list.length - 1].version)
+    } catch (error) {
+      console.error('Error loading prompt versions:', error)
+    }
+  }
+
+  const saveVersion = async () => {
+    try {
+      setSaving(true)
+      setSaveError(null)
+      const user = await db.currentUser()
+      const saved = await PromptRegistry.saveVersion(selectedName, draft, notes, user)
+      await loadVersions(selectedName)
+      setVersionB(saved.version)
+    } catch (error) {
+      console.error('Error saving prompt version:', error)
+      setSaveError(error instanceof Error ? error.message : 'Could not save the prompt')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const activateVersion = async (version: string) => {
+    try {
+      await PromptRegistry.activate(selectedName, version)
+      await loadVersions(selectedName)
+    } catch (error) {
+      console.error('Error activating prompt version:', error)
+    }
+  }
+
+  const runComparison = async () => {
+    try {
+      setComparing(true)
+      setComparison([])
+      const customers = await PromptComparison.sampleCustomers(sampleSize)
+      setCompareProgress({ done: 0, total: customers.length })
+      const rows = await PromptComparison.run(selectedName, versionA, versionB, customers, (done, total) =>
+        setCompareProgress({ done, total })
+      )
+      setComparison(rows)
+    } catch (error) {
+      console.error('Error comparing prompt versions:', error)
+    } finally {
+      setComparing(false)
+      setCompareProgress(null)
+    }
+  }
+
+  const canCompare = CUSTOMER_PROMPTS.includes(selectedName)
+  const identicalCount = comparison.filter(row => row.identical).length
+
+  return (
+    <div className="flex-1 space-y-4 p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Prompts</h2>
+          <p className="text-muted-foreground">
+            Versioned AI prompt templates; every AI-generated record is tagged with the version it used
+          </p>
+        </div>
+        <Select value={selectedName} onValueChange={value => setSelectedName(value as PromptName)}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PROMPT_NAMES.map(name => (
+              <SelectItem key={name} value={name}>{PROMPT_LABELS[name]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle>Versions</CardTitle>
+            <CardDescription>{PROMPT_LABELS[selectedName]}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map(version => (
+                  <TableRow key={version.version}>
+                    <TableCell className="font-mono">
+                      {version.version}
+                      {version.version === activeVersion && <Badge className="ml-2">Active</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {version.builtIn ? 'Built-in' : version.notes || '—'}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="ghost" size="sm" onClick={() => setDraft(version.template)}>
+                        <FileCode className="h-4 w-4" />
+                      </Button>
+                      {version.version !== activeVersion && (
+                        <Button variant="outline" size="sm" onClick={() => activateVersion(version.version)}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Template</CardTitle>
+            <CardDescription>
+              Edit and save as a new version; it is not used until activated
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-1">
+              {templateVariables(PromptRegistry.builtIn(selectedName).template).map(variable => (
+                <Badge key={variable} variant="secondary" className="font-mono">{`{{${variable}}}`}</Badge>
+              ))}
+            </div>
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={16}
+              className="font-mono text-xs"
+            />
+            <div className="flex items-end gap-4">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="prompt-notes">Change notes</Label>
+                <Input
+                  id="prompt-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="What changed and why"
+                />
+              </div>
+              <Button onClick={saveVersion} disabled={saving || !draft.trim()}>
+                <Save className="mr-2 h-4 w-4" />
+                {saving ? 'Saving...' : 'Save as New Version'}
+              </Button>
+            </div>
+            {saveError && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{saveError}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <GitCompare className="mr-2 h-5 w-5" />
+            A/B Compare
+          </CardTitle>
+          <CardDescription>
+            Run two versions on the same customers and compare outputs. Results are not saved.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!canCompare ? (
+            <p className="text-sm text-muted-foreground">
+              Comparison is available for per-customer prompts: {CUSTOMER_PROMPTS.map(name => PROMPT_LABELS[name]).join(', ')}.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label>Version A</Label>
+                  <Select value={versionA} onValueChange={setVersionA}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map(v => <SelectItem key={v.version} value={v.version}>{v.version}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Version B</Label>
+                  <Select value={versionB} onValueChange={setVersionB}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map(v => <SelectItem key={v.version} value={v.version}>{v.version}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sample-size">Customers</Label>
+                  <Input
+                    id="sample-size"
+                    type="number"
+                    min="1"
+                    max={MAX_SAMPLE_SIZE}
+                    className="w-24"
+                    value={sampleSize}
+                    onChange={(e) => setSampleSize(Math.min(MAX_SAMPLE_SIZE, Math.max(1, Number(e.target.value) || 1)))}
+                  />
+                </div>
+                <Button onClick={runComparison} disabled={comparing}>
+                  <Play className="mr-2 h-4 w-4" />
+                  {comparing ? 'Running...' : 'Run Comparison'}
+                </Button>
+              </div>
+
+              {compareProgress && (
+                <div className="space-y-1">
+                  <Progress value={compareProgress.total > 0 ? (compareProgress.done / compareProgress.total) * 100 : 0} />
+                  <p className="text-xs text-muted-foreground">
+                    {compareProgress.done} of {compareProgress.total} customers
+                  </p>
+                </div>
+              )}
+
+              {comparison.length > 0 && (
+                <div className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    {promptRef(selectedName, versionA)} vs {promptRef(selectedName, versionB)}: {identicalCount} of {comparison.length} outputs identical
+                  </p>
+                  {comparison.map(row => (
+                    <div key={row.customerId} className="border rounded-lg p-4 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{row.customerName}</span>
+                        {row.a.error || row.b.error ? (
+                          <Badge variant="destructive">Error</Badge>
+                        ) : (
+                          <Badge variant={row.identical ? 'secondary' : 'default'}>
+                            {row.identical ? 'Identical' : 'Different'}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <OutputPanel run={row.a} />
+                        <OutputPanel run={row.b} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,10 +1,11 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
 import { Badge } from '../components/ui/badge'
 import { Button } from '../components/ui/button'
 import { Progress } from '../components/ui/progress'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '../components/ui/dialog'
+import { Alert, AlertDescription, AlertTitle } from '../components/ui/alert'
 import { 
   AlertTriangle, 
   Shield, 
@@ -37,8 +38,11 @@ import {
   ScatterChart,
   Scatter
 } from 'recharts'
-import { blink } from '../blink/client'
+import { db, loadAll } from '../data'
 import { MLEngine } from '../services/mlEngine'
+import { CreditScorecard } from '../services/creditScorecard'
+import { aiProviderName, loadAILimits } from '../ai'
+import { TransactionAnomalies } from '../components/risk/TransactionAnomalies'
 
 interface RiskAssessment {
   id: string
@@ -51,6 +55,9 @@ interface RiskAssessment {
   status: string
   assessedDate: string
   expiresDate: string
+  scorecardScore?: number
+  scorecard?: string
+  promptVersion?: string
   customer?: {
     firstName: string
     lastName: string
@@ -70,7 +77,9 @@ interface Customer {
   annualIncome: number
   riskScore: number
   transactionCount: number
+  avgMonthlyBalance: number
   lastTransactionDate: string
+  accountOpenedDate: string
 }
 
 export function RiskAssessment() {
@@ -78,20 +87,26 @@ export function RiskAssessment() {
   const [customers, setCustomers] = useState<Customer[]>([])
   const [loading, setLoading] = useState(true)
   const [analyzing, setAnalyzing] = useState(false)
+  const [aiFailures, setAiFailures] = useState<{ count: number; total: number; lastError: string } | null>(null)
   const [selectedAssessment, setSelectedAssessment] = useState<RiskAssessment | null>(null)
 
   useEffect(() => {
     loadData()
   }, [])
 
+  const customerNames = useMemo(
+    () => new Map(customers.map(c => [c.id, `${c.firstName} ${c.lastName}`])),
+    [customers]
+  )
+
   const loadData = async () => {
     try {
       const [assessmentData, customerData] = await Promise.all([
-        blink.db.riskAssessments.list({ 
+        db.riskAssessments.list({ 
           orderBy: { assessedDate: 'desc' },
           limit: 100 
         }),
-        blink.db.customers.list({ limit: 1000 })
+        loadAll(db.customers)
       ])
 
       // Enrich assessments with customer data
@@ -121,19 +136,20 @@ export function RiskAssessment() {
   const runRiskAnalysis = async () => {
     try {
       setAnalyzing(true)
-      const user = await blink.auth.me()
+      setAiFailures(null)
+      const user = await db.currentUser()
 
       // Analyze high-risk customers
       const highRiskCustomers = customers.filter(c => c.riskScore > 0.6 || c.accountBalance < 1000)
-      
-      for (const customer of highRiskCustomers.slice(0, 20)) { // Limit to prevent API overload
+      let failures = 0
+      let lastError = ''
+
+      // Transactions are loaded and scored over the same cash-flow window
+      const cashFlowWindow = CreditScorecard.cashFlowWindow()
+
+      const analyzeCustomer = async (customer: Customer) => {
         try {
-          // Load customer transactions for context
-          const transactions = await blink.db.transactions.list({
-            where: { customerId: customer.id },
-            orderBy: { transactionDate: 'desc' },
-            limit: 20
-          })
+          const transactions = await CreditScorecard.transactionsFor(customer.id, cashFlowWindow)
 
           const customerData = {
             id: customer.id,
@@ -141,20 +157,25 @@ export function RiskAssessment() {
             creditScore: customer.creditScore,
             annualIncome: customer.annualIncome,
             transactionCount: customer.transactionCount,
-            avgMonthlyBalance: customer.accountBalance * 0.9,
+            avgMonthlyBalance: customer.avgMonthlyBalance,
             riskScore: customer.riskScore,
             customerLifetimeValue: 0,
-            accountAge: Math.floor((Date.now() - new Date().getTime()) / (1000 * 60 * 60 * 24 * 30)),
+            accountAge: customer.accountOpenedDate ?
+              Math.floor((Date.now() - new Date(customer.accountOpenedDate).getTime()) / (1000 * 60 * 60 * 24 * 30)) : 0,
             lastTransactionDays: customer.lastTransactionDate ? 
               Math.floor((Date.now() - new Date(customer.lastTransactionDate).getTime()) / (1000 * 60 * 60 * 24)) : 30
           }
 
           // Use ML engine for risk assessment
-          const riskAnalysis = await MLEngine.assessCustomerRisk(customerData, transactions)
+          const riskAnalysis = await MLEngine.assessCustomerRisk(customerData, transactions, undefined, cashFlowWindow)
+          if (riskAnalysis.aiError) {
+            failures++
+            lastError = riskAnalysis.aiError
+          }
 
           // Create risk assessment record
           const assessmentId = `risk_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-          await blink.db.riskAssessments.create({
+          await db.riskAssessments.create({
             id: assessmentId,
             userId: user.id,
             customerId: customer.id,
@@ -163,13 +184,16 @@ export function RiskAssessment() {
             riskLevel: riskAnalysis.riskLevel,
             factors: JSON.stringify(riskAnalysis.factors),
             recommendations: JSON.stringify(riskAnalysis.recommendations),
+            scorecardScore: riskAnalysis.scorecard.score,
+            scorecard: JSON.stringify(riskAnalysis.scorecard),
+            promptVersion: riskAnalysis.promptVersion,
             status: 'active',
             assessedDate: new Date().toISOString(),
             expiresDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString() // 30 days
           })
 
           // Update customer risk score
-          await blink.db.customers.update(customer.id, {
+          await db.customers.update(customer.id, {
             riskScore: riskAnalysis.riskScore
           })
 
@@ -178,6 +202,17 @@ export function RiskAssessment() {
         }
       }
 
+      // A bounded pool of workers, sized like the AI scheduler, so the per-customer
+      // reads and writes don't all hit the database at once
+      const queue = [...highRiskCustomers]
+      const workers = Math.min(queue.length, Math.max(1, loadAILimits(aiProviderName).maxConcurrency))
+      await Promise.all(Array.from({ length: workers }, async () => {
+        for (let customer = queue.shift(); customer; customer = queue.shift()) {
+          await analyzeCustomer(customer)
+        }
+      }))
+
+      if (failures > 0) setAiFailures({ count: failures, total: highRiskCustomers.length, lastError })
       await loadData()
     } catch (error) {
       console.error('Error running risk analysis:', error)
@@ -188,7 +223,7 @@ export function RiskAssessment() {
 
   const updateAssessmentStatus = async (assessmentId: string, status: string) => {
     try {
-      await blink.db.riskAssessments.update(assessmentId, { status })
+      await db.riskAssessments.update(assessmentId, { status })
       await loadData()
     } catch (error) {
       console.error('Error updating assessment status:', error)
@@ -284,6 +319,16 @@ export function RiskAssessment() {
         </div>
       </div>
 
+      {aiFailures && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>AI analysis unavailable for {aiFailures.count} of {aiFailures.total} customers</AlertTitle>
+          <AlertDescription>
+            Their assessments use the credit scorecard only. Last error: {aiFailures.lastError}
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Risk Overview */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
@@ -477,6 +522,7 @@ export function RiskAssessment() {
                 <div className="space-y-4">
                   {highRiskAssessments.slice(0, 5).map((assessment) => {
                     const riskColors = getRiskColor(assessment.riskLevel)
+                    const scorecard = CreditScorecard.parse(assessment.scorecard)
                     return (
                       <div key={assessment.id} className={`p-4 rounded-lg border ${riskColors.border} ${riskColors.bg}`}>
                         <div className="flex items-start justify-between">
@@ -499,8 +545,14 @@ export function RiskAssessment() {
                               </p>
                               <div className="flex items-center space-x-4 text-sm">
                                 <span>Risk Score: {Math.round(assessment.riskScore * 100)}%</span>
+                                {assessment.scorecardScore !== undefined && assessment.scorecardScore !== null && (
+                                  <span>Scorecard: {assessment.scorecardScore}</span>
+                                )}
                                 <span>Balance: ${assessment.customer?.accountBalance.toLocaleString()}</span>
                                 <span>Credit: {assessment.customer?.creditScore}</span>
+                                {assessment.promptVersion && (
+                                  <span className="font-mono text-xs text-muted-foreground">{assessment.promptVersion}</span>
+                                )}
                               </div>
                             </div>
                           </div>
@@ -557,6 +609,39 @@ export function RiskAssessment() {
                                     </div>
                                   </div>
                                   
+                                  {scorecard && (
+                                    <div>
+                                      <div className="flex items-center justify-between mb-2">
+                                        <h4 className="font-semibold">Credit Scorecard</h4>
+                                        <div className="flex items-center space-x-2">
+                                          <span className="text-2xl font-bold">{scorecard.score}</span>
+                                          <Badge className={`${getRiskColor(scorecard.riskLevel).bg} ${getRiskColor(scorecard.riskLevel).text}`}>
+                                            {scorecard.riskLevel}
+                                          </Badge>
+                                        </div>
+                                      </div>
+                                      <div className="space-y-1 text-sm">
+                                        {scorecard.attributes.map(attribute => (
+                                          <div key={attribute.characteristic} className="flex items-center justify-between">
+                                            <span className="text-muted-foreground">{attribute.characteristic} ({attribute.bin})</span>
+                                            <span className="font-medium">{attribute.points} / {attribute.maxPoints} pts</span>
+                                          </div>
+                                        ))}
+                                      </div>
+                                      {scorecard.reasonCodes.length > 0 && (
+                                        <div className="mt-3 space-y-1">
+                                          <p className="text-sm font-medium">Adverse-action reasons</p>
+                                          {scorecard.reasonCodes.map(reason => (
+                                            <div key={reason.code} className="flex items-center space-x-2 text-sm">
+                                              <Badge variant="outline">{reason.code}</Badge>
+                                              <span>{reason.description}</span>
+                                            </div>
+                                          ))}
+                                        </div>
+                                      )}
+                                    </div>
+                                  )}
+
                                   <div>
                                     <h4 className="font-semibold mb-2">Risk Factors</h4>
                                     <div className="bg-gray-50 p-3 rounded-lg">
@@ -724,6 +809,8 @@ export function RiskAssessment() {
           </Card>
         </div>
       )}
+
+      {customers.length > 0 && <TransactionAnomalies customerNames={customerNames} />}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,445 @@
+import { useState, useEffect, useMemo, useRef } from 'react'
+import type { ChangeEvent } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
+import { Badge } from '../components/ui/badge'
+import { Button } from '../components/ui/button'
+import { Label } from '../components/ui/label'
+import { Progress } from '../components/ui/progress'
+import { Textarea } from '../components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table'
+import {
+  AlertTriangle,
+  CheckCircle,
+  Eye,
+  FileUp,
+  RefreshCw,
+  ScanFace,
+  ShieldCheck,
+  UserSearch
+} from 'lucide-react'
+import { db, loadAll } from '../data'
+import type { Customer, LoadProgress, ScreeningMatch } from '../data'
+import { WatchlistLoader } from '../services/watchlist'
+import type { Watchlist, WatchlistEntry } from '../services/watchlist'
+import { ScreeningService } from '../services/sanctionsScreening'
+import type { ScreeningDecision, ScreeningRunResult } from '../services/sanctionsScreening'
+
+type QueueFilter = 'pending' | 'escalated' | 'cleared' | 'all'
+
+export function Screening() {
+  const [watchlist, setWatchlist] = useState<Watchlist | null>(null)
+  const [watchlistError, setWatchlistError] = useState<string | null>(null)
+  const [matches, setMatches] = useState<ScreeningMatch[]>([])
+  const [customers, setCustomers] = useState<Map<string, Customer>>(new Map())
+  const [loading, setLoading] = useState(true)
+  const [screening, setScreening] = useState(false)
+  const [screenProgress, setScreenProgress] = useState<LoadProgress | null>(null)
+  const [lastRun, setLastRun] = useState<ScreeningRunResult | null>(null)
+  const [filter, setFilter] = useState<QueueFilter>('pending')
+  const [reviewing, setReviewing] = useState<ScreeningMatch | null>(null)
+  const [reason, setReason] = useState('')
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    loadData()
+    loadSampleWatchlist()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      const [matchList, customerList] = await Promise.all([
+        db.screeningMatches.list({ orderBy: { score: 'desc' } }),
+        loadAll(db.customers)
+      ])
+      setMatches(matchList)
+      setCustomers(new Map(customerList.map(c => [c.id, c])))
+    } catch (error) {
+      console.error('Error loading screening matches:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadSampleWatchlist = async () => {
+    try {
+      setWatchlist(await WatchlistLoader.fetch())
+      setWatchlistError(null)
+    } catch (error) {
+      console.error('Error loading watchlist:', error)
+      setWatchlistError('Sample watchlist could not be loaded — upload an SDN file instead')
+    }
+  }
+
+  const uploadWatchlist = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      setWatchlist(WatchlistLoader.parse(await file.text(), file.name))
+      setWatchlistError(null)
+    } catch (error) {
+      console.error('Error parsing watchlist:', error)
+      setWatchlistError(error instanceof Error ? error.message : 'Watchlist could not be parsed')
+    }
+  }
+
+  const runScreening = async () => {
+    if (!watchlist) return
+    try {
+      setScreening(true)
+      const user = await db.currentUser()
+      setLastRun(await ScreeningService.screenAll(watchlist, user, setScreenProgress))
+      await loadData()
+    } catch (error) {
+      console.error('Error running screening:', error)
+    } finally {
+      setScreening(false)
+      setScreenProgress(null)
+    }
+  }
+
+  const decide = async (decision: ScreeningDecision) => {
+    if (!reviewing || !reason.trim()) return
+    try {
+      const user = await db.currentUser()
+      await ScreeningService.decide(reviewing.id, decision, reason.trim(), user.displayName || user.email)
+      setReviewing(null)
+      await loadData()
+    } catch (error) {
+      console.error('Error recording screening decision:', error)
+    }
+  }
+
+  const openReview = (match: ScreeningMatch) => {
+    setReviewing(match)
+    setReason(match.decisionReason || '')
+  }
+
+  const listCounts = useMemo(() => {
+    const counts = { sanctions: 0, pep: 0 }
+    watchlist?.entries.forEach((entry: WatchlistEntry) => { counts[entry.listType]++ })
+    return counts
+  }, [watchlist])
+
+  const filteredMatches = filter === 'all' ? matches : matches.filter(m => m.status === filter)
+  const reviewingCustomer = reviewing ? customers.get(reviewing.customerId) : undefined
+  const reviewingEntry = reviewing ? watchlist?.entries.find(e => e.uid === reviewing.entryId) : undefined
+  const screenedCount = Array.from(customers.values()).filter(c => c.screenedAt).length
+
+  const getScoreColor = (score: number) => {
+    if (score >= 0.95) return 'bg-red-200 text-red-900'
+    if (score >= 0.9) return 'bg-red-100 text-red-800'
+    return 'bg-yellow-100 text-yellow-800'
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'escalated': return 'bg-red-100 text-red-800'
+      case 'cleared': return 'bg-green-100 text-green-800'
+      default: return 'bg-yellow-100 text-yellow-800'
+    }
+  }
+
+  const getCorroborationColor = (value: string) => {
+    switch (value) {
+      case 'exact':
+      case 'match': return 'text-red-600'
+      case 'year': return 'text-orange-600'
+      case 'mismatch': return 'text-green-600'
+      default: return 'text-muted-foreground'
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex-1 space-y-4 p-8 pt-6">
+        <div className="flex items-center justify-between space-y-2">
+          <h2 className="text-3xl font-bold tracking-tight">Sanctions Screening</h2>
+        </div>
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          {[...Array(4)].map((_, i) => (
+            <Card key={i}>
+              <CardHeader>
+                <div className="h-4 bg-gray-200 rounded w-32 animate-pulse mb-2"></div>
+                <div className="h-8 bg-gray-200 rounded w-16 animate-pulse"></div>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 space-y-4 p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2">
+        <h2 className="text-3xl font-bold tracking-tight">Sanctions Screening</h2>
+        <div className="flex items-center space-x-2">
+          <input ref={fileInput} type="file" accept=".csv,.xml" className="hidden" onChange={uploadWatchlist} />
+          <Button variant="outline" onClick={() => fileInput.current?.click()}>
+            <FileUp className="mr-2 h-4 w-4" />
+            Load Watchlist
+          </Button>
+          <Button onClick={runScreening} disabled={screening || !watchlist}>
+            {screening ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ScanFace className="mr-2 h-4 w-4" />
+            )}
+            {screening ? 'Screening...' : 'Run Screening'}
+          </Button>
+        </div>
+      </div>
+
+      {screening && screenProgress && (
+        <div className="space-y-1">
+          <Progress value={screenProgress.total > 0 ? (screenProgress.loaded / screenProgress.total) * 100 : 0} />
+          <p className="text-xs text-muted-foreground">
+            Screened {screenProgress.loaded.toLocaleString()} of {screenProgress.total.toLocaleString()} customers
+          </p>
+        </div>
+      )}
+
+      {lastRun && (
+        <p className="text-sm text-muted-foreground">
+          Screened {lastRun.customersScreened.toLocaleString()} customers against {lastRun.entriesScreened.toLocaleString()} individual entries; {lastRun.newMatches} new potential matches.
+        </p>
+      )}
+
+      {/* Screening Overview */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Watchlist</CardTitle>
+            <UserSearch className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{watchlist ? watchlist.entries.length.toLocaleString() : '—'}</div>
+            <p className="text-xs text-muted-foreground truncate">
+              {watchlist
+                ? `${watchlist.source} · ${listCounts.sanctions} sanctions, ${listCounts.pep} PEP`
+                : watchlistError || 'Loading watchlist...'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Pending Review</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-yellow-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-yellow-600">
+              {matches.filter(m => m.status === 'pending').length}
+            </div>
+            <p className="text-xs text-muted-foreground">Potential matches</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Escalated</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-red-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">
+              {matches.filter(m => m.status === 'escalated').length}
+            </div>
+            <p className="text-xs text-muted-foreground">Confirmed or under investigation</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Customers Screened</CardTitle>
+            <ShieldCheck className="h-4 w-4 text-green-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{screenedCount.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">of {customers.size.toLocaleString()} customers</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Review Queue */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle>Review Queue</CardTitle>
+              <CardDescription>
+                Fuzzy name matches corroborated by date of birth and country
+              </CardDescription>
+            </div>
+            <Select value={filter} onValueChange={value => setFilter(value as QueueFilter)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="escalated">Escalated</SelectItem>
+                <SelectItem value="cleared">Cleared</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredMatches.length === 0 ? (
+            <div className="text-center py-8">
+              <CheckCircle className="mx-auto h-8 w-8 text-gray-400 mb-2" />
+              <p className="text-muted-foreground">No {filter === 'all' ? '' : `${filter} `}matches</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Watchlist Entry</TableHead>
+                  <TableHead>List</TableHead>
+                  <TableHead className="text-right">Name</TableHead>
+                  <TableHead>DOB</TableHead>
+                  <TableHead>Country</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredMatches.map(match => {
+                  const customer = customers.get(match.customerId)
+                  return (
+                    <TableRow key={match.id}>
+                      <TableCell className="font-medium">
+                        {customer ? `${customer.firstName} ${customer.lastName}` : 'Unknown Customer'}
+                      </TableCell>
+                      <TableCell>
+                        <div>{match.matchedName}</div>
+                        {match.matchedName !== match.entryName && (
+                          <div className="text-xs text-muted-foreground">alias of {match.entryName}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{match.listType === 'pep' ? 'PEP' : match.programs}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{Math.round(match.nameScore * 100)}%</TableCell>
+                      <TableCell className={`capitalize ${getCorroborationColor(match.dobMatch)}`}>{match.dobMatch}</TableCell>
+                      <TableCell className={`capitalize ${getCorroborationColor(match.countryMatch)}`}>{match.countryMatch}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge className={getScoreColor(match.score)}>{Math.round(match.score * 100)}%</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getStatusColor(match.status)}>{match.status}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => openReview(match)}>
+                          <Eye className="h-4 w-4 mr-1" />
+                          Review
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Review Dialog */}
+      <Dialog open={reviewing !== null} onOpenChange={open => { if (!open) setReviewing(null) }}>
+        <DialogContent className="max-w-3xl">
+          {reviewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Review Potential Match</DialogTitle>
+                <DialogDescription>
+                  {Math.round(reviewing.score * 100)}% match against {reviewing.watchlistSource}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="p-4 border rounded-lg space-y-2 text-sm">
+                    <h4 className="font-semibold">Customer</h4>
+                    {reviewingCustomer ? (
+                      <>
+                        <p>{reviewingCustomer.firstName} {reviewingCustomer.lastName}</p>
+                        <p className="text-muted-foreground">DOB {reviewingCustomer.dateOfBirth}</p>
+                        <p className="text-muted-foreground">
+                          {reviewingCustomer.address}, {reviewingCustomer.city}, {reviewingCustomer.state} {reviewingCustomer.country}
+                        </p>
+                        <p className="text-muted-foreground">{reviewingCustomer.customerNumber}</p>
+                      </>
+                    ) : (
+                      <p className="text-muted-foreground">Customer record not found</p>
+                    )}
+                  </div>
+                  <div className="p-4 border rounded-lg space-y-2 text-sm">
+                    <h4 className="font-semibold">Watchlist Entry #{reviewing.entryId}</h4>
+                    <p>{reviewing.entryName}</p>
+                    {reviewingEntry ? (
+                      <>
+                        {reviewingEntry.aliases.length > 0 && (
+                          <p className="text-muted-foreground">a.k.a. {reviewingEntry.aliases.join('; ')}</p>
+                        )}
+                        <p className="text-muted-foreground">
+                          DOB {reviewingEntry.datesOfBirth.length > 0
+                            ? reviewingEntry.datesOfBirth.map(d => [d.year, d.month, d.day].filter(Boolean).join('-')).join(', ')
+                            : 'unknown'}
+                        </p>
+                        <p className="text-muted-foreground">{reviewingEntry.countries.join(', ') || 'Country unknown'}</p>
+                        <p className="text-muted-foreground">{reviewingEntry.programs.join(', ')}</p>
+                      </>
+                    ) : (
+                      <p className="text-muted-foreground">{reviewing.programs} · load the same watchlist to see entry details</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-3 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Name similarity</p>
+                    <p className="font-semibold">{Math.round(reviewing.nameScore * 100)}% ({reviewing.matchedName})</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Date of birth</p>
+                    <p className={`font-semibold capitalize ${getCorroborationColor(reviewing.dobMatch)}`}>{reviewing.dobMatch}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Country</p>
+                    <p className={`font-semibold capitalize ${getCorroborationColor(reviewing.countryMatch)}`}>{reviewing.countryMatch}</p>
+                  </div>
+                </div>
+
+                {reviewing.reviewedAt && (
+                  <p className="text-sm text-muted-foreground">
+                    {reviewing.status === 'cleared' ? 'Cleared' : 'Escalated'} by {reviewing.reviewedBy} on {new Date(reviewing.reviewedAt).toLocaleString()}
+                  </p>
+                )}
+
+                <div className="space-y-1">
+                  <Label>Decision reason</Label>
+                  <Textarea
+                    value={reason}
+                    onChange={e => setReason(e.target.value)}
+                    placeholder="e.g. Date of birth and nationality differ from the listed individual"
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" onClick={() => decide('cleared')} disabled={!reason.trim()}>
+                    <CheckCircle className="mr-2 h-4 w-4" />
+                    Clear
+                  </Button>
+                  <Button variant="destructive" onClick={() => decide('escalated')} disabled={!reason.trim()}>
+                    <AlertTriangle className="mr-2 h-4 w-4" />
+                    Escalate
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
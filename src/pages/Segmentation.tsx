@@ -26,6 +26,8 @@ import {
   Cell, 
   BarChart, 
   Bar, 
+  LineChart,
+  Line,
   XAxis, 
   YAxis, 
   CartesianGrid, 
@@ -34,8 +36,15 @@ import {
   ScatterChart,
   Scatter
 } from 'recharts'
-import { blink } from '../blink/client'
+import { db, loadAll } from '../data'
+import type { Customer, MetricSnapshot, SegmentationRun } from '../data'
 import { MLEngine, SegmentationResult } from '../services/mlEngine'
+import { SegmentCriteriaEngine } from '../services/segmentCriteria'
+import { SegmentationRunService } from '../services/segmentationRuns'
+import { MetricSnapshots } from '../services/metricSnapshots'
+import { CLUSTER_FEATURES, DEFAULT_CLUSTERING_OPTIONS } from '../services/clustering'
+import { SegmentRuleBuilder } from '../components/segmentation/SegmentRuleBuilder'
+import { SegmentationRunHistory } from '../components/segmentation/SegmentationRunHistory'
 
 interface CustomerSegment {
   id: string
@@ -51,28 +60,17 @@ interface CustomerSegment {
   createdAt: string
 }
 
-interface Customer {
-  id: string
-  firstName: string
-  lastName: string
-  accountBalance: number
-  creditScore: number
-  annualIncome: number
-  riskScore: number
-  customerLifetimeValue: number
-  transactionCount: number
-  createdAt: string
-  lastTransactionDate: string
-}
-
 export function Segmentation() {
   const [segments, setSegments] = useState<CustomerSegment[]>([])
   const [customers, setCustomers] = useState<Customer[]>([])
   const [loading, setLoading] = useState(true)
   const [generating, setGenerating] = useState(false)
+  const [recomputing, setRecomputing] = useState(false)
   const [selectedSegment, setSelectedSegment] = useState<CustomerSegment | null>(null)
   const [segmentCustomers, setSegmentCustomers] = useState<Customer[]>([])
   const [mlResults, setMlResults] = useState<SegmentationResult[]>([])
+  const [runs, setRuns] = useState<SegmentationRun[]>([])
+  const [segmentHistory, setSegmentHistory] = useState<MetricSnapshot[]>([])
 
   useEffect(() => {
     loadData()
@@ -80,12 +78,16 @@ export function Segmentation() {
 
   const loadData = async () => {
     try {
-      const [segmentData, customerData] = await Promise.all([
-        blink.db.customerSegments.list({ orderBy: { createdAt: 'desc' } }),
-        blink.db.customers.list({ limit: 1000 })
+      const [segmentData, customerData, runData, historyData] = await Promise.all([
+        db.customerSegments.list({ where: { isActive: 1 }, orderBy: { createdAt: 'desc' } }),
+        loadAll(db.customers),
+        SegmentationRunService.listRuns(),
+        MetricSnapshots.history('segment', 90)
       ])
       setSegments(segmentData)
       setCustomers(customerData)
+      setRuns(runData)
+      setSegmentHistory(historyData)
     } catch (error) {
       console.error('Error loading data:', error)
     } finally {
@@ -109,7 +111,7 @@ export function Segmentation() {
         creditScore: c.creditScore || 650,
         annualIncome: c.annualIncome || 50000,
         transactionCount: c.transactionCount || 0,
-        avgMonthlyBalance: (c.accountBalance || 0) * 0.9,
+        avgMonthlyBalance: c.avgMonthlyBalance || 0,
         riskScore: c.riskScore || 0.3,
         customerLifetimeValue: c.customerLifetimeValue || 0,
         accountAge: Math.floor((Date.now() - new Date(c.createdAt).getTime()) / (1000 * 60 * 60 * 24 * 30)),
@@ -118,43 +120,15 @@ export function Segmentation() {
       }))
 
       // Use ML engine for segmentation
-      const results = await MLEngine.performCustomerSegmentation(customerData)
+      const { segments: results, diagnostics } = await MLEngine.performCustomerSegmentation(customerData)
       setMlResults(results)
 
-      // Save segments to database
-      const user = await blink.auth.me()
-      for (const result of results) {
-        const segmentData = {
-          id: result.segmentId,
-          userId: user.id,
-          segmentName: result.segmentName,
-          description: result.insights.join('. '),
-          criteria: JSON.stringify({
-            aiGenerated: true,
-            characteristics: result.characteristics
-          }),
-          customerCount: result.customers.length,
-          avgBalance: result.characteristics.avgBalance,
-          totalRevenue: result.characteristics.avgBalance * result.customers.length,
-          growthRate: Math.random() * 20 - 5, // Mock growth rate
-          riskLevel: result.characteristics.avgRiskScore > 0.7 ? 'high' : 
-                    result.characteristics.avgRiskScore > 0.4 ? 'medium' : 'low',
-          isActive: 1
-        }
-
-        await blink.db.customerSegments.create(segmentData)
-
-        // Create segment assignments
-        for (const customerId of result.customers) {
-          await blink.db.customerSegmentAssignments.create({
-            id: `assign_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            userId: user.id,
-            customerId,
-            segmentId: result.segmentId,
-            confidenceScore: 0.85 + Math.random() * 0.15
-          })
-        }
-      }
+      // Record the result as a new run version, with the chosen k and its fit, and make it active
+      const user = await db.currentUser()
+      await SegmentationRunService.recordRun(results, {
+        method: 'kmeans-ai',
+        parameters: { ...DEFAULT_CLUSTERING_OPTIONS, features: CLUSTER_FEATURES, customerCount: customerData.length, diagnostics }
+      }, user)
 
       await loadData()
     } catch (error) {
@@ -164,15 +138,28 @@ export function Segmentation() {
     }
   }
 
+  const recomputeMembership = async () => {
+    try {
+      setRecomputing(true)
+      const user = await db.currentUser()
+      await SegmentCriteriaEngine.refreshAllSegments(user.id)
+      await loadData()
+    } catch (error) {
+      console.error('Error recomputing segment membership:', error)
+    } finally {
+      setRecomputing(false)
+    }
+  }
+
   const loadSegmentCustomers = async (segment: CustomerSegment) => {
     try {
       // Load customers assigned to this segment
-      const assignments = await blink.db.customerSegmentAssignments.list({
+      const assignments = await loadAll(db.customerSegmentAssignments, {
         where: { segmentId: segment.id }
       })
-      
-      const customerIds = assignments.map(a => a.customerId)
-      const segmentCustomerData = customers.filter(c => customerIds.includes(c.id))
+
+      const customerIds = new Set(assignments.map(a => a.customerId))
+      const segmentCustomerData = customers.filter(c => customerIds.has(c.id))
       setSegmentCustomers(segmentCustomerData)
     } catch (error) {
       console.error('Error loading segment customers:', error)
@@ -208,6 +195,20 @@ export function Segmentation() {
     growth: s.growthRate
   }))
 
+  // One row per snapshot day with a customer count per active segment
+  const trendSegmentNames = segments.map(s => s.segmentName)
+  const segmentTrendData = Object.values(
+    segmentHistory
+      .filter(snapshot => trendSegmentNames.includes(snapshot.scopeName))
+      .reduce<Record<string, Record<string, string | number>>>((rows, snapshot) => {
+        rows[snapshot.day] = rows[snapshot.day] || {
+          day: new Date(snapshot.day).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+        }
+        rows[snapshot.day][snapshot.scopeName] = snapshot.customerCount
+        return rows
+      }, {})
+  )
+
   const customerDistributionData = customers.length > 0 ? [
     { name: 'High Value (>$100k)', value: customers.filter(c => c.accountBalance > 100000).length, color: '#10B981' },
     { name: 'Medium Value ($10k-$100k)', value: customers.filter(c => c.accountBalance >= 10000 && c.accountBalance <= 100000).length, color: '#3B82F6' },
@@ -246,6 +247,11 @@ export function Segmentation() {
             <RefreshCw className="mr-2 h-4 w-4" />
             Refresh
           </Button>
+          <Button variant="outline" onClick={recomputeMembership} disabled={recomputing || segments.length === 0}>
+            <Filter className={`mr-2 h-4 w-4 ${recomputing ? 'animate-pulse' : ''}`} />
+            {recomputing ? 'Recomputing...' : 'Recompute Membership'}
+          </Button>
+          <SegmentRuleBuilder customers={customers} onSaved={loadData} />
           <Button onClick={generateAISegmentation} disabled={generating || customers.length === 0}>
             {generating ? (
               <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
@@ -389,6 +395,40 @@ export function Segmentation() {
             </Card>
           </div>
 
+          {/* Segment Trends */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Segment Trends</CardTitle>
+              <CardDescription>Customers per segment from daily snapshots; growth rates are read from this history</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {segmentTrendData.length < 2 ? (
+                <div className="flex h-[250px] items-center justify-center text-sm text-muted-foreground">
+                  Trends appear once snapshots from at least two days are stored. A snapshot is taken daily.
+                </div>
+              ) : (
+                <ResponsiveContainer width="100%" height={250}>
+                  <LineChart data={segmentTrendData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="day" />
+                    <YAxis />
+                    <Tooltip />
+                    {trendSegmentNames.map((name, index) => (
+                      <Line
+                        key={name}
+                        type="monotone"
+                        dataKey={name}
+                        stroke={`hsl(${index * 45}, 70%, 50%)`}
+                        strokeWidth={2}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Customer Value Distribution */}
           {customerDistributionData.length > 0 && (
             <Card>
@@ -664,6 +704,8 @@ export function Segmentation() {
           </div>
         </div>
       )}
+
+      {runs.length > 0 && <SegmentationRunHistory runs={runs} customers={customers} onChanged={loadData} />}
     </div>
   )
 }
\ No newline at end of file
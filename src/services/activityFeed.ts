@@ -0,0 +1,140 @@
+import { db } from '../data'
+
+export type ActivityType = 'new_customer' | 'risk_alert' | 'insight' | 'segment' | 'compliance'
+
+export interface ActivityItem {
+  id: string
+  type: ActivityType
+  message: string
+  timestamp: string
+  priority: 'high' | 'medium' | 'low'
+}
+
+const PER_SOURCE_LIMIT = 10
+const HIGH_VALUE_BALANCE = 50000
+
+/**
+ * "5 minutes ago" style labels for the feed
+ */
+export function formatRelativeTime(timestamp: string, now = Date.now()): string {
+  const seconds = Math.max(0, Math.round((now - new Date(timestamp).getTime()) / 1000))
+  if (seconds < 60) return 'just now'
+  const units: [number, string][] = [[60, 'minute'], [3600, 'hour'], [86400, 'day'], [604800, 'week']]
+  let label = ''
+  for (const [size, unit] of units) {
+    if (seconds >= size) {
+      const count = Math.floor(seconds / size)
+      label = `${count} ${unit}${count === 1 ? '' : 's'} ago`
+    }
+  }
+  return seconds >= 2592000 ? new Date(timestamp).toLocaleDateString() : label
+}
+
+export class ActivityFeed {
+  /**
+   * Latest create and update events across customers, risk, AI insights,
+   * segments and compliance work, newest first
+   */
+  static async recent(limit = 10): Promise<ActivityItem[]> {
+    const newest = { orderBy: { createdAt: 'desc' as const }, limit: PER_SOURCE_LIMIT }
+    const lastUpdated = { orderBy: { updatedAt: 'desc' as const }, limit: PER_SOURCE_LIMIT }
+
+    const [customers, assessments, reviewedAssessments, insights, reviewedInsights, segments, amlCases, kycEvents, matches] =
+      await Promise.all([
+        db.customers.list(newest),
+        db.riskAssessments.list(newest),
+        db.riskAssessments.list({ ...lastUpdated, where: { status: { neq: 'active' } } }),
+        db.aiInsights.list(newest),
+        db.aiInsights.list({ ...lastUpdated, where: { status: { neq: 'active' } } }),
+        db.customerSegments.list(newest),
+        db.amlCases.list(newest),
+        db.kycEvents.list(newest),
+        db.screeningMatches.list({ ...newest, where: { status: 'pending' } })
+      ])
+
+    // Resolve names for events that only carry a customer ID
+    const customerIds = [...new Set([
+      ...assessments, ...reviewedAssessments, ...amlCases, ...kycEvents, ...matches
+    ].map(record => record.customerId))]
+    const named = customerIds.length > 0
+      ? await db.customers.list({ where: { id: { in: customerIds } } })
+      : []
+    const names = new Map([...customers, ...named].map(c => [c.id, `${c.firstName} ${c.lastName}`]))
+    const nameOf = (customerId: string) => names.get(customerId) || 'a customer'
+
+    const items: ActivityItem[] = [
+      ...customers.map(c => ({
+        id: `customer_${c.id}`,
+        type: 'new_customer' as const,
+        message: (c.accountBalance || 0) > HIGH_VALUE_BALANCE
+          ? `New high-value customer ${c.firstName} ${c.lastName} registered`
+          : `New customer ${c.firstName} ${c.lastName} registered`,
+        timestamp: c.createdAt,
+        priority: (c.accountBalance || 0) > HIGH_VALUE_BALANCE ? 'high' as const : 'low' as const
+      })),
+      ...assessments.map(a => ({
+        id: `risk_${a.id}`,
+        type: 'risk_alert' as const,
+        message: `${a.riskLevel.charAt(0).toUpperCase()}${a.riskLevel.slice(1)} risk assessed for ${nameOf(a.customerId)}`,
+        timestamp: a.createdAt,
+        priority: a.riskLevel === 'high' || a.riskLevel === 'critical' ? 'high' as const : 'medium' as const
+      })),
+      ...reviewedAssessments.map(a => ({
+        id: `risk_review_${a.id}`,
+        type: 'risk_alert' as const,
+        message: `Risk assessment for ${nameOf(a.customerId)} marked ${a.status}`,
+        timestamp: a.updatedAt,
+        priority: 'low' as const
+      })),
+      ...insights.map(i => ({
+        id: `insight_${i.id}`,
+        type: 'insight' as const,
+        message: `AI insight: ${i.title}`,
+        timestamp: i.createdAt,
+        priority: (['high', 'medium', 'low'].includes(i.priority) ? i.priority : 'medium') as ActivityItem['priority']
+      })),
+      ...reviewedInsights.map(i => ({
+        id: `insight_review_${i.id}`,
+        type: 'insight' as const,
+        message: `Insight ${i.status}: ${i.title}`,
+        timestamp: i.updatedAt,
+        priority: 'low' as const
+      })),
+      ...segments.map(s => ({
+        id: `segment_${s.id}`,
+        type: 'segment' as const,
+        message: `New segment "${s.segmentName}" created`,
+        timestamp: s.createdAt,
+        priority: 'low' as const
+      })),
+      ...amlCases.map(c => ({
+        id: `aml_${c.id}`,
+        type: 'compliance' as const,
+        message: `AML case opened for ${nameOf(c.customerId)}`,
+        timestamp: c.createdAt,
+        priority: 'high' as const
+      })),
+      ...kycEvents.map(e => ({
+        id: `kyc_${e.id}`,
+        type: 'compliance' as const,
+        message: `KYC ${e.toStatus.replace(/_/g, ' ')} for ${nameOf(e.customerId)}`,
+        timestamp: e.createdAt,
+        priority: e.toStatus === 'rejected' ? 'high' as const : 'medium' as const
+      })),
+      ...matches.map(m => ({
+        id: `screening_${m.id}`,
+        type: 'compliance' as const,
+        message: `Potential watchlist match for ${nameOf(m.customerId)}`,
+        timestamp: m.createdAt,
+        priority: 'high' as const
+      }))
+    ]
+
+    return items
+      .filter(item => item.timestamp)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, limit)
+  }
+}
+
+export default ActivityFeed
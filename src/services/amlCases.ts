@@ -0,0 +1,164 @@
+import { db, loadAll } from '../data'
+import type { AmlAlert, AmlCase, Customer, Transaction } from '../data'
+
+export const AML_CASE_STATUSES = ['open', 'investigating', 'escalated', 'sar_filed', 'closed'] as const
+export type AmlCaseStatus = typeof AML_CASE_STATUSES[number]
+
+export interface AmlCaseNote {
+  author: string
+  text: string
+  createdAt: string
+}
+
+export interface AmlCaseDetail {
+  amlCase: AmlCase
+  customer: Customer | null
+  alerts: AmlAlert[]
+  transactions: Transaction[]
+  notes: AmlCaseNote[]
+}
+
+/**
+ * Fields laid out along the FinCEN SAR sections so the export can be keyed
+ * straight into the filing
+ */
+export interface SarReport {
+  generatedAt: string
+  caseId: string
+  subject: {
+    name: string
+    customerNumber: string
+    dateOfBirth: string
+    address: string
+    email: string
+    phone: string
+  }
+  suspiciousActivity: {
+    dateRangeStart: string
+    dateRangeEnd: string
+    totalAmount: number
+    categories: string[]
+    alertCount: number
+  }
+  transactions: {
+    id: string
+    date: string
+    type: string
+    amount: number
+    channel: string
+    location: string
+    description: string
+  }[]
+  narrative: string
+}
+
+export class AmlCaseService {
+  static parseNotes(json: string | null | undefined): AmlCaseNote[] {
+    if (!json) return []
+    try {
+      const parsed = JSON.parse(json)
+      return Array.isArray(parsed) ? parsed : []
+    } catch {
+      return []
+    }
+  }
+
+  /**
+   * Case with its customer, alerts and the transactions the alerts point at
+   */
+  static async getCaseDetail(caseId: string): Promise<AmlCaseDetail | null> {
+    const amlCase = await db.amlCases.get(caseId)
+    if (!amlCase) return null
+
+    // Paged on id, so the display order is restored afterwards
+    const [customer, alerts] = await Promise.all([
+      db.customers.get(amlCase.customerId),
+      loadAll(db.amlAlerts, { where: { caseId } })
+    ])
+    alerts.sort((a, b) => a.windowStart.localeCompare(b.windowStart))
+
+    const transactionIds = Array.from(new Set(alerts.flatMap(alert => {
+      try {
+        return JSON.parse(alert.transactionIds) as string[]
+      } catch {
+        return []
+      }
+    })))
+    const transactions = transactionIds.length > 0
+      ? await loadAll(db.transactions, { where: { id: { in: transactionIds } } })
+      : []
+    transactions.sort((a, b) => a.transactionDate.localeCompare(b.transactionDate))
+
+    return { amlCase, customer, alerts, transactions, notes: this.parseNotes(amlCase.notes) }
+  }
+
+  /**
+   * Change status or assignee; closing or filing stamps closedAt and closes the alerts
+   */
+  static async updateCase(caseId: string, changes: { status?: AmlCaseStatus; assignee?: string }): Promise<AmlCase> {
+    const update: Partial<AmlCase> = { ...changes }
+    if (changes.status === 'closed' || changes.status === 'sar_filed') {
+      update.closedAt = new Date().toISOString()
+      const alerts = await loadAll(db.amlAlerts, { where: { caseId, status: 'open' } })
+      for (const alert of alerts) {
+        await db.amlAlerts.update(alert.id, { status: 'closed' })
+      }
+    }
+    return db.amlCases.update(caseId, update)
+  }
+
+  static async addNote(caseId: string, text: string, author: string): Promise<AmlCase | null> {
+    const amlCase = await db.amlCases.get(caseId)
+    if (!amlCase) return null
+
+    const notes = [...this.parseNotes(amlCase.notes), { author, text, createdAt: new Date().toISOString() }]
+    return db.amlCases.update(caseId, { notes: JSON.stringify(notes) })
+  }
+
+  /**
+   * Assemble a SAR-ready report from the case detail
+   */
+  static buildSarReport(detail: AmlCaseDetail): SarReport {
+    const { amlCase, customer, alerts, transactions, notes } = detail
+    const dates = transactions.map(t => t.transactionDate).sort()
+
+    const ruleSummary = Array.from(new Set(alerts.map(a => a.ruleName)))
+    const narrative = [
+      `Case ${amlCase.id} opened ${new Date(amlCase.openedAt).toLocaleDateString()} after ${alerts.length} monitoring alert(s): ${ruleSummary.join(', ')}.`,
+      ...alerts.map(a => `- ${a.ruleName}: ${a.description}`),
+      ...notes.map(n => `${new Date(n.createdAt).toLocaleDateString()} ${n.author}: ${n.text}`)
+    ].join('\n')
+
+    return {
+      generatedAt: new Date().toISOString(),
+      caseId: amlCase.id,
+      subject: {
+        name: customer ? `${customer.firstName} ${customer.lastName}` : 'Unknown',
+        customerNumber: customer?.customerNumber || '',
+        dateOfBirth: customer?.dateOfBirth || '',
+        address: customer ? `${customer.address}, ${customer.city}, ${customer.state} ${customer.zipCode}` : '',
+        email: customer?.email || '',
+        phone: customer?.phone || ''
+      },
+      suspiciousActivity: {
+        dateRangeStart: dates[0] || amlCase.openedAt,
+        dateRangeEnd: dates[dates.length - 1] || amlCase.openedAt,
+        totalAmount: transactions.reduce((sum, t) => sum + (t.amount || 0), 0),
+        categories: ruleSummary,
+        alertCount: alerts.length
+      },
+      transactions: transactions.map(t => ({
+        id: t.id,
+        date: t.transactionDate,
+        type: t.transactionType,
+        amount: t.amount,
+        channel: t.channel,
+        location: t.location,
+        description: t.description
+      })),
+      narrative
+    }
+  }
+}
+
+export default AmlCaseService
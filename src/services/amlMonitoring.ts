@@ -0,0 +1,452 @@
+import { db, loadAll, streamRecords } from '../data'
+import type { AmlAlert, AmlCase, DataUser, LoadProgress, Transaction } from '../data'
+
+export type AmlRuleId = 'structuring' | 'rapidMovement' | 'dormantReactivation' | 'roundAmounts'
+export type AmlSeverity = 'low' | 'medium' | 'high'
+
+export interface AmlRuleParameter {
+  key: string
+  label: string
+  value: number
+}
+
+export interface AmlRuleConfig {
+  id: AmlRuleId
+  name: string
+  description: string
+  severity: AmlSeverity
+  enabled: boolean
+  parameters: AmlRuleParameter[]
+}
+
+export interface AmlAlertCandidate {
+  ruleId: AmlRuleId
+  ruleName: string
+  severity: AmlSeverity
+  customerId: string
+  transactions: Transaction[]
+  description: string
+}
+
+export interface AmlScanResult {
+  customersScanned: number
+  transactionsScanned: number
+  alertsRaised: number
+  alertsUpdated: number // open alerts extended with new transactions
+  casesOpened: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const CONFIG_STORAGE_KEY = 'amlRuleConfig'
+
+const INCOMING_TYPES = ['credit']
+const OUTGOING_TYPES = ['debit', 'transfer', 'payment']
+const CLOSED_CASE_STATUSES = ['closed', 'sar_filed']
+const SEVERITY_RANK: Record<string, number> = { low: 1, medium: 2, high: 3 }
+
+export const DEFAULT_AML_RULES: AmlRuleConfig[] = [
+  {
+    id: 'structuring',
+    name: 'Structuring',
+    description: 'Several transactions just under the cash reporting threshold within a short window',
+    severity: 'high',
+    enabled: true,
+    parameters: [
+      { key: 'threshold', label: 'Reporting threshold ($)', value: 10000 },
+      { key: 'marginPercent', label: 'Band below threshold (%)', value: 10 },
+      { key: 'minCount', label: 'Minimum transactions', value: 3 },
+      { key: 'windowDays', label: 'Window (days)', value: 7 }
+    ]
+  },
+  {
+    id: 'rapidMovement',
+    name: 'Rapid in-and-out',
+    description: 'Funds received and moved out again almost in full within hours',
+    severity: 'high',
+    enabled: true,
+    parameters: [
+      { key: 'minIncoming', label: 'Minimum incoming ($)', value: 5000 },
+      { key: 'outflowPercent', label: 'Outflow of incoming (%)', value: 80 },
+      { key: 'windowHours', label: 'Window (hours)', value: 48 }
+    ]
+  },
+  {
+    id: 'dormantReactivation',
+    name: 'Dormant account reactivation',
+    description: 'Large volume shortly after a long period without activity',
+    severity: 'medium',
+    enabled: true,
+    parameters: [
+      { key: 'dormantDays', label: 'Dormant period (days)', value: 60 },
+      { key: 'minVolume', label: 'Volume after reactivation ($)', value: 10000 },
+      { key: 'windowDays', label: 'Window after reactivation (days)', value: 14 }
+    ]
+  },
+  {
+    id: 'roundAmounts',
+    name: 'Round-amount pattern',
+    description: 'Repeated transactions in exact round amounts',
+    severity: 'low',
+    enabled: true,
+    parameters: [
+      { key: 'roundTo', label: 'Round to ($)', value: 1000 },
+      { key: 'minAmount', label: 'Minimum amount ($)', value: 1000 },
+      { key: 'minCount', label: 'Minimum transactions', value: 4 },
+      { key: 'windowDays', label: 'Window (days)', value: 30 }
+    ]
+  }
+]
+
+export class AmlMonitor {
+  /**
+   * Rule configuration, with any analyst overrides saved in localStorage
+   */
+  static loadRules(): AmlRuleConfig[] {
+    let saved: Partial<AmlRuleConfig>[] = []
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(CONFIG_STORAGE_KEY) : null
+      saved = raw ? JSON.parse(raw) : []
+    } catch {
+      saved = []
+    }
+
+    return DEFAULT_AML_RULES.map(rule => {
+      const override = saved.find(r => r.id === rule.id)
+      if (!override) return { ...rule, parameters: rule.parameters.map(p => ({ ...p })) }
+      return {
+        ...rule,
+        enabled: override.enabled ?? rule.enabled,
+        severity: override.severity ?? rule.severity,
+        parameters: rule.parameters.map(p => ({
+          ...p,
+          value: override.parameters?.find(o => o.key === p.key)?.value ?? p.value
+        }))
+      }
+    })
+  }
+
+  static saveRules(rules: AmlRuleConfig[]): void {
+    try {
+      localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(rules.map(r => ({
+        id: r.id,
+        enabled: r.enabled,
+        severity: r.severity,
+        parameters: r.parameters.map(p => ({ key: p.key, value: p.value }))
+      }))))
+    } catch (error) {
+      console.error('Error saving AML rule configuration:', error)
+    }
+  }
+
+  /**
+   * Run every enabled rule over one customer's transactions
+   */
+  static evaluateCustomer(customerId: string, transactions: Transaction[], rules: AmlRuleConfig[]): AmlAlertCandidate[] {
+    const sorted = [...transactions].sort((a, b) => this.time(a) - this.time(b))
+    const candidates: AmlAlertCandidate[] = []
+
+    for (const rule of rules) {
+      if (!rule.enabled) continue
+      const params = Object.fromEntries(rule.parameters.map(p => [p.key, p.value]))
+      const matches = this.evaluateRule(rule.id, sorted, params)
+      for (const match of matches) {
+        candidates.push({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          severity: rule.severity,
+          customerId,
+          transactions: match.transactions,
+          description: match.description
+        })
+      }
+    }
+
+    return candidates
+  }
+
+  /**
+   * Evaluate the rules over the whole transactions table, store new alerts and
+   * roll them up into one open case per customer
+   */
+  static async scanAll(user: DataUser, onProgress?: (progress: LoadProgress) => void): Promise<AmlScanResult> {
+    const rules = this.loadRules()
+    const byCustomer = new Map<string, Transaction[]>()
+    let transactionsScanned = 0
+
+    for await (const page of streamRecords(db.transactions, { onProgress })) {
+      for (const transaction of page) {
+        transactionsScanned++
+        const list = byCustomer.get(transaction.customerId) || []
+        list.push(transaction)
+        byCustomer.set(transaction.customerId, list)
+      }
+    }
+
+    const [existingAlerts, existingCases] = await Promise.all([
+      loadAll(db.amlAlerts),
+      loadAll(db.amlCases)
+    ])
+    const alertsByRule = new Map<string, AmlAlert[]>()
+    for (const alert of existingAlerts) {
+      const key = `${alert.ruleId}:${alert.customerId}`
+      alertsByRule.set(key, [...(alertsByRule.get(key) || []), alert])
+    }
+    const casesById = new Map(existingCases.map(amlCase => [amlCase.id, amlCase]))
+    const openCases = new Map<string, AmlCase>()
+    for (const amlCase of existingCases) {
+      if (!CLOSED_CASE_STATUSES.includes(amlCase.status)) openCases.set(amlCase.customerId, amlCase)
+    }
+
+    const result: AmlScanResult = {
+      customersScanned: byCustomer.size,
+      transactionsScanned,
+      alertsRaised: 0,
+      alertsUpdated: 0,
+      casesOpened: 0
+    }
+
+    for (const [customerId, transactions] of byCustomer) {
+      // Candidates overlapping an alert for the same rule are the same activity,
+      // grown by a transaction or with its window slid: they extend the open
+      // alert instead of raising another one that counts it twice
+      const raised = new Map<AmlAlert, AmlAlertCandidate>()
+      const extended = new Map<string, { alert: AmlAlert; additions: Transaction[]; description: string }>()
+      for (const candidate of this.evaluateCustomer(customerId, transactions, rules)) {
+        const key = `${candidate.ruleId}:${customerId}`
+        const related = alertsByRule.get(key) || []
+        const overlapping = related.find(alert => {
+          const known = new Set(this.transactionIds(alert))
+          return candidate.transactions.some(t => known.has(t.id))
+        })
+
+        if (!overlapping) {
+          const pending = this.pendingAlert(candidate, user.id)
+          raised.set(pending, candidate)
+          alertsByRule.set(key, [...related, pending])
+          continue
+        }
+        if (overlapping.status !== 'open') continue
+
+        const known = new Set(this.transactionIds(overlapping))
+        const additions = candidate.transactions.filter(t => !known.has(t.id))
+        if (additions.length === 0) continue
+        const pending = raised.get(overlapping)
+        if (pending) {
+          pending.transactions = [...pending.transactions, ...additions].sort((a, b) => this.time(a) - this.time(b))
+        } else {
+          const update = extended.get(overlapping.id) || { alert: overlapping, additions: [], description: '' }
+          update.additions.push(...additions)
+          update.description = candidate.description
+          extended.set(overlapping.id, update)
+        }
+        overlapping.transactionIds = JSON.stringify([...known, ...additions.map(t => t.id)])
+      }
+      if (raised.size === 0 && extended.size === 0) continue
+
+      try {
+        for (const { alert, additions, description } of extended.values()) {
+          const addedAmount = additions.reduce((sum, t) => sum + (t.amount || 0), 0)
+          const dates = [alert.windowStart, alert.windowEnd, ...additions.map(t => t.transactionDate)].sort()
+          await db.amlAlerts.update(alert.id, {
+            description,
+            transactionIds: alert.transactionIds,
+            totalAmount: (alert.totalAmount || 0) + addedAmount,
+            windowStart: dates[0],
+            windowEnd: dates[dates.length - 1]
+          })
+          const alertCase = alert.caseId ? casesById.get(alert.caseId) : undefined
+          if (alertCase) {
+            const updatedCase = await db.amlCases.update(alertCase.id, {
+              totalAmount: (alertCase.totalAmount || 0) + addedAmount
+            })
+            casesById.set(updatedCase.id, updatedCase)
+            if (openCases.get(customerId)?.id === updatedCase.id) openCases.set(customerId, updatedCase)
+          }
+          result.alertsUpdated++
+        }
+        if (raised.size === 0) continue
+        const candidates = [...raised.values()]
+
+        let amlCase = openCases.get(customerId)
+        if (!amlCase) {
+          const now = new Date().toISOString()
+          amlCase = await db.amlCases.create({
+            id: `case_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            userId: user.id,
+            customerId,
+            title: `${candidates[0].ruleName} activity`,
+            status: 'open',
+            priority: 'low',
+            assignee: '',
+            notes: '[]',
+            alertCount: 0,
+            totalAmount: 0,
+            openedAt: now
+          })
+          openCases.set(customerId, amlCase)
+          result.casesOpened++
+        }
+
+        const caseId = amlCase.id
+        const alerts: Partial<AmlAlert>[] = candidates.map(candidate => ({
+          ...this.pendingAlert(candidate, user.id),
+          caseId
+        }))
+        await db.amlAlerts.createMany(alerts)
+
+        const priority = [amlCase.priority, ...candidates.map(c => c.severity)]
+          .reduce((highest, severity) => (SEVERITY_RANK[severity] || 0) > (SEVERITY_RANK[highest] || 0) ? severity : highest, 'low')
+        amlCase = await db.amlCases.update(amlCase.id, {
+          alertCount: (amlCase.alertCount || 0) + alerts.length,
+          totalAmount: (amlCase.totalAmount || 0) + alerts.reduce((sum, a) => sum + (a.totalAmount || 0), 0),
+          priority
+        })
+        casesById.set(amlCase.id, amlCase)
+        openCases.set(customerId, amlCase)
+        result.alertsRaised += alerts.length
+      } catch (error) {
+        console.error(`Error raising AML alerts for customer ${customerId}:`, error)
+      }
+    }
+
+    return result
+  }
+
+  private static evaluateRule(
+    ruleId: AmlRuleId,
+    transactions: Transaction[],
+    params: Record<string, number>
+  ): { transactions: Transaction[]; description: string }[] {
+    switch (ruleId) {
+      case 'structuring':
+        return this.structuring(transactions, params)
+      case 'rapidMovement':
+        return this.rapidMovement(transactions, params)
+      case 'dormantReactivation':
+        return this.dormantReactivation(transactions, params)
+      case 'roundAmounts':
+        return this.roundAmounts(transactions, params)
+      default:
+        return []
+    }
+  }
+
+  private static structuring(transactions: Transaction[], params: Record<string, number>) {
+    const floor = params.threshold * (1 - params.marginPercent / 100)
+    const nearThreshold = transactions.filter(t => t.amount >= floor && t.amount < params.threshold)
+    return this.clusters(nearThreshold, params.windowDays * DAY_MS, params.minCount).map(group => ({
+      transactions: group,
+      description: `${group.length} transactions between $${Math.round(floor).toLocaleString()} and $${params.threshold.toLocaleString()} within ${params.windowDays} days`
+    }))
+  }
+
+  private static rapidMovement(transactions: Transaction[], params: Record<string, number>) {
+    const matches: { transactions: Transaction[]; description: string }[] = []
+    const windowMs = params.windowHours * HOUR_MS
+
+    for (const incoming of transactions) {
+      if (!INCOMING_TYPES.includes(incoming.transactionType) || incoming.amount < params.minIncoming) continue
+      const start = this.time(incoming)
+      const outgoing = transactions.filter(t =>
+        OUTGOING_TYPES.includes(t.transactionType) && this.time(t) >= start && this.time(t) <= start + windowMs
+      )
+      const outflow = outgoing.reduce((sum, t) => sum + t.amount, 0)
+      if (outgoing.length > 0 && outflow >= incoming.amount * params.outflowPercent / 100) {
+        matches.push({
+          transactions: [incoming, ...outgoing],
+          description: `$${incoming.amount.toLocaleString()} received and $${Math.round(outflow).toLocaleString()} moved out within ${params.windowHours} hours`
+        })
+      }
+    }
+
+    return matches
+  }
+
+  private static dormantReactivation(transactions: Transaction[], params: Record<string, number>) {
+    const matches: { transactions: Transaction[]; description: string }[] = []
+
+    for (let i = 1; i < transactions.length; i++) {
+      const gapDays = (this.time(transactions[i]) - this.time(transactions[i - 1])) / DAY_MS
+      if (gapDays < params.dormantDays) continue
+
+      const reactivatedAt = this.time(transactions[i])
+      const burst = transactions.slice(i).filter(t => this.time(t) <= reactivatedAt + params.windowDays * DAY_MS)
+      const volume = burst.reduce((sum, t) => sum + t.amount, 0)
+      if (volume >= params.minVolume) {
+        matches.push({
+          transactions: burst,
+          description: `$${Math.round(volume).toLocaleString()} moved within ${params.windowDays} days of reactivation after ${Math.round(gapDays)} dormant days`
+        })
+      }
+    }
+
+    return matches
+  }
+
+  private static roundAmounts(transactions: Transaction[], params: Record<string, number>) {
+    const round = transactions.filter(t => t.amount >= params.minAmount && t.amount % params.roundTo === 0)
+    return this.clusters(round, params.windowDays * DAY_MS, params.minCount).map(group => ({
+      transactions: group,
+      description: `${group.length} transactions in exact multiples of $${params.roundTo.toLocaleString()} within ${params.windowDays} days`
+    }))
+  }
+
+  // Non-overlapping groups of at least minCount transactions that fit within the window
+  private static clusters(transactions: Transaction[], windowMs: number, minCount: number): Transaction[][] {
+    const groups: Transaction[][] = []
+    let start = 0
+    while (start < transactions.length) {
+      let end = start
+      while (end + 1 < transactions.length && this.time(transactions[end + 1]) - this.time(transactions[start]) <= windowMs) end++
+      if (end - start + 1 >= minCount) {
+        groups.push(transactions.slice(start, end + 1))
+        start = end + 1
+      } else {
+        start++
+      }
+    }
+    return groups
+  }
+
+  // Rule, customer and the transaction that starts the activity
+  private static alertKey(candidate: AmlAlertCandidate): string {
+    return `${candidate.ruleId}:${candidate.customerId}:${candidate.transactions[0].id}`
+  }
+
+  // The stored shape of a candidate, before it is assigned to a case
+  private static pendingAlert(candidate: AmlAlertCandidate, userId: string): AmlAlert {
+    const now = new Date().toISOString()
+    return {
+      id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId,
+      customerId: candidate.customerId,
+      alertKey: this.alertKey(candidate),
+      ruleId: candidate.ruleId,
+      ruleName: candidate.ruleName,
+      severity: candidate.severity,
+      description: candidate.description,
+      transactionIds: JSON.stringify(candidate.transactions.map(t => t.id)),
+      totalAmount: candidate.transactions.reduce((sum, t) => sum + (t.amount || 0), 0),
+      windowStart: candidate.transactions[0].transactionDate,
+      windowEnd: candidate.transactions[candidate.transactions.length - 1].transactionDate,
+      status: 'open',
+      createdAt: now,
+      updatedAt: now
+    }
+  }
+
+  private static transactionIds(alert: AmlAlert): string[] {
+    try {
+      return JSON.parse(alert.transactionIds || '[]')
+    } catch {
+      return []
+    }
+  }
+
+  private static time(transaction: Transaction): number {
+    return new Date(transaction.transactionDate).getTime()
+  }
+}
+
+export default AmlMonitor
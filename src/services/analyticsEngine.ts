@@ -0,0 +1,319 @@
+import { db, loadAll, reduceRecords } from '../data'
+import type { LoadProgress } from '../data'
+
+export type TimeRange = '1m' | '3m' | '6m' | '1y'
+export type Granularity = 'day' | 'week' | 'month'
+
+export interface AnalyticsWindow {
+  range: TimeRange
+  granularity: Granularity
+  periods: number
+  start: Date // start of the first bucket
+  previousStart: Date // start of the equally long window before it
+  previousEnd: Date // as far into the previous window as `end` is into the current one
+  end: Date
+}
+
+export interface PeriodBucket {
+  period: string // chart label
+  start: string
+  transactions: number
+  volume: number
+  customers: number // distinct customers transacting in the period
+}
+
+export interface KpiDelta {
+  current: number
+  previous: number
+  change: number | null // % vs the previous window, null when it had no data
+}
+
+export interface AnalyticsKpis {
+  transactions: KpiDelta
+  volume: KpiDelta
+  activeCustomers: KpiDelta
+  avgTransactionValue: KpiDelta
+}
+
+export interface ChannelStat {
+  channel: string
+  name: string
+  transactions: number
+  volume: number
+  share: number // % of volume
+  avgValue: number
+  color: string
+}
+
+export interface SegmentBehavior {
+  segment: string
+  customers: number
+  avgTransactions: number
+  avgBalance: number
+  satisfaction: number | null
+}
+
+export interface RiskLevelCount {
+  riskLevel: 'Low' | 'Medium' | 'High'
+  count: number
+  percentage: number
+}
+
+export interface RiskTrendPoint {
+  period: string
+  low: number
+  medium: number
+  high: number
+}
+
+export interface AnalyticsData {
+  window: AnalyticsWindow
+  trend: PeriodBucket[]
+  kpis: AnalyticsKpis
+  channels: ChannelStat[]
+  segments: SegmentBehavior[]
+  risk: RiskLevelCount[]
+  riskTrend: RiskTrendPoint[]
+}
+
+const RANGES: Record<TimeRange, { granularity: Granularity; periods: number }> = {
+  '1m': { granularity: 'day', periods: 30 },
+  '3m': { granularity: 'week', periods: 13 },
+  '6m': { granularity: 'month', periods: 6 },
+  '1y': { granularity: 'month', periods: 12 }
+}
+
+const CHANNELS: Record<string, { name: string; color: string }> = {
+  online: { name: 'Online Banking', color: '#3B82F6' },
+  mobile: { name: 'Mobile App', color: '#10B981' },
+  atm: { name: 'ATM', color: '#F59E0B' },
+  branch: { name: 'Branch', color: '#EF4444' },
+  phone: { name: 'Phone', color: '#8B5CF6' }
+}
+
+const HIGH_RISK_THRESHOLD = 0.7
+const LOW_RISK_THRESHOLD = 0.3
+const UNSEGMENTED = 'Unsegmented'
+
+function startOfPeriod(date: Date, granularity: Granularity): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  if (granularity === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7)) // Monday
+  if (granularity === 'month') start.setDate(1)
+  return start
+}
+
+function addPeriods(date: Date, granularity: Granularity, count: number): Date {
+  const next = new Date(date)
+  if (granularity === 'month') next.setMonth(next.getMonth() + count)
+  else next.setDate(next.getDate() + count * (granularity === 'week' ? 7 : 1))
+  return next
+}
+
+function periodLabel(date: Date, granularity: Granularity): string {
+  return granularity === 'month'
+    ? date.toLocaleDateString('en-US', { month: 'short' })
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+/**
+ * Whole periods ending with the current one: 30 days, 13 weeks, or 6/12 months
+ */
+export function analyticsWindow(range: TimeRange, now = new Date()): AnalyticsWindow {
+  const { granularity, periods } = RANGES[range]
+  const start = addPeriods(startOfPeriod(now, granularity), granularity, -(periods - 1))
+  const previousStart = addPeriods(start, granularity, -periods)
+  return {
+    range,
+    granularity,
+    periods,
+    start,
+    previousStart,
+    // The current period is still in progress, so compare like with like
+    previousEnd: new Date(previousStart.getTime() + (now.getTime() - start.getTime())),
+    end: now
+  }
+}
+
+export function kpiDelta(current: number, previous: number): KpiDelta {
+  return {
+    current,
+    previous,
+    change: previous > 0 ? Number((((current - previous) / previous) * 100).toFixed(1)) : null
+  }
+}
+
+const riskLevelOf = (score: number): RiskLevelCount['riskLevel'] =>
+  score > HIGH_RISK_THRESHOLD ? 'High' : score < LOW_RISK_THRESHOLD ? 'Low' : 'Medium'
+
+export class AnalyticsEngine {
+  /**
+   * Bucket transactions for the chosen window and compare each KPI with the
+   * window before it. Transactions are streamed, so only the current and
+   * previous windows are ever read.
+   */
+  static async load(range: TimeRange, onProgress?: (progress: LoadProgress) => void): Promise<AnalyticsData> {
+    const window = analyticsWindow(range)
+    const { granularity, periods } = window
+    const bucketStarts = Array.from({ length: periods }, (_, i) => addPeriods(window.start, granularity, i))
+    const bucketIndex = new Map(bucketStarts.map((start, i) => [start.getTime(), i]))
+    const windowStart = window.start.toISOString()
+
+    const [activity, segments] = await Promise.all([
+      reduceRecords(
+        db.transactions,
+        (acc, t) => {
+          const date = new Date(t.transactionDate)
+          const amount = Math.abs(t.amount || 0)
+          if (date < window.start) {
+            if (date >= window.previousEnd) return acc
+            acc.previous.count++
+            acc.previous.volume += amount
+            acc.previous.customers.add(t.customerId)
+            return acc
+          }
+
+          acc.current.count++
+          acc.current.volume += amount
+          acc.current.customers.add(t.customerId)
+          acc.perCustomer.set(t.customerId, (acc.perCustomer.get(t.customerId) || 0) + 1)
+
+          const bucket = acc.buckets[bucketIndex.get(startOfPeriod(date, granularity).getTime()) ?? -1]
+          if (bucket) {
+            bucket.transactions++
+            bucket.volume += amount
+            bucket.customers.add(t.customerId)
+          }
+
+          const channel = acc.channels.get(t.channel) || { transactions: 0, volume: 0 }
+          acc.channels.set(t.channel, { transactions: channel.transactions + 1, volume: channel.volume + amount })
+          return acc
+        },
+        {
+          current: { count: 0, volume: 0, customers: new Set<string>() },
+          previous: { count: 0, volume: 0, customers: new Set<string>() },
+          perCustomer: new Map<string, number>(),
+          buckets: bucketStarts.map(() => ({ transactions: 0, volume: 0, customers: new Set<string>() })),
+          channels: new Map<string, { transactions: number; volume: number }>()
+        },
+        { where: { transactionDate: { gte: window.previousStart.toISOString() } }, onProgress }
+      ),
+      db.customerSegments.list({ where: { isActive: 1 } })
+    ])
+
+    // Map customers to their active segments so behaviour can be grouped by them;
+    // segments overlap, so a customer counts towards each one it is assigned to
+    const segmentNames = new Map(segments.map(s => [s.id, s.segmentName]))
+    const assignments = segments.length > 0
+      ? await loadAll(db.customerSegmentAssignments, { where: { segmentId: { in: [...segmentNames.keys()] } } })
+      : []
+    const segmentsOf = new Map<string, Set<string>>()
+    for (const assignment of assignments) {
+      const names = segmentsOf.get(assignment.customerId) || new Set<string>()
+      names.add(segmentNames.get(assignment.segmentId) || UNSEGMENTED)
+      segmentsOf.set(assignment.customerId, names)
+    }
+    const segmentNamesOf = (customerId: string) => [...(segmentsOf.get(customerId) || [UNSEGMENTED])]
+
+    const [portfolio, satisfaction, assessments] = await Promise.all([
+      reduceRecords(
+        db.customers,
+        (acc, c) => {
+          for (const name of segmentNamesOf(c.id)) {
+            const group = acc.segments.get(name) || { customers: 0, transactions: 0, balance: 0 }
+            acc.segments.set(name, {
+              customers: group.customers + 1,
+              transactions: group.transactions + (activity.perCustomer.get(c.id) || 0),
+              balance: group.balance + (c.accountBalance || 0)
+            })
+          }
+          acc.risk[riskLevelOf(c.riskScore || 0)]++
+          acc.count++
+          return acc
+        },
+        {
+          count: 0,
+          segments: new Map<string, { customers: number; transactions: number; balance: number }>(),
+          risk: { Low: 0, Medium: 0, High: 0 } as Record<RiskLevelCount['riskLevel'], number>
+        }
+      ),
+      reduceRecords(
+        db.customerInteractions,
+        (acc, i) => {
+          if (!(i.satisfactionScore > 0)) return acc
+          for (const name of segmentNamesOf(i.customerId)) {
+            const group = acc.get(name) || { total: 0, count: 0 }
+            acc.set(name, { total: group.total + Number(i.satisfactionScore), count: group.count + 1 })
+          }
+          return acc
+        },
+        new Map<string, { total: number; count: number }>(),
+        { where: { interactionDate: { gte: windowStart } } }
+      ),
+      loadAll(db.riskAssessments, { where: { createdAt: { gte: windowStart } } })
+    ])
+
+    const trend: PeriodBucket[] = bucketStarts.map((start, i) => ({
+      period: periodLabel(start, granularity),
+      start: start.toISOString(),
+      transactions: activity.buckets[i].transactions,
+      volume: Math.round(activity.buckets[i].volume),
+      customers: activity.buckets[i].customers.size
+    }))
+
+    const { current, previous } = activity
+    const kpis: AnalyticsKpis = {
+      transactions: kpiDelta(current.count, previous.count),
+      volume: kpiDelta(current.volume, previous.volume),
+      activeCustomers: kpiDelta(current.customers.size, previous.customers.size),
+      avgTransactionValue: kpiDelta(
+        current.count > 0 ? current.volume / current.count : 0,
+        previous.count > 0 ? previous.volume / previous.count : 0
+      )
+    }
+
+    const channels: ChannelStat[] = [...activity.channels.entries()]
+      .map(([channel, stat]) => ({
+        channel,
+        name: CHANNELS[channel]?.name || channel,
+        transactions: stat.transactions,
+        volume: Math.round(stat.volume),
+        share: current.volume > 0 ? Number(((stat.volume / current.volume) * 100).toFixed(1)) : 0,
+        avgValue: Math.round(stat.volume / stat.transactions),
+        color: CHANNELS[channel]?.color || '#6B7280'
+      }))
+      .sort((a, b) => b.volume - a.volume)
+
+    const segmentBehavior: SegmentBehavior[] = [...portfolio.segments.entries()]
+      .map(([segment, group]) => {
+        const scores = satisfaction.get(segment)
+        return {
+          segment,
+          customers: group.customers,
+          avgTransactions: Number((group.transactions / group.customers).toFixed(1)),
+          avgBalance: Math.round(group.balance / group.customers),
+          satisfaction: scores ? Number((scores.total / scores.count).toFixed(1)) : null
+        }
+      })
+      .sort((a, b) => b.customers - a.customers)
+
+    const risk: RiskLevelCount[] = (['Low', 'Medium', 'High'] as const).map(riskLevel => ({
+      riskLevel,
+      count: portfolio.risk[riskLevel],
+      percentage: portfolio.count > 0 ? Number(((portfolio.risk[riskLevel] / portfolio.count) * 100).toFixed(1)) : 0
+    }))
+
+    // Assessments raised per period, with critical counted as high
+    const riskTrend: RiskTrendPoint[] = trend.map(bucket => ({ period: bucket.period, low: 0, medium: 0, high: 0 }))
+    for (const assessment of assessments) {
+      const point = riskTrend[bucketIndex.get(startOfPeriod(new Date(assessment.createdAt), granularity).getTime()) ?? -1]
+      if (!point) continue
+      if (assessment.riskLevel === 'low') point.low++
+      else if (assessment.riskLevel === 'medium') point.medium++
+      else point.high++
+    }
+
+    return { window, trend, kpis, channels, segments: segmentBehavior, risk, riskTrend }
+  }
+}
+
+export default AnalyticsEngine
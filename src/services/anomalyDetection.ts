@@ -0,0 +1,226 @@
+import { db, streamRecords } from '../data'
+import type { LoadProgress, Transaction } from '../data'
+
+export type AnomalySignal = 'amount' | 'velocity' | 'merchantCategory' | 'location' | 'channel'
+
+export interface AnomalyReason {
+  signal: AnomalySignal
+  description: string
+  strength: number // 0-1
+}
+
+export interface TransactionAnomaly {
+  transactionId: string
+  customerId: string
+  score: number // 0-1
+  flagged: boolean
+  reasons: AnomalyReason[]
+}
+
+export interface AnomalyScanResult {
+  customersScanned: number
+  transactionsScanned: number
+  flagged: number
+  updated: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export const ANOMALY_FLAG_THRESHOLD = 0.6
+
+// How much each signal can contribute on its own; combined with a noisy-OR
+const SIGNAL_WEIGHTS: Record<AnomalySignal, number> = {
+  amount: 0.9,
+  velocity: 0.7,
+  location: 0.6,
+  merchantCategory: 0.5,
+  channel: 0.4
+}
+
+// Below this many prior transactions a customer has no usable baseline
+const MIN_HISTORY = 5
+const RARE_SHARE = 0.05
+const HOME_LOCATION_SHARE = 0.3
+
+export class AnomalyDetector {
+  /**
+   * Score every transaction of one customer against the history that preceded it
+   */
+  static scoreCustomerTransactions(transactions: Transaction[]): TransactionAnomaly[] {
+    const sorted = [...transactions].sort(
+      (a, b) => new Date(a.transactionDate).getTime() - new Date(b.transactionDate).getTime()
+    )
+
+    return sorted.map((transaction, index) => {
+      // Only prior transactions form the baseline, so neither the transaction
+      // itself nor anything that happened after it can vouch for it
+      const history = sorted.slice(0, index)
+      const reasons = history.length >= MIN_HISTORY
+        ? [
+            this.amountSignal(transaction, history),
+            this.velocitySignal(transaction, sorted),
+            this.categorySignal(transaction, history),
+            this.locationSignal(transaction, history),
+            this.channelSignal(transaction, history)
+          ].filter((reason): reason is AnomalyReason => reason !== null)
+        : []
+
+      const score = 1 - reasons.reduce((product, r) => product * (1 - SIGNAL_WEIGHTS[r.signal] * r.strength), 1)
+
+      return {
+        transactionId: transaction.id,
+        customerId: transaction.customerId,
+        score: Math.round(score * 1000) / 1000,
+        flagged: score >= ANOMALY_FLAG_THRESHOLD,
+        reasons: reasons.sort((a, b) => SIGNAL_WEIGHTS[b.signal] * b.strength - SIGNAL_WEIGHTS[a.signal] * a.strength)
+      }
+    })
+  }
+
+  /**
+   * Scan the whole transactions table customer by customer and write back
+   * anomaly scores, reasons and the risk flag where they changed
+   */
+  static async scanAll(onProgress?: (progress: LoadProgress) => void): Promise<AnomalyScanResult> {
+    const byCustomer = new Map<string, Transaction[]>()
+    for await (const page of streamRecords(db.transactions, { onProgress })) {
+      for (const transaction of page) {
+        const list = byCustomer.get(transaction.customerId) || []
+        list.push(transaction)
+        byCustomer.set(transaction.customerId, list)
+      }
+    }
+
+    const result: AnomalyScanResult = { customersScanned: byCustomer.size, transactionsScanned: 0, flagged: 0, updated: 0 }
+
+    for (const transactions of byCustomer.values()) {
+      const current = new Map(transactions.map(t => [t.id, t]))
+      for (const anomaly of this.scoreCustomerTransactions(transactions)) {
+        result.transactionsScanned++
+        if (anomaly.flagged) result.flagged++
+
+        const existing = current.get(anomaly.transactionId)
+        const riskFlag = anomaly.flagged ? 1 : 0
+        const anomalyReasons = JSON.stringify(anomaly.reasons)
+        if (existing && existing.anomalyScore === anomaly.score && existing.riskFlag === riskFlag && existing.anomalyReasons === anomalyReasons) {
+          continue
+        }
+
+        try {
+          await db.transactions.update(anomaly.transactionId, { anomalyScore: anomaly.score, anomalyReasons, riskFlag })
+          result.updated++
+        } catch (error) {
+          console.error(`Error saving anomaly score for transaction ${anomaly.transactionId}:`, error)
+        }
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Parse reasons stored on a transaction row
+   */
+  static parseReasons(json: string | null | undefined): AnomalyReason[] {
+    if (!json) return []
+    try {
+      const parsed = JSON.parse(json)
+      return Array.isArray(parsed) ? parsed : []
+    } catch {
+      return []
+    }
+  }
+
+  // Robust z-score of log amount using median and MAD
+  private static amountSignal(transaction: Transaction, history: Transaction[]): AnomalyReason | null {
+    const logAmounts = history.map(t => Math.log1p(Math.abs(t.amount || 0)))
+    const median = this.median(logAmounts)
+    const mad = this.median(logAmounts.map(v => Math.abs(v - median))) * 1.4826 || 0.1
+    const z = (Math.log1p(Math.abs(transaction.amount || 0)) - median) / mad
+    if (z <= 2.5) return null
+
+    const typical = Math.expm1(median)
+    return {
+      signal: 'amount',
+      description: `Amount $${Math.round(transaction.amount).toLocaleString()} is ${z.toFixed(1)}σ above the customer's typical $${Math.round(typical).toLocaleString()}`,
+      strength: Math.min(1, (z - 2.5) / 2.5)
+    }
+  }
+
+  // Burst of transactions in the 24 hours up to this one compared with the usual daily rate
+  private static velocitySignal(transaction: Transaction, all: Transaction[]): AnomalyReason | null {
+    const time = new Date(transaction.transactionDate).getTime()
+    const times = all.map(t => new Date(t.transactionDate).getTime())
+    const inWindow = times.filter(t => t <= time && t > time - DAY_MS).length
+
+    const span = Math.max(DAY_MS, Math.max(...times) - Math.min(...times))
+    const dailyRate = all.length / (span / DAY_MS)
+    const expected = Math.max(3, dailyRate * 3)
+    if (inWindow <= expected) return null
+
+    return {
+      signal: 'velocity',
+      description: `${inWindow} transactions within 24 hours (usual rate ${dailyRate.toFixed(1)}/day)`,
+      strength: Math.min(1, (inWindow - expected) / expected)
+    }
+  }
+
+  private static categorySignal(transaction: Transaction, history: Transaction[]): AnomalyReason | null {
+    if (!transaction.merchantCategory) return null
+    const share = history.filter(t => t.merchantCategory === transaction.merchantCategory).length / history.length
+    if (share >= RARE_SHARE) return null
+
+    return {
+      signal: 'merchantCategory',
+      description: share === 0
+        ? `First transaction in merchant category "${transaction.merchantCategory}"`
+        : `Rarely used merchant category "${transaction.merchantCategory}" (${Math.round(share * 100)}% of history)`,
+      strength: share === 0 ? 1 : 0.5
+    }
+  }
+
+  // Only meaningful when the customer has an established home location
+  private static locationSignal(transaction: Transaction, history: Transaction[]): AnomalyReason | null {
+    if (!transaction.location) return null
+    const counts = this.shares(history.map(t => t.location).filter(Boolean))
+    const homeShare = Math.max(0, ...counts.values())
+    if (homeShare < HOME_LOCATION_SHARE || counts.has(transaction.location)) return null
+
+    return {
+      signal: 'location',
+      description: `New location ${transaction.location}`,
+      strength: Math.min(1, homeShare / 0.6)
+    }
+  }
+
+  private static channelSignal(transaction: Transaction, history: Transaction[]): AnomalyReason | null {
+    if (!transaction.channel) return null
+    const share = this.shares(history.map(t => t.channel)).get(transaction.channel) || 0
+    if (share >= RARE_SHARE) return null
+
+    return {
+      signal: 'channel',
+      description: share === 0
+        ? `First use of channel "${transaction.channel}"`
+        : `Off-channel usage via "${transaction.channel}" (${Math.round(share * 100)}% of history)`,
+      strength: share === 0 ? 1 : 0.5
+    }
+  }
+
+  private static shares(values: string[]): Map<string, number> {
+    const counts = new Map<string, number>()
+    for (const value of values) counts.set(value, (counts.get(value) || 0) + 1)
+    for (const [value, count] of counts) counts.set(value, count / (values.length || 1))
+    return counts
+  }
+
+  private static median(values: number[]): number {
+    if (values.length === 0) return 0
+    const sorted = [...values].sort((a, b) => a - b)
+    const mid = Math.floor(sorted.length / 2)
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+  }
+}
+
+export default AnomalyDetector
@@ -0,0 +1,288 @@
+import { db, loadAll } from '../data'
+import type { Transaction } from '../data'
+
+export interface MonthlyCashFlow {
+  month: string // chart label
+  start: string
+  inflow: number
+  outflow: number
+  net: number
+}
+
+export interface CategorySpend {
+  category: string
+  amount: number
+  share: number // % of outflow
+  count: number
+}
+
+export interface RecurringObligation {
+  category: string
+  averageAmount: number
+  occurrences: number
+  frequency: 'weekly' | 'monthly' | 'irregular'
+  monthlyCost: number
+  lastDate: string
+}
+
+export interface IncomeDetection {
+  detected: boolean
+  monthlyIncome: number // from the regular deposit stream, 0 when none was found
+  typicalDeposit: number
+  regularity: number // share of months in the window with a regular deposit, 0-1
+  occurrences: number
+}
+
+/**
+ * Flat numeric features for the scoring models
+ */
+export interface CashFlowFeatures {
+  avgMonthlyInflow: number
+  avgMonthlyOutflow: number
+  netSavingsRate: number // (inflow - outflow) / inflow, clamped to -1..1
+  recurringMonthlyCost: number
+  incomeRegularity: number
+  discretionaryShare: number // share of spend on discretionary categories, 0-1
+  outflowVolatility: number // coefficient of variation of monthly outflow
+}
+
+export interface CashFlowAnalysis {
+  months: MonthlyCashFlow[]
+  categoryMix: CategorySpend[]
+  recurring: RecurringObligation[]
+  income: IncomeDetection
+  totals: { inflow: number; outflow: number; net: number }
+  savingsRate: number | null // null without any inflow
+  features: CashFlowFeatures
+  transactionCount: number
+}
+
+export interface CashFlowOptions {
+  months?: number
+  asOf?: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_MONTHS = 6
+// Amounts within this fraction of each other are treated as the same payment
+const AMOUNT_TOLERANCE = 0.1
+// A deposit or payment pattern has to show up in this many distinct months
+const MIN_RECURRING_MONTHS = 3
+const DISCRETIONARY_CATEGORIES = ['restaurant', 'entertainment', 'travel', 'retail']
+
+const isInflow = (t: Transaction) => t.transactionType === 'credit'
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * First day of the earliest calendar month in the window
+ */
+export function cashFlowWindowStart(options: CashFlowOptions = {}): Date {
+  const monthCount = options.months || DEFAULT_MONTHS
+  const asOf = new Date(options.asOf ?? Date.now())
+  return new Date(asOf.getFullYear(), asOf.getMonth() - (monthCount - 1), 1)
+}
+
+/**
+ * Greedy clusters of similar amounts, so "the same payment every month"
+ * survives small variations
+ */
+function clusterByAmount<T extends { amount: number }>(items: T[]): T[][] {
+  const clusters: T[][] = []
+  for (const item of [...items].sort((a, b) => a.amount - b.amount)) {
+    const current = clusters[clusters.length - 1]
+    if (current && item.amount <= current[0].amount * (1 + AMOUNT_TOLERANCE)) current.push(item)
+    else clusters.push([item])
+  }
+  return clusters
+}
+
+function medianGapDays(dates: number[]): number {
+  const sorted = [...dates].sort((a, b) => a - b)
+  const gaps = sorted.slice(1).map((date, i) => (date - sorted[i]) / DAY_MS)
+  if (gaps.length === 0) return 0
+  gaps.sort((a, b) => a - b)
+  return gaps[Math.floor(gaps.length / 2)]
+}
+
+export class CashFlowAnalyzer {
+  /**
+   * Analyze a customer's transactions over the last few calendar months
+   */
+  static async forCustomer(customerId: string, options: CashFlowOptions = {}): Promise<CashFlowAnalysis> {
+    // Only the analysis window is read; analyze() ignores anything older
+    const transactions = await loadAll(db.transactions, {
+      where: { customerId, transactionDate: { gte: cashFlowWindowStart(options).toISOString() } }
+    })
+    return this.analyze(transactions, options)
+  }
+
+  /**
+   * Monthly flows, category mix, recurring obligations and income detection
+   * from a transaction history. Credits are inflows and every other type an
+   * outflow, as in the churn model.
+   */
+  static analyze(transactions: Transaction[], options: CashFlowOptions = {}): CashFlowAnalysis {
+    const monthCount = options.months || DEFAULT_MONTHS
+    const asOf = new Date(options.asOf ?? Date.now())
+    const windowStart = cashFlowWindowStart(options)
+
+    const months: MonthlyCashFlow[] = Array.from({ length: monthCount }, (_, i) => {
+      const start = new Date(windowStart.getFullYear(), windowStart.getMonth() + i, 1)
+      return {
+        month: start.toLocaleDateString('en-US', { month: 'short' }),
+        start: start.toISOString(),
+        inflow: 0,
+        outflow: 0,
+        net: 0
+      }
+    })
+    const monthIndex = new Map(months.map((m, i) => [monthKey(new Date(m.start)), i]))
+
+    const inWindow = transactions
+      .map(t => ({ transaction: t, date: new Date(t.transactionDate), amount: Math.abs(t.amount || 0) }))
+      .filter(t => t.date >= windowStart && t.date <= asOf)
+
+    const categories = new Map<string, { amount: number; count: number }>()
+    for (const { transaction, date, amount } of inWindow) {
+      const month = months[monthIndex.get(monthKey(date)) ?? -1]
+      if (!month) continue
+      if (isInflow(transaction)) {
+        month.inflow += amount
+      } else {
+        month.outflow += amount
+        const category = transaction.merchantCategory || 'other'
+        const spend = categories.get(category) || { amount: 0, count: 0 }
+        categories.set(category, { amount: spend.amount + amount, count: spend.count + 1 })
+      }
+    }
+    for (const month of months) {
+      month.inflow = round(month.inflow)
+      month.outflow = round(month.outflow)
+      month.net = round(month.inflow - month.outflow)
+    }
+
+    const inflow = months.reduce((sum, m) => sum + m.inflow, 0)
+    const outflow = months.reduce((sum, m) => sum + m.outflow, 0)
+
+    const categoryMix: CategorySpend[] = [...categories.entries()]
+      .map(([category, spend]) => ({
+        category,
+        amount: round(spend.amount),
+        share: outflow > 0 ? Number(((spend.amount / outflow) * 100).toFixed(1)) : 0,
+        count: spend.count
+      }))
+      .sort((a, b) => b.amount - a.amount)
+
+    const outflows = inWindow.filter(t => !isInflow(t.transaction))
+    const inflows = inWindow.filter(t => isInflow(t.transaction))
+    const recurring = this.recurringObligations(outflows, monthCount)
+    const income = this.detectIncome(inflows, monthCount)
+
+    const savingsRate = inflow > 0 ? (inflow - outflow) / inflow : null
+    const monthlyOutflows = months.map(m => m.outflow)
+    const meanOutflow = outflow / monthCount
+    const outflowStdDev = Math.sqrt(monthlyOutflows.reduce((sum, v) => sum + (v - meanOutflow) ** 2, 0) / monthCount)
+    const discretionary = categoryMix
+      .filter(c => DISCRETIONARY_CATEGORIES.includes(c.category))
+      .reduce((sum, c) => sum + c.amount, 0)
+
+    return {
+      months,
+      categoryMix,
+      recurring,
+      income,
+      totals: { inflow: round(inflow), outflow: round(outflow), net: round(inflow - outflow) },
+      savingsRate,
+      features: {
+        avgMonthlyInflow: round(inflow / monthCount),
+        avgMonthlyOutflow: round(meanOutflow),
+        // Spending with nothing coming in is the worst case, not missing data
+        netSavingsRate: savingsRate !== null ? Math.max(-1, Math.min(1, savingsRate)) : outflow > 0 ? -1 : 0,
+        recurringMonthlyCost: round(recurring.reduce((sum, r) => sum + r.monthlyCost, 0)),
+        incomeRegularity: income.regularity,
+        discretionaryShare: outflow > 0 ? discretionary / outflow : 0,
+        outflowVolatility: meanOutflow > 0 ? outflowStdDev / meanOutflow : 0
+      },
+      transactionCount: inWindow.length
+    }
+  }
+
+  /**
+   * Payments flagged as recurring, plus unflagged ones that repeat at a similar
+   * amount in the same category across several months
+   */
+  private static recurringObligations(
+    outflows: { transaction: Transaction; date: Date; amount: number }[],
+    monthCount: number
+  ): RecurringObligation[] {
+    const byCategory = new Map<string, typeof outflows>()
+    for (const outflow of outflows) {
+      const category = outflow.transaction.merchantCategory || 'other'
+      const items = byCategory.get(category)
+      if (items) items.push(outflow)
+      else byCategory.set(category, [outflow])
+    }
+
+    const obligations: RecurringObligation[] = []
+    for (const [category, items] of byCategory) {
+      const flagged = items.filter(i => i.transaction.isRecurring)
+      const patterns = clusterByAmount(items.filter(i => !i.transaction.isRecurring))
+        .filter(cluster => new Set(cluster.map(i => monthKey(i.date))).size >= MIN_RECURRING_MONTHS)
+
+      for (const group of [flagged, ...patterns]) {
+        if (group.length === 0) continue
+        const total = group.reduce((sum, i) => sum + i.amount, 0)
+        const gap = medianGapDays(group.map(i => i.date.getTime()))
+        obligations.push({
+          category,
+          averageAmount: round(total / group.length),
+          occurrences: group.length,
+          frequency: gap > 0 && gap <= 10 ? 'weekly' : gap >= 20 && gap <= 40 ? 'monthly' : 'irregular',
+          monthlyCost: round(total / monthCount),
+          lastDate: new Date(Math.max(...group.map(i => i.date.getTime()))).toISOString()
+        })
+      }
+    }
+
+    return obligations.sort((a, b) => b.monthlyCost - a.monthlyCost)
+  }
+
+  /**
+   * The deposit stream that recurs at a similar amount in the most months,
+   * e.g. a salary. Detected when it shows up in at least half the window.
+   */
+  private static detectIncome(
+    inflows: { transaction: Transaction; date: Date; amount: number }[],
+    monthCount: number
+  ): IncomeDetection {
+    const best = clusterByAmount(inflows)
+      .map(cluster => ({ cluster, months: new Set(cluster.map(i => monthKey(i.date))).size }))
+      .sort((a, b) =>
+        b.months - a.months ||
+        b.cluster.reduce((sum, i) => sum + i.amount, 0) - a.cluster.reduce((sum, i) => sum + i.amount, 0)
+      )[0]
+
+    const requiredMonths = Math.max(2, Math.ceil(monthCount / 2))
+    if (!best || best.months < requiredMonths) {
+      return {
+        detected: false,
+        monthlyIncome: 0,
+        typicalDeposit: 0,
+        regularity: best ? best.months / monthCount : 0,
+        occurrences: best?.cluster.length || 0
+      }
+    }
+
+    const total = best.cluster.reduce((sum, i) => sum + i.amount, 0)
+    return {
+      detected: true,
+      monthlyIncome: round(total / monthCount),
+      typicalDeposit: round(total / best.cluster.length),
+      regularity: best.months / monthCount,
+      occurrences: best.cluster.length
+    }
+  }
+}
+
+export default CashFlowAnalyzer
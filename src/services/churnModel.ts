@@ -0,0 +1,416 @@
+import { db, loadAll } from '../data'
+import type { ChurnPredictionRecord, Customer, CustomerInteraction, DataUser, Transaction } from '../data'
+import { CashFlowAnalyzer } from './cashFlow'
+
+export type ChurnFeature =
+  | 'daysSinceLastTransaction'
+  | 'transactionTrend'
+  | 'complaintCount'
+  | 'balanceChange'
+  | 'tenureMonths'
+  | 'netSavingsRate'
+  | 'incomeRegularity'
+
+export const CHURN_FEATURES: { feature: ChurnFeature; label: string }[] = [
+  { feature: 'daysSinceLastTransaction', label: 'Days since last transaction' },
+  { feature: 'transactionTrend', label: 'Transaction trend (log ratio, last 30d vs prior 30d)' },
+  { feature: 'complaintCount', label: 'Complaints in last 180 days' },
+  { feature: 'balanceChange', label: 'Net flow in last 60 days relative to balance' },
+  { feature: 'tenureMonths', label: 'Tenure (months)' },
+  { feature: 'netSavingsRate', label: 'Net savings rate, last 3 months' },
+  { feature: 'incomeRegularity', label: 'Share of last 3 months with a regular deposit' }
+]
+
+export interface ChurnDriver {
+  feature: ChurnFeature
+  label: string
+  value: number
+  contribution: number // log-odds added to the baseline
+}
+
+export interface ChurnPrediction {
+  customerId: string
+  probability: number
+  riskLevel: 'low' | 'medium' | 'high'
+  drivers: ChurnDriver[]
+}
+
+export interface ChurnModelSummary {
+  weights: Record<ChurnFeature, number> // per standardized feature
+  intercept: number
+  means: Record<ChurnFeature, number>
+  stdDevs: Record<ChurnFeature, number>
+  trainingSize: number
+  churnRate: number
+  auc: number | null // on the holdout split
+  brierScore: number | null
+  usedFallback: boolean
+  trainedAt: string
+}
+
+export interface ChurnScoring {
+  model: ChurnModelSummary
+  predictions: Map<string, ChurnPrediction>
+}
+
+type FeatureVector = Record<ChurnFeature, number>
+
+interface CustomerHistory {
+  transactions: Transaction[]
+  interactions: CustomerInteraction[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// A customer counts as churned when inactive or silent for this long after the training cut-off
+const OBSERVATION_WINDOW_DAYS = 30
+const MIN_TRAINING_SAMPLES = 30
+const LEARNING_RATE = 0.1
+const ITERATIONS = 500
+const L2_PENALTY = 0.01
+
+// Log-odds per standard deviation used when there is too little labelled history to train on
+const FALLBACK_WEIGHTS: FeatureVector = {
+  daysSinceLastTransaction: 0.9,
+  transactionTrend: -0.6,
+  complaintCount: 0.7,
+  balanceChange: -0.5,
+  tenureMonths: -0.3,
+  netSavingsRate: -0.3,
+  incomeRegularity: -0.5 // salary moving elsewhere often precedes closing the account
+}
+const FALLBACK_INTERCEPT = -2.2 // roughly a 10% base churn rate
+
+// Stored predictions are refreshed this often, or on demand
+const RETRAIN_INTERVAL_DAYS = 7
+const PREDICTION_BATCH_SIZE = 50
+
+// The retrain in progress, shared so overlapping triggers store a single run
+let retraining: Promise<ChurnScoring> | null = null
+
+export class ChurnModel {
+  /**
+   * Train on the current book and score every customer
+   */
+  static async predictAll(customers?: Customer[]): Promise<ChurnScoring> {
+    const [allCustomers, transactions, interactions] = await Promise.all([
+      customers ? Promise.resolve(customers) : loadAll(db.customers),
+      loadAll(db.transactions),
+      loadAll(db.customerInteractions)
+    ])
+
+    const histories = this.groupHistories(transactions, interactions)
+    const now = Date.now()
+    const model = this.train(allCustomers, histories, now)
+
+    const predictions = new Map<string, ChurnPrediction>()
+    for (const customer of allCustomers) {
+      const features = this.extractFeatures(customer, histories.get(customer.id), now)
+      predictions.set(customer.id, this.predict(model, customer.id, features))
+    }
+
+    return { model, predictions }
+  }
+
+  /**
+   * Train, score every customer and store the model with its predictions.
+   * Only the newest run keeps predictions; older runs remain as model history.
+   * A call made while a retrain is running waits for that one instead.
+   */
+  static retrain(user: DataUser): Promise<ChurnScoring> {
+    if (!retraining) {
+      retraining = this.trainAndStore(user).finally(() => { retraining = null })
+    }
+    return retraining
+  }
+
+  private static async trainAndStore(user: DataUser): Promise<ChurnScoring> {
+    const scoring = await this.predictAll()
+    const runId = `churn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+    await db.churnModelRuns.create({
+      id: runId,
+      userId: user.id,
+      model: JSON.stringify(scoring.model),
+      trainingSize: scoring.model.trainingSize,
+      customerCount: scoring.predictions.size,
+      auc: scoring.model.auc ?? undefined,
+      usedFallback: scoring.model.usedFallback ? 1 : 0,
+      trainedAt: scoring.model.trainedAt
+    })
+
+    const records: Partial<ChurnPredictionRecord>[] = [...scoring.predictions.values()].map(prediction => ({
+      id: `churnpred_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: user.id,
+      runId,
+      customerId: prediction.customerId,
+      probability: prediction.probability,
+      riskLevel: prediction.riskLevel,
+      drivers: JSON.stringify(prediction.drivers)
+    }))
+    for (let i = 0; i < records.length; i += PREDICTION_BATCH_SIZE) {
+      await db.churnPredictions.createMany(records.slice(i, i + PREDICTION_BATCH_SIZE))
+    }
+    await db.churnPredictions.deleteMany({ where: { runId: { neq: runId } } })
+
+    return scoring
+  }
+
+  /**
+   * Retrain when there is no stored model yet or the latest one is due
+   */
+  static async retrainIfDue(user: DataUser): Promise<boolean> {
+    const [run] = await db.churnModelRuns.list({ orderBy: { trainedAt: 'desc' }, limit: 1 })
+    if (retraining) return false
+    if (run && Date.now() - new Date(run.trainedAt).getTime() < RETRAIN_INTERVAL_DAYS * DAY_MS) return false
+    await this.retrain(user)
+    return true
+  }
+
+  /**
+   * The latest stored model and its predictions, without retraining; null
+   * until a model has been trained
+   */
+  static async loadLatest(): Promise<ChurnScoring | null> {
+    const [run] = await db.churnModelRuns.list({ orderBy: { trainedAt: 'desc' }, limit: 1 })
+    if (!run) return null
+
+    const records = await loadAll(db.churnPredictions, { where: { runId: run.id } })
+    const predictions = new Map<string, ChurnPrediction>()
+    for (const record of records) {
+      predictions.set(record.customerId, {
+        customerId: record.customerId,
+        probability: record.probability,
+        riskLevel: record.riskLevel as ChurnPrediction['riskLevel'],
+        drivers: JSON.parse(record.drivers || '[]')
+      })
+    }
+    return { model: JSON.parse(run.model), predictions }
+  }
+
+  /**
+   * Fit an L2-regularised logistic regression. Features are taken as of a cut-off
+   * OBSERVATION_WINDOW_DAYS ago and the label is whether the customer went quiet
+   * (or was closed) after it, so the model never sees the outcome it predicts.
+   */
+  static train(customers: Customer[], histories: Map<string, CustomerHistory>, now: number = Date.now()): ChurnModelSummary {
+    const cutoff = now - OBSERVATION_WINDOW_DAYS * DAY_MS
+    const samples = customers
+      .filter(c => !c.accountOpenedDate || new Date(c.accountOpenedDate).getTime() <= cutoff)
+      .map(customer => {
+        const history = histories.get(customer.id)
+        const activeAfterCutoff = (history?.transactions || []).some(t => new Date(t.transactionDate).getTime() > cutoff)
+        return {
+          id: customer.id,
+          features: this.extractFeatures(customer, history, cutoff),
+          label: customer.isActive === 0 || !activeAfterCutoff ? 1 : 0
+        }
+      })
+
+    const churnRate = samples.length > 0 ? samples.reduce((sum, s) => sum + s.label, 0) / samples.length : 0
+    const { means, stdDevs } = this.featureStats(samples.map(s => s.features))
+    const trainedAt = new Date(now).toISOString()
+
+    const hasBothClasses = churnRate > 0 && churnRate < 1
+    if (samples.length < MIN_TRAINING_SAMPLES || !hasBothClasses) {
+      return {
+        weights: { ...FALLBACK_WEIGHTS },
+        intercept: FALLBACK_INTERCEPT,
+        means,
+        stdDevs,
+        trainingSize: samples.length,
+        churnRate,
+        auc: null,
+        brierScore: null,
+        usedFallback: true,
+        trainedAt
+      }
+    }
+
+    // Deterministic 80/20 split so repeated runs give the same model
+    const holdout = samples.filter((_, i) => i % 5 === 4)
+    const training = samples.filter((_, i) => i % 5 !== 4)
+
+    const standardize = (features: FeatureVector) =>
+      CHURN_FEATURES.map(({ feature }) => (features[feature] - means[feature]) / stdDevs[feature])
+    const x = training.map(s => standardize(s.features))
+    const y = training.map(s => s.label)
+
+    const weights = new Array<number>(CHURN_FEATURES.length).fill(0)
+    let intercept = Math.log(churnRate / (1 - churnRate))
+
+    for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+      const gradient = new Array<number>(weights.length).fill(0)
+      let interceptGradient = 0
+      for (let i = 0; i < x.length; i++) {
+        const error = this.sigmoid(intercept + this.dot(weights, x[i])) - y[i]
+        interceptGradient += error
+        for (let j = 0; j < weights.length; j++) gradient[j] += error * x[i][j]
+      }
+      intercept -= LEARNING_RATE * interceptGradient / x.length
+      for (let j = 0; j < weights.length; j++) {
+        weights[j] -= LEARNING_RATE * (gradient[j] / x.length + L2_PENALTY * weights[j])
+      }
+    }
+
+    const weightMap = {} as FeatureVector
+    CHURN_FEATURES.forEach(({ feature }, j) => {
+      weightMap[feature] = weights[j]
+    })
+
+    const holdoutScores = holdout.map(s => ({
+      probability: this.sigmoid(intercept + this.dot(weights, standardize(s.features))),
+      label: s.label
+    }))
+
+    return {
+      weights: weightMap,
+      intercept,
+      means,
+      stdDevs,
+      trainingSize: training.length,
+      churnRate,
+      auc: this.auc(holdoutScores),
+      brierScore: holdoutScores.length > 0
+        ? holdoutScores.reduce((sum, s) => sum + (s.probability - s.label) ** 2, 0) / holdoutScores.length
+        : null,
+      usedFallback: false,
+      trainedAt
+    }
+  }
+
+  /**
+   * Churn probability with the features that push it up the most
+   */
+  static predict(model: ChurnModelSummary, customerId: string, features: FeatureVector): ChurnPrediction {
+    const contributions = CHURN_FEATURES.map(({ feature, label }) => ({
+      feature,
+      label,
+      value: features[feature],
+      contribution: model.weights[feature] * (features[feature] - model.means[feature]) / model.stdDevs[feature]
+    }))
+
+    const logOdds = contributions.reduce((sum, c) => sum + c.contribution, model.intercept)
+    const probability = this.sigmoid(logOdds)
+
+    return {
+      customerId,
+      probability,
+      riskLevel: probability >= 0.5 ? 'high' : probability >= 0.25 ? 'medium' : 'low',
+      drivers: contributions
+        .filter(c => c.contribution > 0)
+        .sort((a, b) => b.contribution - a.contribution)
+        .slice(0, 3)
+    }
+  }
+
+  /**
+   * Behavioural features as of a point in time, using only history before it
+   */
+  static extractFeatures(customer: Customer, history: CustomerHistory | undefined, asOf: number = Date.now()): FeatureVector {
+    const transactions = (history?.transactions || [])
+      .map(t => ({ time: new Date(t.transactionDate).getTime(), transaction: t }))
+      .filter(t => t.time <= asOf)
+    const interactions = (history?.interactions || [])
+      .filter(i => new Date(i.interactionDate).getTime() <= asOf)
+
+    let lastActivity = transactions.reduce((latest, t) => Math.max(latest, t.time), 0)
+    const recordedLast = customer.lastTransactionDate ? new Date(customer.lastTransactionDate).getTime() : 0
+    if (recordedLast <= asOf) lastActivity = Math.max(lastActivity, recordedLast)
+    const daysSinceLastTransaction = lastActivity > 0 ? Math.min(365, (asOf - lastActivity) / DAY_MS) : 365
+
+    const recent = transactions.filter(t => t.time > asOf - 30 * DAY_MS).length
+    const prior = transactions.filter(t => t.time > asOf - 60 * DAY_MS && t.time <= asOf - 30 * DAY_MS).length
+
+    const complaintCount = interactions.filter(i =>
+      i.interactionType === 'complaint' && new Date(i.interactionDate).getTime() > asOf - 180 * DAY_MS
+    ).length
+
+    const netFlow = transactions
+      .filter(t => t.time > asOf - 60 * DAY_MS)
+      .reduce((sum, t) => sum + (t.transaction.transactionType === 'credit' ? 1 : -1) * (t.transaction.amount || 0), 0)
+    const balanceChange = Math.max(-2, Math.min(2, netFlow / ((customer.accountBalance || 0) + 1)))
+
+    const opened = customer.accountOpenedDate ? new Date(customer.accountOpenedDate).getTime() : asOf
+    const tenureMonths = Math.max(0, (asOf - opened) / (30 * DAY_MS))
+
+    const cashFlow = CashFlowAnalyzer.analyze(transactions.map(t => t.transaction), { months: 3, asOf }).features
+
+    return {
+      daysSinceLastTransaction,
+      transactionTrend: Math.log((recent + 1) / (prior + 1)),
+      complaintCount,
+      balanceChange,
+      tenureMonths,
+      netSavingsRate: cashFlow.netSavingsRate,
+      incomeRegularity: cashFlow.incomeRegularity
+    }
+  }
+
+  /**
+   * Predictions keyed for SegmentCriteriaEngine so `churnProbability` can be used in segment rules
+   */
+  static toCriteriaFields(predictions: Map<string, ChurnPrediction>): Map<string, Record<string, unknown>> {
+    const fields = new Map<string, Record<string, unknown>>()
+    for (const [customerId, prediction] of predictions) {
+      fields.set(customerId, { churnProbability: prediction.probability })
+    }
+    return fields
+  }
+
+  private static groupHistories(transactions: Transaction[], interactions: CustomerInteraction[]): Map<string, CustomerHistory> {
+    const histories = new Map<string, CustomerHistory>()
+    const historyFor = (customerId: string) => {
+      let history = histories.get(customerId)
+      if (!history) {
+        history = { transactions: [], interactions: [] }
+        histories.set(customerId, history)
+      }
+      return history
+    }
+    for (const transaction of transactions) historyFor(transaction.customerId).transactions.push(transaction)
+    for (const interaction of interactions) historyFor(interaction.customerId).interactions.push(interaction)
+    return histories
+  }
+
+  private static featureStats(vectors: FeatureVector[]): { means: FeatureVector; stdDevs: FeatureVector } {
+    const means = {} as FeatureVector
+    const stdDevs = {} as FeatureVector
+    for (const { feature } of CHURN_FEATURES) {
+      const values = vectors.map(v => v[feature])
+      const mean = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0
+      const variance = values.length > 0 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length : 0
+      means[feature] = mean
+      stdDevs[feature] = Math.sqrt(variance) || 1
+    }
+    return { means, stdDevs }
+  }
+
+  // Rank-based AUC; null when the holdout has a single class
+  private static auc(scores: { probability: number; label: number }[]): number | null {
+    const positives = scores.filter(s => s.label === 1)
+    const negatives = scores.filter(s => s.label === 0)
+    if (positives.length === 0 || negatives.length === 0) return null
+
+    let wins = 0
+    for (const p of positives) {
+      for (const n of negatives) {
+        if (p.probability > n.probability) wins += 1
+        else if (p.probability === n.probability) wins += 0.5
+      }
+    }
+    return wins / (positives.length * negatives.length)
+  }
+
+  private static sigmoid(z: number): number {
+    return 1 / (1 + Math.exp(-z))
+  }
+
+  private static dot(a: number[], b: number[]): number {
+    let sum = 0
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+    return sum
+  }
+}
+
+export default ChurnModel
@@ -0,0 +1,293 @@
+import type { CustomerData } from './mlEngine'
+
+export type CustomerFeature = Exclude<keyof CustomerData, 'id'>
+
+export const CLUSTER_FEATURES: CustomerFeature[] = [
+  'accountBalance',
+  'creditScore',
+  'annualIncome',
+  'transactionCount',
+  'avgMonthlyBalance',
+  'riskScore',
+  'customerLifetimeValue',
+  'accountAge',
+  'lastTransactionDays'
+]
+
+// Monetary features are heavily right-skewed, so they are log-scaled before standardization
+const LOG_FEATURES: CustomerFeature[] = ['accountBalance', 'annualIncome', 'avgMonthlyBalance', 'customerLifetimeValue']
+
+export interface ClusteringOptions {
+  k?: number // fixed cluster count; when omitted k is chosen by silhouette over kRange
+  kRange?: [number, number]
+  maxIterations?: number
+  tolerance?: number
+  seed?: number
+  silhouetteSampleSize?: number
+}
+
+export interface KMeansResult {
+  assignments: number[]
+  centroids: number[][]
+  inertia: number
+  iterations: number
+}
+
+export interface CustomerCluster {
+  index: number
+  members: CustomerData[]
+  centroid: Record<CustomerFeature, number> // feature means in original units
+  profile: Record<CustomerFeature, number> // centroid in standardized units (z-scores)
+}
+
+export interface ClusteringDiagnostics {
+  k: number
+  inertia: number
+  iterations: number
+  silhouette: number
+  elbow: { k: number; inertia: number; silhouette: number }[]
+}
+
+export interface CustomerClustering {
+  clusters: CustomerCluster[]
+  diagnostics: ClusteringDiagnostics
+}
+
+export const DEFAULT_CLUSTERING_OPTIONS = {
+  kRange: [4, 6] as [number, number], // matches the 4-6 segments marketing works with
+  maxIterations: 100,
+  tolerance: 1e-4,
+  seed: 42,
+  silhouetteSampleSize: 500
+}
+
+export class ClusteringEngine {
+  /**
+   * Cluster customers with k-means over standardized features so every customer
+   * lands in exactly one cluster
+   */
+  static clusterCustomers(customers: CustomerData[], options: ClusteringOptions = {}): CustomerClustering {
+    const settings = { ...DEFAULT_CLUSTERING_OPTIONS, ...options }
+    const { data } = this.standardize(customers.map(c => this.featureVector(c)))
+
+    const maxK = Math.max(1, Math.min(settings.kRange[1], customers.length))
+    const minK = Math.min(Math.max(2, settings.kRange[0]), maxK)
+    const candidates = options.k
+      ? [Math.max(1, Math.min(options.k, customers.length))]
+      : Array.from({ length: maxK - minK + 1 }, (_, i) => minK + i)
+
+    const elbow: ClusteringDiagnostics['elbow'] = []
+    let best: { result: KMeansResult; silhouette: number } | null = null
+
+    for (const k of candidates) {
+      const result = this.kMeans(data, k, settings)
+      const silhouette = this.silhouetteScore(data, result.assignments, settings.silhouetteSampleSize, settings.seed)
+      elbow.push({ k, inertia: result.inertia, silhouette })
+      if (!best || silhouette > best.silhouette) best = { result, silhouette }
+    }
+
+    if (!best) {
+      return { clusters: [], diagnostics: { k: 0, inertia: 0, iterations: 0, silhouette: 0, elbow } }
+    }
+
+    const clusters = best.result.centroids.map((_, index) => {
+      const memberIndexes = best.result.assignments
+        .map((cluster, i) => (cluster === index ? i : -1))
+        .filter(i => i >= 0)
+      const members = memberIndexes.map(i => customers[i])
+
+      const centroid = {} as Record<CustomerFeature, number>
+      const profile = {} as Record<CustomerFeature, number>
+      CLUSTER_FEATURES.forEach((feature, f) => {
+        centroid[feature] = members.reduce((sum, c) => sum + (c[feature] || 0), 0) / (members.length || 1)
+        profile[feature] = memberIndexes.reduce((sum, i) => sum + data[i][f], 0) / (memberIndexes.length || 1)
+      })
+
+      return { index, members, centroid, profile }
+    }).filter(cluster => cluster.members.length > 0)
+
+    return {
+      clusters,
+      diagnostics: {
+        k: clusters.length,
+        inertia: best.result.inertia,
+        iterations: best.result.iterations,
+        silhouette: best.silhouette,
+        elbow
+      }
+    }
+  }
+
+  /**
+   * Scale each column to zero mean and unit variance
+   */
+  static standardize(matrix: number[][]): { data: number[][]; means: number[]; stdDevs: number[] } {
+    if (matrix.length === 0) return { data: [], means: [], stdDevs: [] }
+    const dims = matrix[0].length
+    const means = Array.from({ length: dims }, (_, d) => matrix.reduce((sum, row) => sum + row[d], 0) / matrix.length)
+    const stdDevs = means.map((mean, d) => {
+      const variance = matrix.reduce((sum, row) => sum + (row[d] - mean) ** 2, 0) / matrix.length
+      return Math.sqrt(variance) || 1
+    })
+    const data = matrix.map(row => row.map((value, d) => (value - means[d]) / stdDevs[d]))
+    return { data, means, stdDevs }
+  }
+
+  /**
+   * Lloyd's k-means with k-means++ seeding and a seeded RNG for reproducible runs
+   */
+  static kMeans(
+    data: number[][],
+    k: number,
+    options: { maxIterations?: number; tolerance?: number; seed?: number } = {}
+  ): KMeansResult {
+    const maxIterations = options.maxIterations ?? DEFAULT_CLUSTERING_OPTIONS.maxIterations
+    const tolerance = options.tolerance ?? DEFAULT_CLUSTERING_OPTIONS.tolerance
+    const random = this.createRandom(options.seed ?? DEFAULT_CLUSTERING_OPTIONS.seed)
+
+    if (data.length === 0 || k <= 0) return { assignments: [], centroids: [], inertia: 0, iterations: 0 }
+
+    let centroids = this.initializeCentroids(data, Math.min(k, data.length), random)
+    const assignments = new Array<number>(data.length).fill(0)
+    let iterations = 0
+
+    for (; iterations < maxIterations; iterations++) {
+      for (let i = 0; i < data.length; i++) {
+        assignments[i] = this.nearestCentroid(data[i], centroids).index
+      }
+
+      const dims = data[0].length
+      const sums = centroids.map(() => new Array<number>(dims).fill(0))
+      const counts = new Array<number>(centroids.length).fill(0)
+      for (let i = 0; i < data.length; i++) {
+        counts[assignments[i]]++
+        for (let d = 0; d < dims; d++) sums[assignments[i]][d] += data[i][d]
+      }
+
+      // Empty clusters keep their previous centroid
+      const next = sums.map((sum, c) => (counts[c] > 0 ? sum.map(v => v / counts[c]) : centroids[c]))
+      const shift = next.reduce((max, centroid, c) => Math.max(max, this.squaredDistance(centroid, centroids[c])), 0)
+      centroids = next
+      if (shift < tolerance) {
+        iterations++
+        break
+      }
+    }
+
+    let inertia = 0
+    for (let i = 0; i < data.length; i++) {
+      const nearest = this.nearestCentroid(data[i], centroids)
+      assignments[i] = nearest.index
+      inertia += nearest.distance
+    }
+
+    return { assignments, centroids, inertia, iterations }
+  }
+
+  /**
+   * Mean silhouette coefficient, computed on a deterministic sample for large inputs
+   */
+  static silhouetteScore(data: number[][], assignments: number[], sampleSize: number = 500, seed: number = 42): number {
+    const clusterCount = new Set(assignments).size
+    if (data.length < 2 || clusterCount < 2) return 0
+
+    let indexes = data.map((_, i) => i)
+    if (indexes.length > sampleSize) {
+      const random = this.createRandom(seed)
+      for (let i = indexes.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1))
+        ;[indexes[i], indexes[j]] = [indexes[j], indexes[i]]
+      }
+      indexes = indexes.slice(0, sampleSize)
+    }
+
+    let total = 0
+    for (const i of indexes) {
+      const distanceSums = new Map<number, { sum: number; count: number }>()
+      for (const j of indexes) {
+        if (i === j) continue
+        const entry = distanceSums.get(assignments[j]) || { sum: 0, count: 0 }
+        entry.sum += Math.sqrt(this.squaredDistance(data[i], data[j]))
+        entry.count++
+        distanceSums.set(assignments[j], entry)
+      }
+
+      const own = distanceSums.get(assignments[i])
+      if (!own || own.count === 0) continue // singleton clusters score 0
+      const a = own.sum / own.count
+      let b = Infinity
+      for (const [cluster, entry] of distanceSums) {
+        if (cluster !== assignments[i]) b = Math.min(b, entry.sum / entry.count)
+      }
+      if (b === Infinity) continue
+      total += (b - a) / Math.max(a, b)
+    }
+
+    return total / indexes.length
+  }
+
+  private static featureVector(customer: CustomerData): number[] {
+    return CLUSTER_FEATURES.map(feature => {
+      const value = customer[feature] || 0
+      return LOG_FEATURES.includes(feature) ? Math.sign(value) * Math.log1p(Math.abs(value)) : value
+    })
+  }
+
+  private static initializeCentroids(data: number[][], k: number, random: () => number): number[][] {
+    const centroids = [data[Math.floor(random() * data.length)]]
+    const distances = data.map(point => this.squaredDistance(point, centroids[0]))
+
+    while (centroids.length < k) {
+      const total = distances.reduce((sum, d) => sum + d, 0)
+      let index = 0
+      if (total === 0) {
+        index = Math.floor(random() * data.length)
+      } else {
+        let target = random() * total
+        while (index < data.length - 1 && target >= distances[index]) {
+          target -= distances[index]
+          index++
+        }
+      }
+      centroids.push(data[index])
+      for (let i = 0; i < data.length; i++) {
+        distances[i] = Math.min(distances[i], this.squaredDistance(data[i], data[index]))
+      }
+    }
+
+    return centroids.map(c => [...c])
+  }
+
+  private static nearestCentroid(point: number[], centroids: number[][]): { index: number; distance: number } {
+    let index = 0
+    let distance = Infinity
+    centroids.forEach((centroid, c) => {
+      const d = this.squaredDistance(point, centroid)
+      if (d < distance) {
+        distance = d
+        index = c
+      }
+    })
+    return { index, distance }
+  }
+
+  private static squaredDistance(a: number[], b: number[]): number {
+    let sum = 0
+    for (let d = 0; d < a.length; d++) sum += (a[d] - b[d]) ** 2
+    return sum
+  }
+
+  // mulberry32
+  private static createRandom(seed: number): () => number {
+    let state = seed >>> 0
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0
+      let t = state
+      t = Math.imul(t ^ (t >>> 15), t | 1)
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+  }
+}
+
+export default ClusteringEngine
@@ -0,0 +1,239 @@
+import { db, loadAll } from '../data'
+import type { Transaction } from '../data'
+import { CashFlowAnalyzer, cashFlowWindowStart } from './cashFlow'
+import type { CashFlowFeatures, CashFlowOptions } from './cashFlow'
+import type { CustomerData } from './mlEngine'
+
+export const SCORECARD_VERSION = 'retail-v2'
+
+// Calendar months of transactions behind the cash-flow characteristics
+export const SCORECARD_CASH_FLOW_MONTHS = 6
+
+export interface ReasonCode {
+  code: string
+  description: string
+  pointsLost: number
+}
+
+export interface ScorecardAttribute {
+  characteristic: string
+  value: number
+  bin: string
+  points: number
+  maxPoints: number
+}
+
+export interface ScorecardResult {
+  version: string
+  score: number // scaled to 300-850
+  riskScore: number // 0-1, 1 = riskiest
+  riskLevel: 'low' | 'medium' | 'high' | 'critical'
+  attributes: ScorecardAttribute[]
+  reasonCodes: ReasonCode[] // ranked adverse-action reasons
+}
+
+interface Characteristic {
+  name: string
+  reason: { code: string; description: string }
+  // asOf is the scoring time (ms), so time-based characteristics follow the window
+  value: (customer: CustomerData, transactions: Transaction[], cashFlow: CashFlowFeatures, asOf: number) => number
+  // Bins in ascending order of `below`; the first bin the value falls under wins
+  bins: { below: number; label: string; points: number }[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MIN_SCORE = 300
+const MAX_SCORE = 850
+const MAX_REASON_CODES = 4
+
+const CHARACTERISTICS: Characteristic[] = [
+  {
+    name: 'Credit bureau score',
+    reason: { code: 'RC01', description: 'Credit bureau score below preferred range' },
+    value: (customer) => customer.creditScore || 0,
+    bins: [
+      { below: 580, label: '< 580', points: 0 },
+      { below: 620, label: '580-619', points: 20 },
+      { below: 660, label: '620-659', points: 40 },
+      { below: 700, label: '660-699', points: 60 },
+      { below: 750, label: '700-749', points: 80 },
+      { below: Infinity, label: '750+', points: 100 }
+    ]
+  },
+  {
+    name: 'Months of income held on deposit',
+    reason: { code: 'RC02', description: 'Deposit balances low relative to income' },
+    value: (customer) => customer.annualIncome > 0 ? customer.accountBalance / (customer.annualIncome / 12) : 0,
+    bins: [
+      { below: 0.5, label: '< 0.5', points: 0 },
+      { below: 1, label: '0.5-1', points: 15 },
+      { below: 3, label: '1-3', points: 35 },
+      { below: 6, label: '3-6', points: 50 },
+      { below: Infinity, label: '6+', points: 60 }
+    ]
+  },
+  {
+    name: 'Current balance vs monthly average',
+    reason: { code: 'RC03', description: 'Balance drawn down against its monthly average' },
+    value: (customer) => customer.avgMonthlyBalance > 0 ? customer.accountBalance / customer.avgMonthlyBalance : 1,
+    bins: [
+      { below: 0.5, label: '< 50%', points: 0 },
+      { below: 0.8, label: '50-80%', points: 15 },
+      { below: Infinity, label: '80%+', points: 30 }
+    ]
+  },
+  {
+    name: 'Annual income',
+    reason: { code: 'RC04', description: 'Income insufficient for amount of credit' },
+    value: (customer) => customer.annualIncome || 0,
+    bins: [
+      { below: 30000, label: '< $30K', points: 0 },
+      { below: 50000, label: '$30K-50K', points: 15 },
+      { below: 90000, label: '$50K-90K', points: 30 },
+      { below: 150000, label: '$90K-150K', points: 45 },
+      { below: Infinity, label: '$150K+', points: 55 }
+    ]
+  },
+  {
+    name: 'Relationship tenure (months)',
+    reason: { code: 'RC05', description: 'Length of banking relationship too short' },
+    value: (customer) => customer.accountAge || 0,
+    bins: [
+      { below: 6, label: '< 6', points: 0 },
+      { below: 12, label: '6-11', points: 10 },
+      { below: 36, label: '12-35', points: 25 },
+      { below: 60, label: '36-59', points: 35 },
+      { below: Infinity, label: '60+', points: 45 }
+    ]
+  },
+  {
+    name: 'Risk-flagged transactions (90 days)',
+    reason: { code: 'RC06', description: 'Recent transactions flagged for risk' },
+    value: (_, transactions, __, asOf) => {
+      const since = asOf - 90 * DAY_MS
+      return transactions.filter(t => {
+        const time = new Date(t.transactionDate).getTime()
+        return t.riskFlag && time >= since && time <= asOf
+      }).length
+    },
+    bins: [
+      { below: 1, label: 'None', points: 60 },
+      { below: 2, label: '1', points: 30 },
+      { below: 3, label: '2', points: 10 },
+      { below: Infinity, label: '3+', points: 0 }
+    ]
+  },
+  {
+    name: 'Net savings rate (6 months)',
+    reason: { code: 'RC07', description: 'Spending exceeds or nearly matches deposits' },
+    value: (_, __, cashFlow) => cashFlow.netSavingsRate,
+    bins: [
+      { below: -0.2, label: '< -20%', points: 0 },
+      { below: 0, label: '-20-0%', points: 10 },
+      { below: 0.1, label: '0-10%', points: 25 },
+      { below: 0.2, label: '10-20%', points: 35 },
+      { below: Infinity, label: '20%+', points: 45 }
+    ]
+  },
+  {
+    name: 'Recurring obligations vs monthly income',
+    reason: { code: 'RC08', description: 'Recurring obligations high relative to income' },
+    value: (customer, _, cashFlow) => customer.annualIncome > 0
+      ? cashFlow.recurringMonthlyCost / (customer.annualIncome / 12)
+      : cashFlow.recurringMonthlyCost > 0 ? 1 : 0,
+    bins: [
+      { below: 0.15, label: '< 15%', points: 40 },
+      { below: 0.3, label: '15-30%', points: 30 },
+      { below: 0.45, label: '30-45%', points: 15 },
+      { below: 0.6, label: '45-60%', points: 5 },
+      { below: Infinity, label: '60%+', points: 0 }
+    ]
+  }
+]
+
+const MAX_POINTS = CHARACTERISTICS.reduce((sum, c) => sum + Math.max(...c.bins.map(b => b.points)), 0)
+
+export class CreditScorecard {
+  /**
+   * The cash-flow window for one scoring run. Load transactions and score them
+   * with the same window so the two cannot drift apart.
+   */
+  static cashFlowWindow(asOf = Date.now()): CashFlowOptions {
+    return { months: SCORECARD_CASH_FLOW_MONTHS, asOf }
+  }
+
+  /**
+   * A customer's transactions within the window, newest first. Paged
+   * rather than capped, so a busy account is scored on all of it.
+   */
+  static async transactionsFor(customerId: string, window = this.cashFlowWindow()): Promise<Transaction[]> {
+    const transactions = await loadAll(db.transactions, {
+      where: { customerId, transactionDate: { gte: cashFlowWindowStart(window).toISOString() } }
+    })
+    return transactions.sort((a, b) => b.transactionDate.localeCompare(a.transactionDate))
+  }
+
+  /**
+   * Points-based scorecard: every characteristic falls into a bin worth fixed
+   * points, so each score can be traced back and explained
+   */
+  static score(
+    customer: CustomerData,
+    transactions: Transaction[] = [],
+    window: CashFlowOptions = this.cashFlowWindow()
+  ): ScorecardResult {
+    const cashFlow = CashFlowAnalyzer.analyze(transactions, window).features
+    const asOf = window.asOf ?? Date.now()
+    const attributes: ScorecardAttribute[] = CHARACTERISTICS.map(characteristic => {
+      const value = characteristic.value(customer, transactions, cashFlow, asOf)
+      const bin = characteristic.bins.find(b => value < b.below) || characteristic.bins[characteristic.bins.length - 1]
+      return {
+        characteristic: characteristic.name,
+        value,
+        bin: bin.label,
+        points: bin.points,
+        maxPoints: Math.max(...characteristic.bins.map(b => b.points))
+      }
+    })
+
+    const points = attributes.reduce((sum, a) => sum + a.points, 0)
+    const score = Math.round(MIN_SCORE + (points / MAX_POINTS) * (MAX_SCORE - MIN_SCORE))
+
+    const reasonCodes = attributes
+      .map((attribute, i) => ({ ...CHARACTERISTICS[i].reason, pointsLost: attribute.maxPoints - attribute.points }))
+      .filter(reason => reason.pointsLost > 0)
+      .sort((a, b) => b.pointsLost - a.pointsLost)
+      .slice(0, MAX_REASON_CODES)
+
+    return {
+      version: SCORECARD_VERSION,
+      score,
+      riskScore: Math.round((1 - points / MAX_POINTS) * 1000) / 1000,
+      riskLevel: this.riskLevel(score),
+      attributes,
+      reasonCodes
+    }
+  }
+
+  /**
+   * Parse a scorecard stored on a risk assessment row
+   */
+  static parse(json: string | null | undefined): ScorecardResult | null {
+    if (!json) return null
+    try {
+      const parsed = JSON.parse(json)
+      return parsed && typeof parsed.score === 'number' ? parsed : null
+    } catch {
+      return null
+    }
+  }
+
+  private static riskLevel(score: number): ScorecardResult['riskLevel'] {
+    if (score >= 720) return 'low'
+    if (score >= 640) return 'medium'
+    if (score >= 560) return 'high'
+    return 'critical'
+  }
+}
+
+export default CreditScorecard
@@ -0,0 +1,187 @@
+import { db } from '../data'
+
+export type TimelineEventType = 'transaction' | 'interaction' | 'risk' | 'segment' | 'insight'
+
+export const TIMELINE_EVENT_TYPES: TimelineEventType[] = ['transaction', 'interaction', 'risk', 'segment', 'insight']
+
+export interface TimelineEvent {
+  id: string
+  type: TimelineEventType
+  timestamp: string
+  title: string
+  detail: string
+  amount?: number // signed: credits positive, everything else negative
+  tone: 'positive' | 'negative' | 'warning' | 'neutral'
+}
+
+/**
+ * Keyset cursor: events strictly older than `before`, plus any at exactly
+ * `before` that the previous page did not include
+ */
+export interface TimelineCursor {
+  before: string
+  seenIds: string[]
+}
+
+export interface TimelinePage {
+  events: TimelineEvent[]
+  next: TimelineCursor | null
+}
+
+export interface TimelineQuery {
+  types?: TimelineEventType[]
+  cursor?: TimelineCursor | null
+  limit?: number
+}
+
+const DEFAULT_PAGE_SIZE = 25
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, ' ')
+
+/**
+ * Everything that happened to one customer, newest first. Each source is
+ * read with the same keyset bound so pages merge without gaps or repeats.
+ */
+export class CustomerTimeline {
+  static async page(customerId: string, query: TimelineQuery = {}): Promise<TimelinePage> {
+    const types = query.types || TIMELINE_EVENT_TYPES
+    const limit = query.limit || DEFAULT_PAGE_SIZE
+    const cursor = query.cursor || null
+    // One extra row per source tells us whether that source has more
+    const fetchSize = limit + (cursor?.seenIds.length || 0) + 1
+    const bound = (field: string) => ({
+      where: cursor
+        ? { customerId, [field]: { lte: cursor.before } }
+        : { customerId },
+      orderBy: { [field]: 'desc' as const },
+      limit: fetchSize
+    })
+
+    const sources = await Promise.all(types.map(async (type): Promise<TimelineEvent[]> => {
+      switch (type) {
+        case 'transaction':
+          return (await db.transactions.list(bound('transactionDate'))).map(t => {
+            const amount = (t.transactionType === 'credit' ? 1 : -1) * Math.abs(t.amount || 0)
+            return {
+              id: `transaction_${t.id}`,
+              type,
+              timestamp: t.transactionDate,
+              title: `${capitalize(t.transactionType)}: ${t.description}`,
+              detail: [capitalize(t.merchantCategory || 'other'), t.channel, t.location].filter(Boolean).join(' · '),
+              amount,
+              tone: t.riskFlag ? 'warning' : amount >= 0 ? 'positive' : 'neutral'
+            }
+          })
+        case 'interaction':
+          return (await db.customerInteractions.list(bound('interactionDate'))).map(i => ({
+            id: `interaction_${i.id}`,
+            type,
+            timestamp: i.interactionDate,
+            title: `${capitalize(i.interactionType)} via ${i.channel.replace(/_/g, ' ')}: ${i.subject}`,
+            detail: [
+              i.outcome && capitalize(i.outcome),
+              i.satisfactionScore > 0 && `Satisfaction ${i.satisfactionScore}/5`,
+              i.durationMinutes > 0 && `${i.durationMinutes} min`
+            ].filter(Boolean).join(' · '),
+            tone: i.satisfactionScore > 0 && i.satisfactionScore <= 2 ? 'negative' : 'neutral'
+          }))
+        case 'risk':
+          return (await db.riskAssessments.list(bound('createdAt'))).map(a => ({
+            id: `risk_${a.id}`,
+            type,
+            timestamp: a.createdAt,
+            title: `${capitalize(a.riskLevel)} risk assessment`,
+            detail: `Score ${Math.round((a.riskScore || 0) * 100)} · ${capitalize(a.status)}`,
+            tone: a.riskLevel === 'high' || a.riskLevel === 'critical' ? 'negative' : a.riskLevel === 'medium' ? 'warning' : 'positive'
+          }))
+        case 'insight':
+          return (await db.aiInsights.list(bound('createdAt'))).map(i => ({
+            id: `insight_${i.id}`,
+            type,
+            timestamp: i.createdAt,
+            title: i.title,
+            detail: `${capitalize(i.insightType)} · ${capitalize(i.priority)} priority · ${capitalize(i.status)}`,
+            tone: i.insightType === 'risk_alert' ? 'negative' : 'neutral'
+          }))
+        case 'segment':
+          return this.segmentChanges(customerId, cursor?.before, fetchSize)
+      }
+    }))
+
+    const seen = new Set(cursor?.seenIds || [])
+    const merged = sources
+      .flat()
+      .filter(event => event.timestamp && !seen.has(event.id))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp) || a.id.localeCompare(b.id))
+    const events = merged.slice(0, limit)
+
+    if (merged.length <= limit || events.length === 0) return { events, next: null }
+
+    const before = events[events.length - 1].timestamp
+    const atBoundary = events.filter(event => event.timestamp === before).map(event => event.id)
+    return {
+      events,
+      next: {
+        before,
+        // Carry forward ids already shown at the same instant
+        seenIds: cursor?.before === before ? [...cursor.seenIds, ...atBoundary] : atBoundary
+      }
+    }
+  }
+
+  /**
+   * Where to start reading to land on a given calendar day: everything up to
+   * the end of that day
+   */
+  static cursorForDate(date: string): TimelineCursor {
+    const end = new Date(`${date}T23:59:59.999`)
+    return { before: end.toISOString(), seenIds: [] }
+  }
+
+  /**
+   * Segment assignments as changes: the first placement, then every move
+   * between differently named segments across runs and recomputes
+   */
+  private static async segmentChanges(customerId: string, before: string | undefined, limit: number): Promise<TimelineEvent[]> {
+    // A customer has one assignment per run, so the full list is small
+    const assignments = (await db.customerSegmentAssignments.list({ where: { customerId } }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    if (assignments.length === 0) return []
+
+    const segmentIds = [...new Set(assignments.map(a => a.segmentId))]
+    const runIds = [...new Set(assignments.map(a => a.runId).filter((id): id is string => !!id))]
+    const [segments, runs] = await Promise.all([
+      db.customerSegments.list({ where: { id: { in: segmentIds } } }),
+      runIds.length > 0 ? db.segmentationRuns.list({ where: { id: { in: runIds } } }) : Promise.resolve([])
+    ])
+    const segmentNames = new Map(segments.map(s => [s.id, s.segmentName]))
+    const runVersions = new Map(runs.map(r => [r.id, r.version]))
+
+    let previousName: string | null = null
+    const events: TimelineEvent[] = []
+    for (const assignment of assignments) {
+      const name = segmentNames.get(assignment.segmentId) || 'a deleted segment'
+      const source = assignment.runId && runVersions.has(assignment.runId)
+        ? `Segmentation run v${runVersions.get(assignment.runId)}`
+        : 'Rule-based segment'
+      if (name !== previousName) {
+        events.push({
+          id: `segment_${assignment.id}`,
+          type: 'segment',
+          timestamp: assignment.createdAt,
+          title: previousName ? `Moved from ${previousName} to ${name}` : `Placed in ${name}`,
+          detail: `${source} · ${Math.round((assignment.confidenceScore || 0) * 100)}% confidence`,
+          tone: 'neutral'
+        })
+      }
+      previousName = name
+    }
+
+    return events
+      .filter(event => !before || event.timestamp <= before)
+      .reverse()
+      .slice(0, limit)
+  }
+}
+
+export default CustomerTimeline
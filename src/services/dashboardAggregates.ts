@@ -0,0 +1,188 @@
+import { db, reduceRecords } from '../data'
+import type { AIInsight, LoadProgress, MetricSnapshot } from '../data'
+import { MetricSnapshots } from './metricSnapshots'
+
+export interface DashboardMetrics {
+  totalCustomers: number
+  totalBalance: number
+  avgBalance: number
+  highRiskCustomers: number
+  activeSegments: number
+  pendingInsights: number
+  monthlyGrowth: number // % change in customer count over the last 30 days
+  assetGrowth: number // % change in total balances over the last 30 days
+  avgBalanceChange: number // % change in average balance over the last 30 days
+  fromSnapshots: boolean // false while the snapshot history is under 30 days and changes are estimated
+  customerSatisfaction: number | null // mean interaction satisfaction score, null when none are scored
+}
+
+export interface SegmentPerformance {
+  name: string
+  customers: number
+  revenue: number
+  growth: number
+}
+
+export interface RiskBucket {
+  name: string
+  count: number
+  value: number // % of customers
+  color: string
+}
+
+export interface InsightSummary {
+  opportunities: number
+  riskAlerts: number
+  highlights: AIInsight[]
+}
+
+export interface DashboardData {
+  metrics: DashboardMetrics
+  segmentPerformance: SegmentPerformance[]
+  riskDistribution: RiskBucket[]
+  insightSummary: InsightSummary
+  history: MetricSnapshot[] // daily portfolio snapshots, oldest first
+}
+
+const WINDOW_DAYS = 30
+const HISTORY_DAYS = 90
+const DAY_MS = 24 * 60 * 60 * 1000
+const HIGH_RISK_THRESHOLD = 0.7
+const LOW_RISK_THRESHOLD = 0.3
+const PRIORITY_ORDER = ['high', 'medium', 'low']
+const HIGHLIGHT_COUNT = 3
+
+const percentChange = (current: number, previous: number) =>
+  previous > 0 ? Number((((current - previous) / previous) * 100).toFixed(1)) : 0
+
+export class DashboardAggregates {
+  /**
+   * Compute every dashboard figure from stored records. Customers and recent
+   * transactions are streamed page by page so large portfolios stay in budget.
+   */
+  static async load(onProgress?: (progress: LoadProgress) => void): Promise<DashboardData> {
+    const windowStart = new Date(Date.now() - WINDOW_DAYS * DAY_MS).toISOString()
+
+    const [
+      portfolio,
+      netFlow,
+      satisfaction,
+      segments,
+      pendingInsights,
+      opportunities,
+      riskInsights,
+      activeAssessments,
+      highlights,
+      history
+    ] = await Promise.all([
+      reduceRecords(
+        db.customers,
+        (acc, c) => {
+          const risk = c.riskScore || 0
+          const openedAt = c.accountOpenedDate || c.createdAt
+          return {
+            count: acc.count + 1,
+            totalBalance: acc.totalBalance + (c.accountBalance || 0),
+            low: acc.low + (risk < LOW_RISK_THRESHOLD ? 1 : 0),
+            medium: acc.medium + (risk >= LOW_RISK_THRESHOLD && risk <= HIGH_RISK_THRESHOLD ? 1 : 0),
+            high: acc.high + (risk > HIGH_RISK_THRESHOLD ? 1 : 0),
+            joinedInWindow: acc.joinedInWindow + (openedAt && openedAt >= windowStart ? 1 : 0)
+          }
+        },
+        { count: 0, totalBalance: 0, low: 0, medium: 0, high: 0, joinedInWindow: 0 },
+        { onProgress }
+      ),
+      // Credits are inflows, everything else outflows, as in the churn model
+      reduceRecords(
+        db.transactions,
+        (sum, t) => sum + (t.transactionType === 'credit' ? 1 : -1) * (t.amount || 0),
+        0,
+        { where: { transactionDate: { gte: windowStart } } }
+      ),
+      reduceRecords(
+        db.customerInteractions,
+        (acc, i) => (i.satisfactionScore > 0
+          ? { total: acc.total + Number(i.satisfactionScore), count: acc.count + 1 }
+          : acc),
+        { total: 0, count: 0 }
+      ),
+      db.customerSegments.list({ where: { isActive: 1 } }),
+      db.aiInsights.count({ where: { status: 'active' } }),
+      db.aiInsights.count({ where: { status: 'active', insightType: { in: ['opportunity', 'cross_sell'] } } }),
+      db.aiInsights.count({ where: { status: 'active', insightType: 'risk_alert' } }),
+      db.riskAssessments.count({ where: { status: 'active', riskLevel: { in: ['high', 'critical'] } } }),
+      this.topInsights(HIGHLIGHT_COUNT),
+      MetricSnapshots.history('portfolio', HISTORY_DAYS)
+    ])
+
+    const avgBalance = portfolio.count > 0 ? portfolio.totalBalance / portfolio.count : 0
+
+    // Prefer stored history; until there is a month of it, estimate from
+    // account opening dates and net transaction flows
+    const customerGrowth = MetricSnapshots.growth(history, s => s.customerCount)
+    const balanceGrowth = MetricSnapshots.growth(history, s => s.totalBalance)
+    const avgBalanceGrowth = MetricSnapshots.growth(history, s => s.avgBalance)
+    const customersAtWindowStart = portfolio.count - portfolio.joinedInWindow
+    const balanceAtWindowStart = portfolio.totalBalance - netFlow
+
+    const metrics: DashboardMetrics = {
+      totalCustomers: portfolio.count,
+      totalBalance: portfolio.totalBalance,
+      avgBalance,
+      highRiskCustomers: portfolio.high,
+      activeSegments: segments.length,
+      pendingInsights,
+      monthlyGrowth: customerGrowth ?? percentChange(portfolio.count, customersAtWindowStart),
+      assetGrowth: balanceGrowth ?? percentChange(portfolio.totalBalance, balanceAtWindowStart),
+      avgBalanceChange: avgBalanceGrowth ?? percentChange(
+        avgBalance,
+        customersAtWindowStart > 0 ? balanceAtWindowStart / customersAtWindowStart : 0
+      ),
+      fromSnapshots: customerGrowth !== null,
+      customerSatisfaction: satisfaction.count > 0 ? satisfaction.total / satisfaction.count : null
+    }
+
+    const segmentPerformance = segments
+      .map(segment => ({
+        name: segment.segmentName,
+        customers: segment.customerCount || 0,
+        revenue: segment.totalRevenue || 0,
+        growth: Number((segment.growthRate || 0).toFixed(1))
+      }))
+      .sort((a, b) => b.customers - a.customers)
+
+    const share = (count: number) => portfolio.count > 0 ? Number(((count / portfolio.count) * 100).toFixed(1)) : 0
+    const riskDistribution: RiskBucket[] = [
+      { name: 'Low Risk', count: portfolio.low, value: share(portfolio.low), color: '#10B981' },
+      { name: 'Medium Risk', count: portfolio.medium, value: share(portfolio.medium), color: '#F59E0B' },
+      { name: 'High Risk', count: portfolio.high, value: share(portfolio.high), color: '#EF4444' }
+    ]
+
+    return {
+      metrics,
+      segmentPerformance,
+      riskDistribution,
+      insightSummary: {
+        opportunities,
+        // AI risk insights plus open high-risk assessments
+        riskAlerts: riskInsights + activeAssessments,
+        highlights
+      },
+      history
+    }
+  }
+
+  /**
+   * The most urgent active insights: highest priority first, then most
+   * confident. Reads at most `limit` rows per priority rather than every insight.
+   */
+  private static async topInsights(limit: number): Promise<AIInsight[]> {
+    const pages = await Promise.all([
+      ...PRIORITY_ORDER.map(priority => ({ status: 'active', priority })),
+      { status: 'active', priority: { not_in: PRIORITY_ORDER } }
+    ].map(where => db.aiInsights.list({ where, orderBy: { confidenceScore: 'desc' }, limit })))
+    return pages.flat().slice(0, limit)
+  }
+}
+
+export default DashboardAggregates
@@ -1,4 +1,4 @@
-import { blink } from '../blink/client'
+import { db } from '../data'
 
 export class DataSeeder {
   /**
@@ -76,18 +76,18 @@ export class DataSeeder {
       
       // Batch insert customers
       console.log('Inserting customers...')
-      await blink.db.customers.createMany(customers)
+      await db.customers.createMany(customers)
       
       // Batch insert transactions
       console.log('Inserting transactions...')
       const transactionBatches = this.chunkArray(transactions, 50)
       for (const batch of transactionBatches) {
-        await blink.db.transactions.createMany(batch)
+        await db.transactions.createMany(batch)
       }
       
       // Batch insert interactions
       console.log('Inserting interactions...')
-      await blink.db.customerInteractions.createMany(interactions)
+      await db.customerInteractions.createMany(interactions)
       
       console.log(`Successfully seeded ${count} customers with ${transactions.length} transactions and ${interactions.length} interactions`)
     } catch (error) {
@@ -184,7 +184,7 @@ export class DataSeeder {
         }
       ]
       
-      await blink.db.customerSegments.createMany(segments)
+      await db.customerSegments.createMany(segments)
       console.log(`Successfully seeded ${segments.length} customer segments`)
     } catch (error) {
       console.error('Error seeding customer segments:', error)
@@ -375,7 +375,7 @@ export class DataSeeder {
         channel: this.getRandomChannel(),
         location: `${this.getRandomCity()}, ${this.getRandomState()}`,
         isRecurring: Math.random() > 0.8 ? 1 : 0,
-        riskFlag: Math.random() > 0.95 ? 1 : 0,
+        riskFlag: 0, // set by AnomalyDetector.scanAll
         transactionDate: transactionDate.toISOString()
       })
     }
@@ -0,0 +1,184 @@
+import { db, streamRecords } from '../data'
+import type { Customer, DataUser, KycEvent } from '../data'
+
+export type KycStatus = 'pending' | 'info_requested' | 'approved' | 'rejected'
+export type KycRiskTier = 'low' | 'medium' | 'high'
+export type KycCheckId = 'idVerification' | 'addressProof' | 'sourceOfFunds' | 'screening'
+
+export interface KycCheck {
+  id: KycCheckId
+  label: string
+  description: string
+  manual: boolean // screening is read from the customer's screening status
+}
+
+export interface KycChecklistItem {
+  checked: boolean
+  note?: string
+  checkedBy?: string
+  checkedAt?: string
+}
+
+export type KycChecklist = Partial<Record<KycCheckId, KycChecklistItem>>
+
+export const KYC_CHECKS: KycCheck[] = [
+  { id: 'idVerification', label: 'ID verification', description: 'Government-issued photo ID checked against the customer record', manual: true },
+  { id: 'addressProof', label: 'Proof of address', description: 'Utility bill or bank statement from the last 3 months', manual: true },
+  { id: 'sourceOfFunds', label: 'Source of funds', description: 'Income or wealth documented and consistent with account activity', manual: true },
+  { id: 'screening', label: 'Sanctions / PEP screening', description: 'Customer screened and clear of watchlist matches', manual: false }
+]
+
+export const KYC_STATUS_LABELS: Record<KycStatus, string> = {
+  pending: 'Pending',
+  info_requested: 'Info Requested',
+  approved: 'Approved',
+  rejected: 'Rejected'
+}
+
+// Months between periodic reviews for each risk tier
+export const RE_KYC_INTERVAL_MONTHS: Record<KycRiskTier, number> = { high: 12, medium: 24, low: 36 }
+
+const TRANSITIONS: Record<KycStatus, KycStatus[]> = {
+  pending: ['approved', 'rejected', 'info_requested'],
+  info_requested: ['pending', 'approved', 'rejected'],
+  approved: ['pending'],
+  rejected: ['pending']
+}
+
+export class KycService {
+  static parseChecklist(json: string | null | undefined): KycChecklist {
+    if (!json) return {}
+    try {
+      const parsed = JSON.parse(json)
+      return parsed && typeof parsed === 'object' ? parsed : {}
+    } catch {
+      return {}
+    }
+  }
+
+  /**
+   * Whether a check passes; screening is derived rather than ticked by hand
+   */
+  static isCheckComplete(customer: Customer, checklist: KycChecklist, check: KycCheck): boolean {
+    if (!check.manual) return customer.screeningStatus === 'clear'
+    return checklist[check.id]?.checked === true
+  }
+
+  static completedChecks(customer: Customer, checklist: KycChecklist = this.parseChecklist(customer.kycChecklist)): number {
+    return KYC_CHECKS.filter(check => this.isCheckComplete(customer, checklist, check)).length
+  }
+
+  static riskTier(customer: Customer): KycRiskTier {
+    if (customer.screeningStatus === 'escalated' || customer.screeningStatus === 'potential_match') return 'high'
+    if ((customer.riskScore || 0) >= 0.5) return 'high'
+    if ((customer.riskScore || 0) >= 0.3) return 'medium'
+    return 'low'
+  }
+
+  static allowedTransitions(status: string): KycStatus[] {
+    return TRANSITIONS[status as KycStatus] || ['pending']
+  }
+
+  /**
+   * Next periodic review: the stored date, or the tier interval counted from
+   * the last review (account opening for customers never reviewed)
+   */
+  static nextReviewDate(customer: Customer): Date | null {
+    if (customer.kycNextReviewDate) return new Date(customer.kycNextReviewDate)
+    const from = customer.kycReviewedAt || customer.accountOpenedDate
+    if (!from) return null
+    return this.addMonths(new Date(from), RE_KYC_INTERVAL_MONTHS[this.riskTier(customer)])
+  }
+
+  static isReviewDue(customer: Customer, now: Date = new Date()): boolean {
+    if (customer.kycStatus !== 'approved') return false
+    const due = this.nextReviewDate(customer)
+    return due !== null && due.getTime() <= now.getTime()
+  }
+
+  static async saveChecklistItem(customer: Customer, checkId: KycCheckId, item: KycChecklistItem, reviewer: string): Promise<Customer> {
+    const checklist = this.parseChecklist(customer.kycChecklist)
+    checklist[checkId] = {
+      ...item,
+      checkedBy: item.checked ? reviewer : undefined,
+      checkedAt: item.checked ? new Date().toISOString() : undefined
+    }
+    return db.customers.update(customer.id, { kycChecklist: JSON.stringify(checklist) })
+  }
+
+  /**
+   * Move a customer to a new KYC status and record the transition. Approval
+   * requires every check to pass and sets the next periodic review date.
+   */
+  static async transition(customer: Customer, toStatus: KycStatus, reason: string, reviewer: string, user: DataUser): Promise<Customer> {
+    if (!this.allowedTransitions(customer.kycStatus).includes(toStatus)) {
+      throw new Error(`Cannot move KYC status from ${customer.kycStatus} to ${toStatus}`)
+    }
+    if (!reason.trim()) throw new Error('A reason is required for every KYC decision')
+
+    const checklist = this.parseChecklist(customer.kycChecklist)
+    if (toStatus === 'approved' && this.completedChecks(customer, checklist) < KYC_CHECKS.length) {
+      throw new Error('All KYC checks must pass before approval')
+    }
+
+    const now = new Date()
+    const tier = this.riskTier(customer)
+    const update: Partial<Customer> = { kycStatus: toStatus }
+    if (toStatus === 'approved') {
+      update.kycReviewedAt = now.toISOString()
+      update.kycNextReviewDate = this.addMonths(now, RE_KYC_INTERVAL_MONTHS[tier]).toISOString()
+    }
+    // A reopened review starts from an empty checklist; the old one stays in history
+    if (toStatus === 'pending' && (customer.kycStatus === 'approved' || customer.kycStatus === 'rejected')) {
+      update.kycChecklist = '{}'
+      update.kycNextReviewDate = ''
+    }
+
+    const updated = await db.customers.update(customer.id, update)
+    await db.kycEvents.create({
+      id: `kyc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: user.id,
+      customerId: customer.id,
+      fromStatus: customer.kycStatus,
+      toStatus,
+      reason: reason.trim(),
+      reviewer,
+      checklist: JSON.stringify(checklist),
+      riskTier: tier
+    })
+    return updated
+  }
+
+  /**
+   * Send approved customers whose periodic review date has passed back to the queue
+   */
+  static async flagDueReviews(user: DataUser): Promise<number> {
+    const now = new Date()
+    let flagged = 0
+    // Pages are keyed on id, so customers leaving 'approved' mid-scan don't move
+    // the cursor and each page can be flagged as it arrives
+    for await (const page of streamRecords(db.customers, { where: { kycStatus: 'approved' } })) {
+      for (const customer of page.filter(c => this.isReviewDue(c, now))) {
+        try {
+          await this.transition(customer, 'pending', `Periodic re-KYC due (${this.riskTier(customer)} risk tier)`, 'system', user)
+          flagged++
+        } catch (error) {
+          console.error(`Error flagging re-KYC for customer ${customer.id}:`, error)
+        }
+      }
+    }
+    return flagged
+  }
+
+  static async getHistory(customerId: string): Promise<KycEvent[]> {
+    return db.kycEvents.list({ where: { customerId }, orderBy: { createdAt: 'desc' } })
+  }
+
+  private static addMonths(date: Date, months: number): Date {
+    const result = new Date(date)
+    result.setMonth(result.getMonth() + months)
+    return result
+  }
+}
+
+export default KycService
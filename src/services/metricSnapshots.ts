@@ -0,0 +1,167 @@
+import { db, loadAll, reduceRecords } from '../data'
+import type { DataUser, MetricSnapshot } from '../data'
+
+export const PORTFOLIO_SCOPE = 'Portfolio'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const HIGH_RISK_THRESHOLD = 0.7
+const LOW_RISK_THRESHOLD = 0.3
+const GROWTH_WINDOW_DAYS = 30
+
+export const snapshotDay = (date = new Date()) => date.toISOString().split('T')[0]
+
+interface ScopeTally {
+  customerCount: number
+  totalBalance: number
+  riskTotal: number
+  lowRiskCount: number
+  mediumRiskCount: number
+  highRiskCount: number
+}
+
+const emptyTally = (): ScopeTally => ({
+  customerCount: 0,
+  totalBalance: 0,
+  riskTotal: 0,
+  lowRiskCount: 0,
+  mediumRiskCount: 0,
+  highRiskCount: 0
+})
+
+/**
+ * Daily KPI snapshots. Growth rates and trend lines are read from these
+ * rather than inferred from the current state of the portfolio.
+ */
+// The due check in progress, shared so overlapping triggers capture the day once
+let capturing: Promise<boolean> | null = null
+
+export class MetricSnapshots {
+  /**
+   * Snapshot the portfolio and every active segment for a day, replacing any
+   * earlier snapshot of the same day, then refresh segment growth rates
+   */
+  static async capture(user: DataUser, day = snapshotDay()): Promise<MetricSnapshot[]> {
+    const [segments, activeInsights] = await Promise.all([
+      db.customerSegments.list({ where: { isActive: 1 } }),
+      db.aiInsights.count({ where: { status: 'active' } })
+    ])
+    const assignments = segments.length > 0
+      ? await loadAll(db.customerSegmentAssignments, { where: { segmentId: { in: segments.map(s => s.id) } } })
+      : []
+    // Segments overlap, so a customer counts towards every segment it is assigned to
+    const segmentsOf = new Map<string, Set<string>>()
+    for (const assignment of assignments) {
+      const ids = segmentsOf.get(assignment.customerId) || new Set<string>()
+      ids.add(assignment.segmentId)
+      segmentsOf.set(assignment.customerId, ids)
+    }
+
+    const tallies = await reduceRecords(
+      db.customers,
+      (acc, c) => {
+        const risk = c.riskScore || 0
+        for (const key of [PORTFOLIO_SCOPE, ...(segmentsOf.get(c.id) || [])]) {
+          const tally = acc.get(key) || emptyTally()
+          tally.customerCount++
+          tally.totalBalance += c.accountBalance || 0
+          tally.riskTotal += risk
+          if (risk > HIGH_RISK_THRESHOLD) tally.highRiskCount++
+          else if (risk < LOW_RISK_THRESHOLD) tally.lowRiskCount++
+          else tally.mediumRiskCount++
+          acc.set(key, tally)
+        }
+        return acc
+      },
+      new Map<string, ScopeTally>()
+    )
+
+    const toSnapshot = (scope: string, scopeName: string, tally: ScopeTally, segmentId?: string): Partial<MetricSnapshot> => ({
+      id: `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: user.id,
+      day,
+      scope,
+      scopeName,
+      segmentId,
+      customerCount: tally.customerCount,
+      totalBalance: tally.totalBalance,
+      avgBalance: tally.customerCount > 0 ? tally.totalBalance / tally.customerCount : 0,
+      avgRiskScore: tally.customerCount > 0 ? tally.riskTotal / tally.customerCount : 0,
+      lowRiskCount: tally.lowRiskCount,
+      mediumRiskCount: tally.mediumRiskCount,
+      highRiskCount: tally.highRiskCount,
+      activeSegments: segments.length,
+      activeInsights
+    })
+
+    const rows = [
+      toSnapshot('portfolio', PORTFOLIO_SCOPE, tallies.get(PORTFOLIO_SCOPE) || emptyTally()),
+      ...segments.map(segment =>
+        toSnapshot('segment', segment.segmentName, tallies.get(segment.id) || emptyTally(), segment.id)
+      )
+    ]
+
+    await db.metricSnapshots.deleteMany({ where: { day } })
+    const snapshots = await db.metricSnapshots.createMany(rows)
+
+    // Segment growth comes from history once there is a month of it
+    const history = await this.history('segment', GROWTH_WINDOW_DAYS * 2)
+    for (const segment of segments) {
+      const growth = this.growth(
+        history.filter(s => s.scopeName === segment.segmentName),
+        s => s.customerCount
+      )
+      if (growth !== null && growth !== segment.growthRate) {
+        await db.customerSegments.update(segment.id, { growthRate: growth })
+      }
+    }
+
+    return snapshots
+  }
+
+  /**
+   * Capture today's snapshot unless it already exists. A call made while a
+   * check is running waits for that one instead.
+   */
+  static captureIfDue(user: DataUser): Promise<boolean> {
+    if (!capturing) {
+      capturing = this.captureDay(user).finally(() => { capturing = null })
+    }
+    return capturing
+  }
+
+  private static async captureDay(user: DataUser): Promise<boolean> {
+    const day = snapshotDay()
+    const existing = await db.metricSnapshots.count({ where: { day, scope: 'portfolio' } })
+    if (existing > 0) return false
+    await this.capture(user, day)
+    return true
+  }
+
+  /**
+   * Snapshots of a scope over the last `days` days, oldest first
+   */
+  static async history(scope: 'portfolio' | 'segment', days = 90): Promise<MetricSnapshot[]> {
+    const since = snapshotDay(new Date(Date.now() - days * DAY_MS))
+    const snapshots = await loadAll(db.metricSnapshots, { where: { scope, day: { gte: since } } })
+    return snapshots.sort((a, b) => a.day.localeCompare(b.day))
+  }
+
+  /**
+   * % change between the latest snapshot and the last one taken at least
+   * `days` earlier; null until the history reaches back that far
+   */
+  static growth(
+    history: MetricSnapshot[],
+    pick: (snapshot: MetricSnapshot) => number,
+    days = GROWTH_WINDOW_DAYS
+  ): number | null {
+    if (history.length < 2) return null
+    const latest = history[history.length - 1]
+    const cutoff = snapshotDay(new Date(new Date(latest.day).getTime() - days * DAY_MS))
+    const baseline = [...history].reverse().find(s => s.day <= cutoff)
+    if (!baseline || pick(baseline) <= 0) return null
+    return Number((((pick(latest) - pick(baseline)) / pick(baseline)) * 100).toFixed(1))
+  }
+}
+
+export default MetricSnapshots
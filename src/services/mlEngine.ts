@@ -1,4 +1,13 @@
-import { blink } from '../blink/client'
+import { ai, generateStructured } from '../ai'
+import { db, loadAll } from '../data'
+import type { CashFlowOptions } from './cashFlow'
+import { ClusteringEngine } from './clustering'
+import type { ClusteringDiagnostics, ClusteringOptions, CustomerCluster } from './clustering'
+import { CLVModel } from './clvModel'
+import type { CLVEstimate, CLVOptions } from './clvModel'
+import { CreditScorecard } from './creditScorecard'
+import type { ScorecardResult } from './creditScorecard'
+import { PromptRegistry } from './promptRegistry'
 
 export interface CustomerData {
   id: string
@@ -25,55 +34,135 @@ export interface SegmentationResult {
     size: number
   }
   insights: string[]
+  promptVersion?: string // set when the AI named the segment
+}
+
+export interface SegmentationOutcome {
+  segments: SegmentationResult[]
+  diagnostics: ClusteringDiagnostics // how k was chosen and how well the clusters separate
+}
+
+const AI_PRIORITIES = ['high', 'medium', 'low']
+
+const CLUSTER_ARCHETYPES: Record<string, { name: string; insights: string[] }> = {
+  highValue: {
+    name: 'High Value Customers',
+    insights: [
+      'Premium banking services and investment products',
+      'Dedicated relationship managers',
+      'Exclusive rewards and benefits programs'
+    ]
+  },
+  highRisk: {
+    name: 'High Risk Customers',
+    insights: [
+      'Enhanced monitoring and fraud detection',
+      'Risk mitigation strategies',
+      'Review credit limits and exposure'
+    ]
+  },
+  dormant: {
+    name: 'Dormant Accounts',
+    insights: [
+      'Re-engagement campaigns before the account churns',
+      'Check for service issues behind the inactivity',
+      'Targeted offers tied to recent product usage'
+    ]
+  },
+  activeTransactors: {
+    name: 'Active Transactors',
+    insights: [
+      'Rewards credit cards and cashback programs',
+      'Mobile-first banking features',
+      'Fee-free transaction bundles'
+    ]
+  },
+  newCustomers: {
+    name: 'New Customers',
+    insights: [
+      'Onboarding journeys and product education',
+      'Early cross-sell of savings and card products',
+      'Monitor early-tenure engagement closely'
+    ]
+  },
+  loyal: {
+    name: 'Established Loyalists',
+    insights: [
+      'Loyalty rewards and tenure recognition',
+      'Retirement and wealth planning products',
+      'Referral programs'
+    ]
+  },
+  primeCredit: {
+    name: 'Prime Credit',
+    insights: [
+      'Pre-approved lending and mortgage offers',
+      'Premium credit card upgrades',
+      'Competitive rates to consolidate external debt'
+    ]
+  },
+  emerging: {
+    name: 'Emerging Savers',
+    insights: [
+      'Automated savings and budgeting tools',
+      'Low-fee starter products',
+      'Financial education to grow balances'
+    ]
+  },
+  mainstream: {
+    name: 'Mainstream Customers',
+    insights: [
+      'Standard product bundles and digital banking',
+      'Periodic needs-based reviews',
+      'Cross-sell based on life events'
+    ]
+  }
 }
 
 export class MLEngine {
   /**
-   * Advanced customer segmentation using AI-powered clustering
+   * Hybrid segmentation: membership comes from local k-means over every customer,
+   * the AI only names and describes the resulting clusters
    */
-  static async performCustomerSegmentation(customers: CustomerData[]): Promise<SegmentationResult[]> {
-    if (customers.length === 0) return []
+  static async performCustomerSegmentation(
+    customers: CustomerData[],
+    clusteringOptions: ClusteringOptions = {}
+  ): Promise<SegmentationOutcome> {
+    if (customers.length === 0) {
+      return { segments: [], diagnostics: { k: 0, inertia: 0, iterations: 0, silhouette: 0, elbow: [] } }
+    }
+
+    const { clusters, diagnostics } = ClusteringEngine.clusterCustomers(customers, clusteringOptions)
+    const segments = this.buildClusterSegments(clusters)
 
     try {
-      // Prepare customer data for AI analysis
-      const customerSummary = customers.map(c => ({
-        id: c.id,
-        balance: c.accountBalance,
-        income: c.annualIncome,
-        creditScore: c.creditScore,
-        transactionCount: c.transactionCount,
-        riskScore: c.riskScore,
-        clv: c.customerLifetimeValue,
-        accountAge: c.accountAge,
-        lastActivity: c.lastTransactionDays
+      // Only aggregate centroid statistics leave the app, never customer rows
+      const clusterSummary = clusters.map((cluster, i) => ({
+        clusterId: segments[i].segmentId,
+        size: cluster.members.length,
+        shareOfPortfolio: Number((cluster.members.length / customers.length).toFixed(3)),
+        avgBalance: Math.round(cluster.centroid.accountBalance),
+        avgIncome: Math.round(cluster.centroid.annualIncome),
+        avgCreditScore: Math.round(cluster.centroid.creditScore),
+        avgTransactionCount: Math.round(cluster.centroid.transactionCount),
+        avgRiskScore: Number(cluster.centroid.riskScore.toFixed(2)),
+        avgCLV: Math.round(cluster.centroid.customerLifetimeValue),
+        avgAccountAgeMonths: Math.round(cluster.centroid.accountAge),
+        avgDaysSinceLastTransaction: Math.round(cluster.centroid.lastTransactionDays),
+        // z-scores relative to the whole portfolio; positive means above average
+        profile: Object.fromEntries(
+          Object.entries(cluster.profile).map(([feature, z]) => [feature, Number(z.toFixed(2))])
+        )
       }))
 
-      // Use AI to analyze and segment customers
-      const { object } = await blink.ai.generateObject({
-        prompt: `Analyze this banking customer data and create 4-6 meaningful customer segments based on behavior, value, and risk patterns:
-
-Customer Data (${customers.length} customers):
-${JSON.stringify(customerSummary.slice(0, 50), null, 2)}
-
-Create segments that are:
-1. Actionable for banking strategies
-2. Distinct and meaningful
-3. Based on multiple factors (not just balance)
-4. Include both high-value and growth opportunities
-
-For each segment, provide:
-- segmentName: Clear, business-friendly name
-- customerIds: Array of customer IDs that belong to this segment
-- characteristics: Average metrics for the segment
-- insights: 2-3 actionable business insights for this segment
+      const { prompt, promptVersion } = await PromptRegistry.render('segment-naming', {
+        customerCount: customers.length,
+        clusterSummary: JSON.stringify(clusterSummary, null, 2)
+      })
 
-Consider patterns like:
-- High-value customers (premium services)
-- Young professionals (growth potential)
-- Digital natives (mobile-first)
-- Risk-averse savers (conservative products)
-- Active traders (investment products)
-- Dormant accounts (retention needed)`,
+      const object = await generateStructured<{ segments: any[] }>(ai, {
+        feature: 'segmentation',
+        prompt,
         schema: {
           type: 'object',
           properties: {
@@ -82,160 +171,121 @@ Consider patterns like:
               items: {
                 type: 'object',
                 properties: {
+                  clusterId: { type: 'string' },
                   segmentName: { type: 'string' },
-                  customerIds: { 
-                    type: 'array',
-                    items: { type: 'string' }
-                  },
-                  characteristics: {
-                    type: 'object',
-                    properties: {
-                      avgBalance: { type: 'number' },
-                      avgIncome: { type: 'number' },
-                      avgRiskScore: { type: 'number' },
-                      avgCLV: { type: 'number' },
-                      size: { type: 'number' }
-                    }
-                  },
                   insights: {
                     type: 'array',
                     items: { type: 'string' }
                   }
-                }
+                },
+                required: ['clusterId', 'segmentName', 'insights']
               }
             }
-          }
+          },
+          required: ['segments']
         }
       })
 
-      // Process AI results into our format
-      const results: SegmentationResult[] = []
-      
-      if (object.segments) {
-        for (const segment of object.segments) {
-          results.push({
-            segmentId: `seg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            segmentName: segment.segmentName,
-            customers: segment.customerIds,
-            characteristics: segment.characteristics,
-            insights: segment.insights
-          })
+      const segmentsById = new Map(segments.map(segment => [segment.segmentId, segment]))
+      for (const named of object.segments || []) {
+        const segment = segmentsById.get(named.clusterId)
+        if (!segment) {
+          console.warn(`AI segmentation returned unknown cluster ID ${named.clusterId}, ignoring`)
+          continue
+        }
+        if (typeof named.segmentName === 'string' && named.segmentName.trim()) {
+          segment.segmentName = named.segmentName.trim()
+          segment.promptVersion = promptVersion
+        }
+        if (Array.isArray(named.insights)) {
+          const insights = named.insights.filter((i: unknown): i is string => typeof i === 'string' && i.trim() !== '')
+          if (insights.length > 0) segment.insights = insights
         }
       }
 
-      return results
+      this.dedupeSegmentNames(segments)
     } catch (error) {
-      console.error('Error in AI segmentation:', error)
-      // Fallback to rule-based segmentation
-      return this.fallbackSegmentation(customers)
+      console.error('Error naming segments with AI:', error)
+      // Keep the archetype names from the local clustering
     }
+
+    return { segments, diagnostics }
   }
 
   /**
-   * Fallback rule-based segmentation if AI fails
+   * Turn clusters into segments named after their dominant archetype
    */
-  private static fallbackSegmentation(customers: CustomerData[]): SegmentationResult[] {
-    const segments: SegmentationResult[] = []
-
-    // High Value Customers (top 20% by balance)
-    const sortedByBalance = [...customers].sort((a, b) => b.accountBalance - a.accountBalance)
-    const highValueCount = Math.ceil(customers.length * 0.2)
-    const highValueCustomers = sortedByBalance.slice(0, highValueCount)
-    
-    segments.push({
-      segmentId: `seg_high_value_${Date.now()}`,
-      segmentName: 'High Value Customers',
-      customers: highValueCustomers.map(c => c.id),
-      characteristics: {
-        avgBalance: highValueCustomers.reduce((sum, c) => sum + c.accountBalance, 0) / highValueCustomers.length,
-        avgIncome: highValueCustomers.reduce((sum, c) => sum + c.annualIncome, 0) / highValueCustomers.length,
-        avgRiskScore: highValueCustomers.reduce((sum, c) => sum + c.riskScore, 0) / highValueCustomers.length,
-        avgCLV: highValueCustomers.reduce((sum, c) => sum + c.customerLifetimeValue, 0) / highValueCustomers.length,
-        size: highValueCustomers.length
-      },
-      insights: [
-        'Premium banking services and investment products',
-        'Dedicated relationship managers',
-        'Exclusive rewards and benefits programs'
-      ]
-    })
+  private static buildClusterSegments(clusters: CustomerCluster[]): SegmentationResult[] {
+    const runId = Date.now()
+    const segments = clusters.map(cluster => {
+      const archetype = this.describeCluster(cluster)
 
-    // Young Professionals (age-based proxy using account age and income)
-    const youngProfessionals = customers.filter(c => 
-      c.accountAge < 36 && c.annualIncome > 40000 && c.annualIncome < 100000
-    )
-    
-    if (youngProfessionals.length > 0) {
-      segments.push({
-        segmentId: `seg_young_prof_${Date.now()}`,
-        segmentName: 'Young Professionals',
-        customers: youngProfessionals.map(c => c.id),
+      return {
+        segmentId: `seg_cluster_${runId}_${cluster.index}`,
+        segmentName: archetype.name,
+        customers: cluster.members.map(c => c.id),
         characteristics: {
-          avgBalance: youngProfessionals.reduce((sum, c) => sum + c.accountBalance, 0) / youngProfessionals.length,
-          avgIncome: youngProfessionals.reduce((sum, c) => sum + c.annualIncome, 0) / youngProfessionals.length,
-          avgRiskScore: youngProfessionals.reduce((sum, c) => sum + c.riskScore, 0) / youngProfessionals.length,
-          avgCLV: youngProfessionals.reduce((sum, c) => sum + c.customerLifetimeValue, 0) / youngProfessionals.length,
-          size: youngProfessionals.length
+          avgBalance: cluster.centroid.accountBalance,
+          avgIncome: cluster.centroid.annualIncome,
+          avgRiskScore: cluster.centroid.riskScore,
+          avgCLV: cluster.centroid.customerLifetimeValue,
+          size: cluster.members.length
         },
-        insights: [
-          'Mobile-first banking solutions',
-          'Student loan and mortgage products',
-          'Financial planning and investment education'
-        ]
-      })
-    }
+        insights: [...archetype.insights]
+      }
+    })
 
-    // High Risk Customers
-    const highRiskCustomers = customers.filter(c => c.riskScore > 0.7)
-    
-    if (highRiskCustomers.length > 0) {
-      segments.push({
-        segmentId: `seg_high_risk_${Date.now()}`,
-        segmentName: 'High Risk Customers',
-        customers: highRiskCustomers.map(c => c.id),
-        characteristics: {
-          avgBalance: highRiskCustomers.reduce((sum, c) => sum + c.accountBalance, 0) / highRiskCustomers.length,
-          avgIncome: highRiskCustomers.reduce((sum, c) => sum + c.annualIncome, 0) / highRiskCustomers.length,
-          avgRiskScore: highRiskCustomers.reduce((sum, c) => sum + c.riskScore, 0) / highRiskCustomers.length,
-          avgCLV: highRiskCustomers.reduce((sum, c) => sum + c.customerLifetimeValue, 0) / highRiskCustomers.length,
-          size: highRiskCustomers.length
-        },
-        insights: [
-          'Enhanced monitoring and fraud detection',
-          'Risk mitigation strategies',
-          'Potential account restrictions or closures'
-        ]
-      })
+    this.dedupeSegmentNames(segments)
+    return segments
+  }
+
+  private static dedupeSegmentNames(segments: SegmentationResult[]): void {
+    const seen = new Map<string, number>()
+    for (const segment of segments) {
+      const occurrence = (seen.get(segment.segmentName) || 0) + 1
+      seen.set(segment.segmentName, occurrence)
+      if (occurrence > 1) segment.segmentName = `${segment.segmentName} ${occurrence}`
     }
+  }
 
-    return segments
+  /**
+   * Name a cluster after the feature that most distinguishes its centroid from the portfolio
+   */
+  private static describeCluster(cluster: CustomerCluster): { name: string; insights: string[] } {
+    const { profile } = cluster
+    const value = (profile.accountBalance + profile.annualIncome + profile.customerLifetimeValue) / 3
+    const signals = [
+      { score: profile.riskScore, archetype: CLUSTER_ARCHETYPES.highRisk },
+      { score: profile.lastTransactionDays, archetype: CLUSTER_ARCHETYPES.dormant },
+      { score: value, archetype: CLUSTER_ARCHETYPES.highValue },
+      { score: profile.transactionCount, archetype: CLUSTER_ARCHETYPES.activeTransactors },
+      { score: -profile.accountAge, archetype: CLUSTER_ARCHETYPES.newCustomers },
+      { score: profile.accountAge, archetype: CLUSTER_ARCHETYPES.loyal },
+      { score: profile.creditScore, archetype: CLUSTER_ARCHETYPES.primeCredit },
+      { score: -value, archetype: CLUSTER_ARCHETYPES.emerging }
+    ]
+    const strongest = signals.reduce((best, signal) => (signal.score > best.score ? signal : best))
+    return strongest.score > 0.5 ? strongest.archetype : CLUSTER_ARCHETYPES.mainstream
   }
 
   /**
-   * Generate AI-powered customer insights
+   * Generate AI-powered customer insights, with the active prompt unless a version is given
    */
-  static async generateCustomerInsights(customerId: string, customerData: any): Promise<any[]> {
+  static async generateCustomerInsights(customerId: string, customerData: any, promptVersion?: string): Promise<any[]> {
     try {
-      const { object } = await blink.ai.generateObject({
-        prompt: `Analyze this individual banking customer profile and generate 3-5 actionable insights:
-
-Customer Profile:
-- Balance: $${customerData.accountBalance?.toLocaleString() || 0}
-- Credit Score: ${customerData.creditScore || 'N/A'}
-- Annual Income: $${customerData.annualIncome?.toLocaleString() || 'N/A'}
-- Risk Score: ${customerData.riskScore || 0}
-- Transaction Count: ${customerData.transactionCount || 0}
-- Account Age: ${customerData.accountAge || 0} months
-- Last Transaction: ${customerData.lastTransactionDays || 0} days ago
-
-Generate insights for:
-1. Product recommendations
-2. Risk assessment
-3. Engagement opportunities
-4. Revenue optimization
-5. Retention strategies
-
-Each insight should include type, priority, confidence, and actionable recommendation.`,
+      const rendered = await PromptRegistry.render('customer-insights', {
+        balance: `$${customerData.accountBalance?.toLocaleString() || 0}`,
+        creditScore: customerData.creditScore || 'N/A',
+        annualIncome: `$${customerData.annualIncome?.toLocaleString() || 'N/A'}`,
+        riskScore: customerData.riskScore || 0,
+        transactionCount: customerData.transactionCount || 0,
+        accountAge: customerData.accountAge || 0,
+        lastTransactionDays: customerData.lastTransactionDays || 0
+      }, promptVersion)
+
+      const object = await generateStructured<{ insights: any[] }>(ai, {
+        feature: 'insights',
+        prompt: rendered.prompt,
         schema: {
           type: 'object',
           properties: {
@@ -247,98 +297,102 @@ Each insight should include type, priority, confidence, and actionable recommend
                   type: { type: 'string' },
                   title: { type: 'string' },
                   description: { type: 'string' },
-                  priority: { type: 'string' },
-                  confidence: { type: 'number' },
+                  priority: { type: 'string', enum: AI_PRIORITIES, default: 'medium' },
+                  confidence: { type: 'number', minimum: 0, maximum: 1 },
                   recommendation: { type: 'string' },
-                  potentialRevenue: { type: 'number' }
-                }
+                  potentialRevenue: { type: 'number', minimum: 0 }
+                },
+                required: ['type', 'title', 'description', 'confidence']
               }
             }
-          }
+          },
+          required: ['insights']
         }
       })
 
-      return object.insights || []
+      return object.insights.map(insight => ({ ...insight, promptVersion: rendered.promptVersion }))
     } catch (error) {
       console.error('Error generating customer insights:', error)
-      return []
+      // Callers show the failure rather than an empty insights list
+      throw error
     }
   }
 
   /**
-   * Predict customer lifetime value using AI
+   * Predict customer lifetime value with the statistical CLV model
    */
   static async predictCustomerLifetimeValue(customerData: CustomerData): Promise<number> {
-    try {
-      const { text } = await blink.ai.generateText({
-        prompt: `Calculate the predicted Customer Lifetime Value (CLV) for this banking customer:
-
-Customer Data:
-- Current Balance: $${customerData.accountBalance}
-- Annual Income: $${customerData.annualIncome}
-- Credit Score: ${customerData.creditScore}
-- Transaction Count: ${customerData.transactionCount}
-- Account Age: ${customerData.accountAge} months
-- Risk Score: ${customerData.riskScore}
-
-Consider factors:
-1. Revenue potential from fees and interest
-2. Cross-selling opportunities
-3. Retention probability
-4. Risk-adjusted returns
-5. Account growth trajectory
-
-Return only the predicted CLV as a number (no currency symbols or text).`,
-        maxTokens: 50
-      })
+    const estimate = await this.estimateCustomerLifetimeValue(customerData)
+    return estimate ? estimate.expectedValue : customerData.customerLifetimeValue
+  }
 
-      const clv = parseFloat(text.replace(/[^0-9.-]/g, ''))
-      return isNaN(clv) ? customerData.customerLifetimeValue : clv
+  /**
+   * Full CLV estimate with confidence interval and breakdown, projected from the
+   * customer's transaction history
+   */
+  static async estimateCustomerLifetimeValue(
+    customerData: CustomerData,
+    options: CLVOptions = {}
+  ): Promise<CLVEstimate | null> {
+    try {
+      const transactions = await loadAll(db.transactions, { where: { customerId: customerData.id } })
+      return CLVModel.estimate(customerData, transactions, options)
     } catch (error) {
       console.error('Error predicting CLV:', error)
-      return customerData.customerLifetimeValue
+      return null
     }
   }
 
   /**
-   * Assess customer risk using multiple factors
+   * Assess customer risk using multiple factors, with the active prompt unless a version is given
    */
-  static async assessCustomerRisk(customerData: CustomerData, transactionHistory: any[]): Promise<{
+  static async assessCustomerRisk(
+    customerData: CustomerData,
+    transactionHistory: any[],
+    promptVersion?: string,
+    cashFlowWindow?: CashFlowOptions
+  ): Promise<{
     riskScore: number
     riskLevel: string
     factors: string[]
     recommendations: string[]
+    scorecard: ScorecardResult
+    promptVersion?: string
+    aiError?: string
   }> {
-    try {
-      const { object } = await blink.ai.generateObject({
-        prompt: `Assess the risk level for this banking customer:
-
-Customer Profile:
-- Balance: $${customerData.accountBalance}
-- Credit Score: ${customerData.creditScore}
-- Income: $${customerData.annualIncome}
-- Transaction Count: ${customerData.transactionCount}
-- Account Age: ${customerData.accountAge} months
-- Current Risk Score: ${customerData.riskScore}
-
-Recent Transaction Patterns:
-${transactionHistory.slice(0, 10).map(t => 
-  `- ${t.transactionType}: $${t.amount} (${t.merchantCategory || 'N/A'})`
-).join('\n')}
+    // The scorecard is deterministic and always available; the AI adds the narrative
+    const scorecard = CreditScorecard.score(customerData, transactionHistory, cashFlowWindow)
 
-Assess risk based on:
-1. Credit worthiness
-2. Transaction patterns
-3. Account behavior
-4. Income stability
-5. Fraud indicators
-
-Provide risk score (0.0-1.0), level (low/medium/high/critical), risk factors, and recommendations.`,
+    try {
+      const rendered = await PromptRegistry.render('risk-assessment', {
+        balance: `$${customerData.accountBalance}`,
+        creditScore: customerData.creditScore,
+        annualIncome: `$${customerData.annualIncome}`,
+        transactionCount: customerData.transactionCount,
+        accountAge: customerData.accountAge,
+        riskScore: customerData.riskScore,
+        scorecardVersion: scorecard.version,
+        scorecardScore: scorecard.score,
+        scorecardRiskLevel: scorecard.riskLevel,
+        adverseReasons: scorecard.reasonCodes.map(r => `${r.code} ${r.description}`).join('; ') || 'none',
+        recentTransactions: transactionHistory.slice(0, 10).map(t =>
+          `- ${t.transactionType}: $${t.amount} (${t.merchantCategory || 'N/A'})`
+        ).join('\n')
+      }, promptVersion)
+
+      const object = await generateStructured<{
+        riskScore: number
+        riskLevel: string
+        factors: string[]
+        recommendations: string[]
+      }>(ai, {
+        feature: 'risk',
+        prompt: rendered.prompt,
         schema: {
           type: 'object',
           properties: {
-            riskScore: { type: 'number' },
-            riskLevel: { type: 'string' },
+            riskScore: { type: 'number', minimum: 0, maximum: 1 },
+            riskLevel: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
             factors: {
               type: 'array',
               items: { type: 'string' }
@@ -347,52 +401,51 @@ Provide risk score (0.0-1.0), level (low/medium/high/critical), risk factors, an
               type: 'array',
               items: { type: 'string' }
             }
-          }
+          },
+          required: ['riskScore', 'riskLevel', 'factors', 'recommendations']
         }
       })
 
       return {
-        riskScore: Math.max(0, Math.min(1, object.riskScore || customerData.riskScore)),
-        riskLevel: object.riskLevel || 'medium',
-        factors: object.factors || [],
-        recommendations: object.recommendations || []
+        riskScore: object.riskScore,
+        riskLevel: object.riskLevel,
+        factors: object.factors,
+        recommendations: object.recommendations,
+        scorecard,
+        promptVersion: rendered.promptVersion
       }
     } catch (error) {
       console.error('Error assessing customer risk:', error)
       return {
-        riskScore: customerData.riskScore,
-        riskLevel: customerData.riskScore > 0.7 ? 'high' : customerData.riskScore > 0.4 ? 'medium' : 'low',
-        factors: ['Unable to assess risk factors'],
-        recommendations: ['Manual review recommended']
+        riskScore: scorecard.riskScore,
+        riskLevel: scorecard.riskLevel,
+        factors: scorecard.reasonCodes.length > 0
+          ? scorecard.reasonCodes.map(r => r.description)
+          : ['Unable to assess risk factors'],
+        recommendations: ['Manual review recommended'],
+        scorecard,
+        aiError: error instanceof Error ? error.message : String(error)
       }
     }
   }
 
   /**
-   * Generate product recommendations for a customer
+   * Generate product recommendations for a customer, with the active prompt unless a version is given
    */
-  static async generateProductRecommendations(customerData: CustomerData): Promise<any[]> {
+  static async generateProductRecommendations(customerData: CustomerData, promptVersion?: string): Promise<any[]> {
     try {
-      const { object } = await blink.ai.generateObject({
-        prompt: `Generate personalized banking product recommendations for this customer:
-
-Customer Profile:
-- Balance: $${customerData.accountBalance}
-- Credit Score: ${customerData.creditScore}
-- Annual Income: $${customerData.annualIncome}
-- Risk Score: ${customerData.riskScore}
-- Transaction Activity: ${customerData.transactionCount} transactions
-- Account Age: ${customerData.accountAge} months
-
-Available Products:
-- Savings Accounts (high-yield, money market)
-- Credit Cards (rewards, cashback, travel)
-- Loans (personal, auto, mortgage)
-- Investment Products (CDs, mutual funds, retirement)
-- Insurance (life, auto, home)
-- Business Banking (if applicable)
+      const rendered = await PromptRegistry.render('product-recommendations', {
+        balance: `$${customerData.accountBalance}`,
+        creditScore: customerData.creditScore,
+        annualIncome: `$${customerData.annualIncome}`,
+        riskScore: customerData.riskScore,
+        transactionCount: customerData.transactionCount,
+        accountAge: customerData.accountAge
+      }, promptVersion)
 
-Recommend 3-5 products with reasoning, expected revenue, and recommendation score.`,
+      const object = await generateStructured<{ recommendations: any[] }>(ai, {
+        feature: 'recommendations',
+        prompt: rendered.prompt,
         schema: {
           type: 'object',
           properties: {
@@ -404,17 +457,19 @@ Recommend 3-5 products with reasoning, expected revenue, and recommendation scor
                   productType: { type: 'string' },
                   productName: { type: 'string' },
                   reasoning: { type: 'string' },
-                  recommendationScore: { type: 'number' },
-                  potentialRevenue: { type: 'number' },
-                  priority: { type: 'string' }
-                }
+                  recommendationScore: { type: 'number', minimum: 0, maximum: 1 },
+                  potentialRevenue: { type: 'number', minimum: 0 },
+                  priority: { type: 'string', enum: AI_PRIORITIES, default: 'medium' }
+                },
+                required: ['productType', 'productName', 'reasoning', 'recommendationScore']
               }
             }
-          }
+          },
+          required: ['recommendations']
         }
       })
 
-      return object.recommendations || []
+      return object.recommendations.map(recommendation => ({ ...recommendation, promptVersion: rendered.promptVersion }))
     } catch (error) {
       console.error('Error generating product recommendations:', error)
       return []
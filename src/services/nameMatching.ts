@@ -0,0 +1,121 @@
+// Latin spellings for characters NFD decomposition does not strip
+const LIGATURES: Record<string, string> = {
+  ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', ł: 'l', đ: 'd', ð: 'd', þ: 'th', ı: 'i'
+}
+
+// BGN/PCGN-style romanisation, the scheme most watchlists use for Cyrillic names
+const CYRILLIC: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z', и: 'i',
+  й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't',
+  у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch', ъ: '', ы: 'y', ь: '',
+  э: 'e', ю: 'yu', я: 'ya', і: 'i', ї: 'yi', є: 'ye', ґ: 'g'
+}
+
+// Honorifics and particles that carry no identifying weight
+const STOP_TOKENS = new Set(['mr', 'mrs', 'ms', 'dr', 'al', 'el', 'bin', 'ibn', 'van', 'von', 'de', 'der', 'del', 'la'])
+
+export class NameMatcher {
+  /**
+   * Lowercase, transliterate to ASCII and strip punctuation
+   */
+  static normalize(name: string): string {
+    return Array.from(name.toLowerCase())
+      .map(char => CYRILLIC[char] ?? LIGATURES[char] ?? char)
+      .join('')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+  }
+
+  static tokens(name: string): string[] {
+    const tokens = this.normalize(name).split(' ').filter(Boolean)
+    const meaningful = tokens.filter(t => !STOP_TOKENS.has(t))
+    return meaningful.length > 0 ? meaningful : tokens
+  }
+
+  /**
+   * Best of a token-sort comparison (word order ignored) and a token alignment
+   * that lets either name carry extra middle names
+   */
+  static similarity(a: string, b: string): number {
+    const ta = this.tokens(a)
+    const tb = this.tokens(b)
+    if (ta.length === 0 || tb.length === 0) return 0
+
+    // Plain Jaro here: the Winkler prefix bonus over-rewards a shared surname sorted first
+    const tokenSort = this.jaro([...ta].sort().join(' '), [...tb].sort().join(' '))
+    return Math.max(tokenSort, this.tokenAlignment(ta, tb))
+  }
+
+  static jaroWinkler(a: string, b: string): number {
+    const jaro = this.jaro(a, b)
+    let prefix = 0
+    while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++
+    return jaro + prefix * 0.1 * (1 - jaro)
+  }
+
+  static jaro(a: string, b: string): number {
+    if (a === b) return 1
+    if (!a || !b) return 0
+
+    const range = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+    const aMatched = new Array<boolean>(a.length).fill(false)
+    const bMatched = new Array<boolean>(b.length).fill(false)
+
+    let matches = 0
+    for (let i = 0; i < a.length; i++) {
+      const start = Math.max(0, i - range)
+      const end = Math.min(b.length - 1, i + range)
+      for (let j = start; j <= end; j++) {
+        if (bMatched[j] || a[i] !== b[j]) continue
+        aMatched[i] = true
+        bMatched[j] = true
+        matches++
+        break
+      }
+    }
+    if (matches === 0) return 0
+
+    let transpositions = 0
+    let k = 0
+    for (let i = 0; i < a.length; i++) {
+      if (!aMatched[i]) continue
+      while (!bMatched[k]) k++
+      if (a[i] !== b[k]) transpositions++
+      k++
+    }
+
+    return (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+  }
+
+  // Pair each token of the shorter name with its best distinct counterpart
+  private static tokenAlignment(ta: string[], tb: string[]): number {
+    const [shorter, longer] = ta.length <= tb.length ? [ta, tb] : [tb, ta]
+    // A lone token matching one word of a longer name is too weak to count
+    if (shorter.length === 1 && longer.length > 1) return 0
+
+    const used = new Set<number>()
+    let total = 0
+    for (const token of shorter) {
+      let best = 0
+      let bestIndex = -1
+      longer.forEach((candidate, index) => {
+        if (used.has(index)) return
+        // Shrink by length ratio so "john" does not pass for "johnson"
+        const lengthRatio = Math.min(token.length, candidate.length) / Math.max(token.length, candidate.length)
+        const score = this.jaroWinkler(token, candidate) * (0.8 + 0.2 * lengthRatio)
+        if (score > best) {
+          best = score
+          bestIndex = index
+        }
+      })
+      if (bestIndex >= 0) used.add(bestIndex)
+      total += best
+    }
+    return total / shorter.length
+  }
+}
+
+export default NameMatcher
@@ -0,0 +1,127 @@
+import { promptRef } from '../ai'
+import type { PromptName } from '../ai'
+import { db } from '../data'
+import type { Customer, Transaction } from '../data'
+import type { CashFlowOptions } from './cashFlow'
+import { CreditScorecard } from './creditScorecard'
+import { MLEngine } from './mlEngine'
+import type { CustomerData } from './mlEngine'
+
+export interface PromptRunOutput {
+  promptVersion: string
+  output: unknown
+  error?: string
+}
+
+export interface PromptComparisonRow {
+  customerId: string
+  customerName: string
+  a: PromptRunOutput
+  b: PromptRunOutput
+  identical: boolean
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+/**
+ * Runs two versions of a per-customer prompt on the same customers so their
+ * outputs can be compared side by side. Nothing is persisted.
+ */
+export class PromptComparison {
+  /**
+   * The riskiest customers, so a rerun compares the same sample
+   */
+  static async sampleCustomers(count: number): Promise<Customer[]> {
+    return db.customers.list({ orderBy: { riskScore: 'desc' }, limit: count })
+  }
+
+  static toCustomerData(customer: Customer): CustomerData {
+    return {
+      id: customer.id,
+      accountBalance: customer.accountBalance,
+      creditScore: customer.creditScore,
+      annualIncome: customer.annualIncome,
+      transactionCount: customer.transactionCount,
+      avgMonthlyBalance: customer.avgMonthlyBalance || customer.accountBalance * 0.9,
+      riskScore: customer.riskScore,
+      customerLifetimeValue: customer.customerLifetimeValue || 0,
+      accountAge: customer.accountOpenedDate
+        ? Math.floor((Date.now() - new Date(customer.accountOpenedDate).getTime()) / (DAY_MS * 30)) : 0,
+      lastTransactionDays: customer.lastTransactionDate
+        ? Math.floor((Date.now() - new Date(customer.lastTransactionDate).getTime()) / DAY_MS) : 30
+    }
+  }
+
+  private static async runVersion(
+    name: PromptName,
+    version: string,
+    customerData: CustomerData,
+    transactions: Transaction[],
+    cashFlowWindow: CashFlowOptions
+  ): Promise<PromptRunOutput> {
+    const promptVersion = promptRef(name, version)
+    // The version tag differs by definition; compare only what the model produced
+    const strip = (items: Record<string, unknown>[]) => items.map(item => {
+      const output = { ...item }
+      delete output.promptVersion
+      return output
+    })
+
+    try {
+      switch (name) {
+        case 'customer-insights':
+          return { promptVersion, output: strip(await MLEngine.generateCustomerInsights(customerData.id, customerData, version)) }
+        case 'product-recommendations':
+          return { promptVersion, output: strip(await MLEngine.generateProductRecommendations(customerData, version)) }
+        case 'risk-assessment': {
+          const result = await MLEngine.assessCustomerRisk(customerData, transactions, version, cashFlowWindow)
+          const output = {
+            riskScore: result.riskScore,
+            riskLevel: result.riskLevel,
+            factors: result.factors,
+            recommendations: result.recommendations
+          }
+          return result.aiError ? { promptVersion, output, error: result.aiError } : { promptVersion, output }
+        }
+        default:
+          throw new Error(`${name} is not a per-customer prompt`)
+      }
+    } catch (error) {
+      return { promptVersion, output: null, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  static async run(
+    name: PromptName,
+    versionA: string,
+    versionB: string,
+    customers: Customer[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<PromptComparisonRow[]> {
+    const rows: PromptComparisonRow[] = []
+    // Both versions see the same transactions, scored over the same window
+    const cashFlowWindow = CreditScorecard.cashFlowWindow()
+
+    for (const customer of customers) {
+      const transactions = await CreditScorecard.transactionsFor(customer.id, cashFlowWindow)
+      const customerData = this.toCustomerData(customer)
+
+      const [a, b] = await Promise.all([
+        this.runVersion(name, versionA, customerData, transactions, cashFlowWindow),
+        this.runVersion(name, versionB, customerData, transactions, cashFlowWindow)
+      ])
+      rows.push({
+        customerId: customer.id,
+        customerName: `${customer.firstName} ${customer.lastName}`,
+        a,
+        b,
+        identical: !a.error && !b.error && JSON.stringify(a.output) === JSON.stringify(b.output)
+      })
+      onProgress?.(rows.length, customers.length)
+    }
+
+    return rows
+  }
+}
+
+export default PromptComparison
@@ -0,0 +1,116 @@
+import { BUILT_IN_PROMPTS, promptRef, renderPrompt, templateVariables } from '../ai'
+import type { PromptName, PromptTemplate } from '../ai'
+import { db } from '../data'
+import type { DataUser, PromptTemplateVersion } from '../data'
+
+export interface RenderedPrompt {
+  prompt: string
+  promptVersion: string // name@version, stored on every record the output produces
+}
+
+const versionNumber = (version: string) => Number(version.replace(/^v/, '')) || 0
+
+export class PromptRegistry {
+  static builtIn(name: PromptName): PromptTemplate {
+    const template = BUILT_IN_PROMPTS.find(p => p.name === name)
+    if (!template) throw new Error(`Unknown prompt ${name}`)
+    return template
+  }
+
+  private static fromRecord(record: PromptTemplateVersion): PromptTemplate {
+    return {
+      name: record.name as PromptName,
+      version: record.version,
+      template: record.template,
+      notes: record.notes,
+      builtIn: false
+    }
+  }
+
+  private static async records(name: PromptName): Promise<PromptTemplateVersion[]> {
+    return db.promptTemplates.list({ where: { name } })
+  }
+
+  /**
+   * Every version of a prompt, oldest first, with the built-in as v1
+   */
+  static async listVersions(name: PromptName): Promise<PromptTemplate[]> {
+    const records = await this.records(name)
+    return [
+      this.builtIn(name),
+      ...records
+        .sort((a, b) => versionNumber(a.version) - versionNumber(b.version))
+        .map(record => this.fromRecord(record))
+    ]
+  }
+
+  static async getActive(name: PromptName): Promise<PromptTemplate> {
+    const active = (await this.records(name)).find(record => Number(record.isActive) > 0)
+    return active ? this.fromRecord(active) : this.builtIn(name)
+  }
+
+  static async getVersion(name: PromptName, version: string): Promise<PromptTemplate> {
+    const template = (await this.listVersions(name)).find(p => p.version === version)
+    if (!template) throw new Error(`Prompt ${promptRef(name, version)} does not exist`)
+    return template
+  }
+
+  /**
+   * Render the active version, or a specific one when comparing versions
+   */
+  static async render(
+    name: PromptName,
+    variables: Record<string, string | number>,
+    version?: string
+  ): Promise<RenderedPrompt> {
+    const template = version ? await this.getVersion(name, version) : await this.getActive(name)
+    return {
+      prompt: renderPrompt(template.template, variables),
+      promptVersion: promptRef(name, template.version)
+    }
+  }
+
+  /**
+   * Save an edited template as the next version. It may drop variables but not
+   * introduce ones the calling code does not supply.
+   */
+  static async saveVersion(name: PromptName, template: string, notes: string, user: DataUser): Promise<PromptTemplate> {
+    if (!template.trim()) throw new Error('Template is empty')
+
+    const known = templateVariables(this.builtIn(name).template)
+    const unknown = templateVariables(template).filter(variable => !known.includes(variable))
+    if (unknown.length > 0) {
+      throw new Error(`Unknown variables: ${unknown.map(v => `{{${v}}}`).join(', ')}. Available: ${known.map(v => `{{${v}}}`).join(', ')}`)
+    }
+
+    const versions = await this.listVersions(name)
+    const version = `v${versions.reduce((max, p) => Math.max(max, versionNumber(p.version)), 0) + 1}`
+
+    const record = await db.promptTemplates.create({
+      id: `prompt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: user.id,
+      name,
+      version,
+      template,
+      notes,
+      isActive: 0,
+      authorEmail: user.email
+    })
+    return this.fromRecord(record)
+  }
+
+  /**
+   * Make a version the one used by the app; activating v1 reverts to the built-in
+   */
+  static async activate(name: PromptName, version: string): Promise<void> {
+    const records = await this.records(name)
+    for (const record of records) {
+      const isActive = record.version === version ? 1 : 0
+      if (Number(record.isActive) !== isActive) {
+        await db.promptTemplates.update(record.id, { isActive })
+      }
+    }
+  }
+}
+
+export default PromptRegistry
@@ -0,0 +1,204 @@
+import { db, loadAll, streamRecords } from '../data'
+import type { Customer, DataUser, LoadProgress, ScreeningMatch } from '../data'
+import { NameMatcher } from './nameMatching'
+import type { Watchlist, WatchlistEntry } from './watchlist'
+
+export type DobMatch = 'exact' | 'year' | 'mismatch' | 'unknown'
+export type CountryMatch = 'match' | 'mismatch' | 'unknown'
+export type ScreeningDecision = 'cleared' | 'escalated'
+
+export interface ScreeningCandidate {
+  entry: WatchlistEntry
+  matchedName: string
+  nameScore: number
+  dobMatch: DobMatch
+  countryMatch: CountryMatch
+  score: number
+}
+
+export interface ScreeningRunResult {
+  customersScreened: number
+  entriesScreened: number
+  newMatches: number
+  customersWithMatches: number
+}
+
+// Name similarity needed before DOB / country are even considered
+export const NAME_MATCH_THRESHOLD = 0.85
+// Final score at which a hit goes to the review queue
+export const REVIEW_THRESHOLD = 0.82
+
+const DOB_ADJUSTMENT: Record<DobMatch, number> = { exact: 0.1, year: 0.04, mismatch: -0.15, unknown: 0 }
+const COUNTRY_ADJUSTMENT: Record<CountryMatch, number> = { match: 0.05, mismatch: -0.05, unknown: 0 }
+const SCREENED_ENTRY_TYPES = ['individual', '']
+
+export interface WatchlistIndex {
+  // Entries keyed by the first letter of any of their name tokens
+  byInitial: Map<string, WatchlistEntry[]>
+  entryCount: number
+}
+
+export class ScreeningService {
+  /**
+   * Score one customer against the watchlist; returns hits above the review threshold
+   */
+  static screenCustomer(customer: Customer, index: WatchlistIndex): ScreeningCandidate[] {
+    const customerName = `${customer.firstName} ${customer.lastName}`
+    const entries = new Set<WatchlistEntry>()
+    for (const token of NameMatcher.tokens(customerName)) {
+      for (const entry of index.byInitial.get(token[0]) || []) entries.add(entry)
+    }
+
+    const candidates: ScreeningCandidate[] = []
+    for (const entry of entries) {
+      let nameScore = 0
+      let matchedName = entry.name
+      for (const name of [entry.name, ...entry.aliases]) {
+        const score = NameMatcher.similarity(customerName, name)
+        if (score > nameScore) {
+          nameScore = score
+          matchedName = name
+        }
+      }
+      if (nameScore < NAME_MATCH_THRESHOLD) continue
+
+      const dobMatch = this.compareDob(customer.dateOfBirth, entry)
+      const countryMatch = this.compareCountry(customer.country, entry)
+      const score = Math.max(0, Math.min(1, nameScore + DOB_ADJUSTMENT[dobMatch] + COUNTRY_ADJUSTMENT[countryMatch]))
+      if (score < REVIEW_THRESHOLD) continue
+
+      candidates.push({
+        entry,
+        matchedName,
+        nameScore: Math.round(nameScore * 1000) / 1000,
+        dobMatch,
+        countryMatch,
+        score: Math.round(score * 1000) / 1000
+      })
+    }
+
+    return candidates.sort((a, b) => b.score - a.score)
+  }
+
+  /**
+   * Screen every customer, queue new hits for review and refresh each
+   * customer's screening status. Hits already decided are left alone.
+   */
+  static async screenAll(watchlist: Watchlist, user: DataUser, onProgress?: (progress: LoadProgress) => void): Promise<ScreeningRunResult> {
+    const index = this.buildIndex(watchlist)
+    const existing = await loadAll(db.screeningMatches)
+    const matchesByCustomer = new Map<string, ScreeningMatch[]>()
+    for (const match of existing) {
+      const list = matchesByCustomer.get(match.customerId) || []
+      list.push(match)
+      matchesByCustomer.set(match.customerId, list)
+    }
+
+    const result: ScreeningRunResult = { customersScreened: 0, entriesScreened: index.entryCount, newMatches: 0, customersWithMatches: 0 }
+    const screenedAt = new Date().toISOString()
+
+    for await (const page of streamRecords(db.customers, { onProgress })) {
+      for (const customer of page) {
+        result.customersScreened++
+        const known = matchesByCustomer.get(customer.id) || []
+        const knownEntries = new Set(known.map(m => m.entryId))
+
+        try {
+          const fresh = this.screenCustomer(customer, index).filter(c => !knownEntries.has(c.entry.uid))
+          const created = fresh.length > 0
+            ? await db.screeningMatches.createMany(fresh.map(candidate => ({
+                id: `screen_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                userId: user.id,
+                customerId: customer.id,
+                entryId: candidate.entry.uid,
+                entryName: candidate.entry.name,
+                matchedName: candidate.matchedName,
+                listType: candidate.entry.listType,
+                programs: candidate.entry.programs.join(', '),
+                nameScore: candidate.nameScore,
+                dobMatch: candidate.dobMatch,
+                countryMatch: candidate.countryMatch,
+                score: candidate.score,
+                status: 'pending',
+                watchlistSource: watchlist.source
+              })))
+            : []
+          result.newMatches += created.length
+
+          const all = [...known, ...created]
+          if (all.length > 0) result.customersWithMatches++
+          await db.customers.update(customer.id, { screeningStatus: this.customerStatus(all), screenedAt })
+        } catch (error) {
+          console.error(`Error screening customer ${customer.id}:`, error)
+        }
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Record a reviewer decision on a hit and roll it up to the customer
+   */
+  static async decide(matchId: string, decision: ScreeningDecision, reason: string, reviewer: string): Promise<ScreeningMatch> {
+    const match = await db.screeningMatches.update(matchId, {
+      status: decision,
+      decisionReason: reason,
+      reviewedBy: reviewer,
+      reviewedAt: new Date().toISOString()
+    })
+
+    const matches = await db.screeningMatches.list({ where: { customerId: match.customerId } })
+    await db.customers.update(match.customerId, { screeningStatus: this.customerStatus(matches) })
+    return match
+  }
+
+  static customerStatus(matches: Pick<ScreeningMatch, 'status'>[]): string {
+    if (matches.some(m => m.status === 'escalated')) return 'escalated'
+    if (matches.some(m => m.status === 'pending')) return 'potential_match'
+    return 'clear'
+  }
+
+  static buildIndex(watchlist: Watchlist): WatchlistIndex {
+    const byInitial = new Map<string, WatchlistEntry[]>()
+    let entryCount = 0
+
+    for (const entry of watchlist.entries) {
+      if (!SCREENED_ENTRY_TYPES.includes(entry.entryType)) continue
+      entryCount++
+      const initials = new Set([entry.name, ...entry.aliases].flatMap(name => NameMatcher.tokens(name).map(t => t[0])))
+      for (const initial of initials) {
+        const list = byInitial.get(initial) || []
+        list.push(entry)
+        byInitial.set(initial, list)
+      }
+    }
+
+    return { byInitial, entryCount }
+  }
+
+  private static compareDob(dateOfBirth: string, entry: WatchlistEntry): DobMatch {
+    const [year, month, day] = (dateOfBirth || '').split('-').map(Number)
+    if (!year || entry.datesOfBirth.length === 0) return 'unknown'
+    if (entry.datesOfBirth.some(d => d.year === year && d.month === month && d.day === day)) return 'exact'
+    if (entry.datesOfBirth.some(d => d.year === year)) return 'year'
+    return 'mismatch'
+  }
+
+  private static compareCountry(country: string, entry: WatchlistEntry): CountryMatch {
+    if (!country || entry.countries.length === 0) return 'unknown'
+    const names = new Set([country, this.countryName(country)].map(c => NameMatcher.normalize(c)))
+    return entry.countries.some(c => names.has(NameMatcher.normalize(c))) ? 'match' : 'mismatch'
+  }
+
+  // Customers store ISO codes, watchlists spell countries out
+  private static countryName(code: string): string {
+    try {
+      return new Intl.DisplayNames(['en'], { type: 'region' }).of(code.toUpperCase()) || code
+    } catch {
+      return code
+    }
+  }
+}
+
+export default ScreeningService
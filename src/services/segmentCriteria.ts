@@ -0,0 +1,232 @@
+import { db, loadAll } from '../data'
+import type { Customer, CustomerSegment, CustomerSegmentAssignment } from '../data'
+import { ChurnModel } from './churnModel'
+
+export type RangeCondition = { min?: number; max?: number }
+export type FieldCondition = RangeCondition | string | number | boolean | (string | number)[]
+
+/**
+ * Machine-readable segment criteria as stored in `customerSegments.criteria`.
+ * Top-level field conditions are ANDed; AND / OR hold nested groups.
+ */
+export interface SegmentCriteria {
+  AND?: SegmentCriteria[]
+  OR?: SegmentCriteria[]
+  [field: string]: FieldCondition | SegmentCriteria[] | undefined
+}
+
+type EvaluationRecord = Record<string, unknown>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Fields computed from stored columns at evaluation time
+const DERIVED_FIELDS: Record<string, (customer: Customer, now: number) => number | undefined> = {
+  lastTransactionDays: (customer, now) => customer.lastTransactionDate
+    ? Math.floor((now - new Date(customer.lastTransactionDate).getTime()) / DAY_MS)
+    : undefined,
+  accountAgeMonths: (customer, now) => customer.accountOpenedDate
+    ? Math.floor((now - new Date(customer.accountOpenedDate).getTime()) / (DAY_MS * 30))
+    : undefined,
+  age: (customer, now) => customer.dateOfBirth
+    ? Math.floor((now - new Date(customer.dateOfBirth).getTime()) / (DAY_MS * 365.25))
+    : undefined
+}
+
+export interface CriteriaFieldDefinition {
+  field: string
+  label: string
+  type: 'range' | 'enum'
+  options?: string[]
+  format?: 'currency' | 'score' | 'ratio'
+}
+
+// Customer fields offered in the segment rule builder
+export const CRITERIA_FIELDS: CriteriaFieldDefinition[] = [
+  { field: 'accountBalance', label: 'Account Balance', type: 'range', format: 'currency' },
+  { field: 'creditScore', label: 'Credit Score', type: 'range', format: 'score' },
+  { field: 'annualIncome', label: 'Annual Income', type: 'range', format: 'currency' },
+  { field: 'riskScore', label: 'Risk Score (0-1)', type: 'range', format: 'ratio' },
+  { field: 'churnProbability', label: 'Churn Probability (0-1)', type: 'range', format: 'ratio' },
+  { field: 'preferredChannel', label: 'Preferred Channel', type: 'enum', options: ['online', 'mobile', 'branch', 'atm', 'phone'] },
+  { field: 'accountType', label: 'Account Type', type: 'enum', options: ['checking', 'savings', 'premium', 'business'] },
+  {
+    field: 'employmentStatus',
+    label: 'Employment Status',
+    type: 'enum',
+    options: ['employed', 'self-employed', 'unemployed', 'retired', 'student']
+  },
+  {
+    field: 'state',
+    label: 'State',
+    type: 'enum',
+    options: ['AZ', 'CA', 'FL', 'GA', 'IL', 'IN', 'MA', 'MD', 'MI', 'MO', 'NC', 'NJ', 'NY', 'OH', 'PA', 'TN', 'TX', 'VA', 'WA', 'WI']
+  }
+]
+
+// Keys written by AI segmentation runs; they describe a segment but cannot be evaluated
+const DESCRIPTIVE_KEYS = ['aiGenerated', 'characteristics']
+
+export interface SegmentRefreshResult {
+  segmentId: string
+  customerCount: number
+  avgBalance: number
+}
+
+export class SegmentCriteriaEngine {
+  /**
+   * Parse stored criteria JSON; returns null when the segment has no executable rules
+   */
+  static parse(criteria: string | null | undefined): SegmentCriteria | null {
+    if (!criteria) return null
+    try {
+      const parsed = JSON.parse(criteria)
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return null
+      if (parsed.aiGenerated) return null
+      const ruleKeys = Object.keys(parsed).filter(key => !DESCRIPTIVE_KEYS.includes(key))
+      return ruleKeys.length > 0 ? parsed : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Build the record criteria are evaluated against: stored columns plus derived fields
+   */
+  static toEvaluationRecord(customer: Customer, extraFields: Record<string, unknown> = {}, now: number = Date.now()): EvaluationRecord {
+    const record: EvaluationRecord = { ...customer }
+    for (const [field, derive] of Object.entries(DERIVED_FIELDS)) {
+      record[field] = derive(customer, now)
+    }
+    return { ...record, ...extraFields }
+  }
+
+  /**
+   * Check whether a single record satisfies the criteria
+   */
+  static evaluate(criteria: SegmentCriteria, record: EvaluationRecord): boolean {
+    return Object.entries(criteria).every(([key, condition]) => {
+      if (condition === undefined || DESCRIPTIVE_KEYS.includes(key)) return true
+      if (key === 'AND') return (condition as SegmentCriteria[]).every(group => this.evaluate(group, record))
+      if (key === 'OR') {
+        const groups = condition as SegmentCriteria[]
+        return groups.length === 0 || groups.some(group => this.evaluate(group, record))
+      }
+      return this.matchesCondition(record[key], condition as FieldCondition)
+    })
+  }
+
+  /**
+   * Every field a criteria tree refers to, including nested groups
+   */
+  static referencedFields(criteria: SegmentCriteria): Set<string> {
+    const fields = new Set<string>()
+    for (const [key, condition] of Object.entries(criteria)) {
+      if (DESCRIPTIVE_KEYS.includes(key)) continue
+      if (key === 'AND' || key === 'OR') {
+        for (const group of condition as SegmentCriteria[]) {
+          this.referencedFields(group).forEach(field => fields.add(field))
+        }
+      } else {
+        fields.add(key)
+      }
+    }
+    return fields
+  }
+
+  /**
+   * Customers matching the criteria
+   */
+  static filterCustomers(
+    criteria: SegmentCriteria,
+    customers: Customer[],
+    extraFields?: Map<string, Record<string, unknown>>
+  ): Customer[] {
+    const now = Date.now()
+    return customers.filter(customer =>
+      this.evaluate(criteria, this.toEvaluationRecord(customer, extraFields?.get(customer.id), now))
+    )
+  }
+
+  /**
+   * Recompute live membership for one segment, refresh its stats and rewrite its assignments
+   */
+  static async refreshSegment(
+    segment: CustomerSegment,
+    customers: Customer[],
+    userId: string,
+    extraFields?: Map<string, Record<string, unknown>>
+  ): Promise<SegmentRefreshResult | null> {
+    const criteria = this.parse(segment.criteria)
+    if (!criteria) return null
+
+    const members = this.filterCustomers(criteria, customers, extraFields)
+    const avgBalance = members.length > 0
+      ? members.reduce((sum, c) => sum + (c.accountBalance || 0), 0) / members.length
+      : 0
+
+    await db.customerSegmentAssignments.deleteMany({ where: { segmentId: segment.id } })
+
+    const assignments: Partial<CustomerSegmentAssignment>[] = members.map(customer => ({
+      id: `assign_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId,
+      customerId: customer.id,
+      segmentId: segment.id,
+      confidenceScore: 1 // rule-based membership is exact
+    }))
+    for (let i = 0; i < assignments.length; i += 50) {
+      await db.customerSegmentAssignments.createMany(assignments.slice(i, i + 50))
+    }
+
+    await db.customerSegments.update(segment.id, {
+      customerCount: members.length,
+      avgBalance
+    })
+
+    return { segmentId: segment.id, customerCount: members.length, avgBalance }
+  }
+
+  /**
+   * Refresh every segment whose criteria can be executed
+   */
+  static async refreshAllSegments(userId: string): Promise<SegmentRefreshResult[]> {
+    const [segments, customers] = await Promise.all([
+      db.customerSegments.list(),
+      loadAll(db.customers)
+    ])
+
+    // Model-derived fields are only computed when some segment's rules use them
+    const usesChurn = segments.some(segment => {
+      const criteria = this.parse(segment.criteria)
+      return criteria !== null && this.referencedFields(criteria).has('churnProbability')
+    })
+    const extraFields = usesChurn
+      ? ChurnModel.toCriteriaFields((await ChurnModel.predictAll(customers)).predictions)
+      : undefined
+
+    const results: SegmentRefreshResult[] = []
+    for (const segment of segments) {
+      try {
+        const result = await this.refreshSegment(segment, customers, userId, extraFields)
+        if (result) results.push(result)
+      } catch (error) {
+        console.error(`Error refreshing segment ${segment.id}:`, error)
+      }
+    }
+    return results
+  }
+
+  private static matchesCondition(value: unknown, condition: FieldCondition): boolean {
+    if (Array.isArray(condition)) return condition.includes(value as string | number)
+
+    if (typeof condition === 'object' && condition !== null) {
+      if (typeof value !== 'number' || Number.isNaN(value)) return false
+      if (condition.min !== undefined && value < condition.min) return false
+      if (condition.max !== undefined && value > condition.max) return false
+      return true
+    }
+
+    return value === condition
+  }
+}
+
+export default SegmentCriteriaEngine
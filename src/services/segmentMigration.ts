@@ -0,0 +1,113 @@
+import { db, loadAll } from '../data'
+import type { Customer, CustomerSegment, SegmentationRun } from '../data'
+
+export interface MigrationCell {
+  fromSegmentId: string | null // null = not assigned in the base run
+  toSegmentId: string | null // null = not assigned in the target run
+  customerCount: number
+  totalBalance: number
+}
+
+export interface CustomerMovement {
+  customerId: string
+  fromSegmentId: string | null
+  toSegmentId: string | null
+}
+
+export interface SegmentMigration {
+  base: SegmentationRun
+  target: SegmentationRun
+  fromSegments: CustomerSegment[]
+  toSegments: CustomerSegment[]
+  cells: MigrationCell[]
+  movements: CustomerMovement[]
+  movedCount: number
+}
+
+// Default "who moved where" question asked by the retention team
+export const HIGH_VALUE_PATTERN = /high[\s-]*value/i
+export const AT_RISK_PATTERN = /at[\s-]*risk|high[\s-]*risk/i
+
+export class SegmentMigrationService {
+  /**
+   * Build the from→to transition matrix between two segmentation runs from
+   * their customer assignments
+   */
+  static async buildMigration(
+    base: SegmentationRun,
+    target: SegmentationRun,
+    customers: Customer[]
+  ): Promise<SegmentMigration> {
+    const [fromSegments, toSegments, baseAssignments, targetAssignments] = await Promise.all([
+      db.customerSegments.list({ where: { runId: base.id }, orderBy: { customerCount: 'desc' } }),
+      db.customerSegments.list({ where: { runId: target.id }, orderBy: { customerCount: 'desc' } }),
+      loadAll(db.customerSegmentAssignments, { where: { runId: base.id } }),
+      loadAll(db.customerSegmentAssignments, { where: { runId: target.id } })
+    ])
+
+    const baseMembership = new Map(baseAssignments.map(a => [a.customerId, a.segmentId]))
+    const targetMembership = new Map(targetAssignments.map(a => [a.customerId, a.segmentId]))
+    const balances = new Map(customers.map(c => [c.id, c.accountBalance || 0]))
+
+    const customerIds = new Set([...baseMembership.keys(), ...targetMembership.keys()])
+    const cells = new Map<string, MigrationCell>()
+    const movements: CustomerMovement[] = []
+    let movedCount = 0
+
+    for (const customerId of customerIds) {
+      const fromSegmentId = baseMembership.get(customerId) ?? null
+      const toSegmentId = targetMembership.get(customerId) ?? null
+      const key = `${fromSegmentId}→${toSegmentId}`
+
+      const cell = cells.get(key) || { fromSegmentId, toSegmentId, customerCount: 0, totalBalance: 0 }
+      cell.customerCount++
+      cell.totalBalance += balances.get(customerId) || 0
+      cells.set(key, cell)
+
+      movements.push({ customerId, fromSegmentId, toSegmentId })
+      if (this.segmentKey(fromSegments, fromSegmentId) !== this.segmentKey(toSegments, toSegmentId)) movedCount++
+    }
+
+    return {
+      base,
+      target,
+      fromSegments,
+      toSegments,
+      cells: Array.from(cells.values()),
+      movements,
+      movedCount
+    }
+  }
+
+  /**
+   * Customers who were in one segment of the base run and are in the given segment of the target run
+   */
+  static migratedCustomers(
+    migration: SegmentMigration,
+    fromSegmentId: string,
+    toSegmentId: string,
+    customers: Customer[]
+  ): Customer[] {
+    const ids = new Set(
+      migration.movements
+        .filter(m => m.fromSegmentId === fromSegmentId && m.toSegmentId === toSegmentId)
+        .map(m => m.customerId)
+    )
+    return customers.filter(c => ids.has(c.id))
+  }
+
+  /**
+   * First segment whose name matches the pattern
+   */
+  static findSegment(segments: CustomerSegment[], pattern: RegExp): CustomerSegment | undefined {
+    return segments.find(s => pattern.test(s.segmentName))
+  }
+
+  // Segment ids differ between runs, so a customer has only "moved" when the segment name changed
+  private static segmentKey(segments: CustomerSegment[], segmentId: string | null): string | null {
+    if (!segmentId) return null
+    return segments.find(s => s.id === segmentId)?.segmentName ?? segmentId
+  }
+}
+
+export default SegmentMigrationService
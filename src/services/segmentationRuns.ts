@@ -0,0 +1,207 @@
+import { db } from '../data'
+import type { CustomerSegment, CustomerSegmentAssignment, DataUser, SegmentationRun } from '../data'
+import type { ClusteringDiagnostics } from './clustering'
+import type { SegmentationResult } from './mlEngine'
+
+export interface RunSummary {
+  run: SegmentationRun
+  segments: CustomerSegment[]
+  totalCustomers: number
+  totalRevenue: number
+}
+
+export interface RunComparison {
+  base: RunSummary
+  target: RunSummary
+  // Segments matched by name across the two runs
+  segments: {
+    segmentName: string
+    baseCount: number | null
+    targetCount: number | null
+    change: number | null
+  }[]
+}
+
+export class SegmentationRunService {
+  /**
+   * Persist a segmentation result as a new run version with its segments and
+   * assignments, then make it the active run
+   */
+  static async recordRun(
+    results: SegmentationResult[],
+    options: { method: string; parameters: Record<string, unknown> },
+    user: DataUser
+  ): Promise<SegmentationRun> {
+    const [existingRuns, previousSegments] = await Promise.all([
+      this.listRuns(),
+      this.activeRunSegments()
+    ])
+    const version = existingRuns.reduce((max, run) => Math.max(max, run.version || 0), 0) + 1
+    const runId = `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+    const run = await db.segmentationRuns.create({
+      id: runId,
+      userId: user.id,
+      version,
+      method: options.method,
+      parameters: JSON.stringify(options.parameters),
+      segmentCount: results.length,
+      customerCount: results.reduce((sum, r) => sum + r.customers.length, 0),
+      authorEmail: user.email,
+      isActive: 0
+    })
+
+    const previousCounts = new Map(previousSegments.map(s => [s.segmentName, s.customerCount]))
+
+    for (const result of results) {
+      const previousCount = previousCounts.get(result.segmentName)
+
+      await db.customerSegments.create({
+        id: result.segmentId,
+        userId: user.id,
+        segmentName: result.segmentName,
+        description: result.insights.join('. '),
+        criteria: JSON.stringify({
+          aiGenerated: true,
+          characteristics: result.characteristics
+        }),
+        customerCount: result.customers.length,
+        avgBalance: result.characteristics.avgBalance,
+        totalRevenue: result.characteristics.avgBalance * result.customers.length,
+        // Growth against the same-named segment of the previously active run
+        growthRate: previousCount ? ((result.customers.length - previousCount) / previousCount) * 100 : 0,
+        riskLevel: result.characteristics.avgRiskScore > 0.7 ? 'high' :
+                  result.characteristics.avgRiskScore > 0.4 ? 'medium' : 'low',
+        isActive: 0,
+        runId,
+        promptVersion: result.promptVersion
+      })
+
+      const assignments: Partial<CustomerSegmentAssignment>[] = result.customers.map(customerId => ({
+        id: `assign_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        userId: user.id,
+        customerId,
+        segmentId: result.segmentId,
+        confidenceScore: 1, // k-means membership is a hard assignment
+        runId
+      }))
+      for (let i = 0; i < assignments.length; i += 50) {
+        await db.customerSegmentAssignments.createMany(assignments.slice(i, i + 50))
+      }
+    }
+
+    await this.activateRun(runId)
+    return { ...run, isActive: 1 }
+  }
+
+  /**
+   * Clustering diagnostics stored with a run; null for runs recorded without them
+   */
+  static parseDiagnostics(run: SegmentationRun): ClusteringDiagnostics | null {
+    try {
+      const parameters = JSON.parse(run.parameters || '{}')
+      return parameters.diagnostics || null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * All runs, newest version first
+   */
+  static async listRuns(): Promise<SegmentationRun[]> {
+    return db.segmentationRuns.list({ orderBy: { version: 'desc' } })
+  }
+
+  /**
+   * Make one run the active one; its segments become visible and every other
+   * run's segments are deactivated. Activating an older run is a rollback.
+   */
+  static async activateRun(runId: string): Promise<void> {
+    const runs = await this.listRuns()
+
+    for (const run of runs) {
+      const isActive = run.id === runId ? 1 : 0
+      if (run.isActive !== isActive) {
+        await db.segmentationRuns.update(run.id, { isActive })
+      }
+
+      const segments = await db.customerSegments.list({ where: { runId: run.id } })
+      for (const segment of segments) {
+        if (segment.isActive !== isActive) {
+          await db.customerSegments.update(segment.id, { isActive })
+        }
+      }
+    }
+  }
+
+  /**
+   * Delete a run together with its segments and assignments. Deleting the
+   * active run falls back to the newest remaining run.
+   */
+  static async deleteRun(runId: string): Promise<void> {
+    const run = await db.segmentationRuns.get(runId)
+
+    await db.customerSegmentAssignments.deleteMany({ where: { runId } })
+    await db.customerSegments.deleteMany({ where: { runId } })
+    await db.segmentationRuns.delete(runId)
+
+    if (run?.isActive) {
+      const [latest] = await this.listRuns()
+      if (latest) await this.activateRun(latest.id)
+    }
+  }
+
+  /**
+   * Segments and totals for one run
+   */
+  static async summarizeRun(run: SegmentationRun): Promise<RunSummary> {
+    const segments = await db.customerSegments.list({
+      where: { runId: run.id },
+      orderBy: { customerCount: 'desc' }
+    })
+    return {
+      run,
+      segments,
+      totalCustomers: segments.reduce((sum, s) => sum + s.customerCount, 0),
+      totalRevenue: segments.reduce((sum, s) => sum + s.totalRevenue, 0)
+    }
+  }
+
+  /**
+   * Side-by-side comparison of two runs, matching segments by name
+   */
+  static async compareRuns(base: SegmentationRun, target: SegmentationRun): Promise<RunComparison> {
+    const [baseSummary, targetSummary] = await Promise.all([
+      this.summarizeRun(base),
+      this.summarizeRun(target)
+    ])
+
+    const baseCounts = new Map(baseSummary.segments.map(s => [s.segmentName, s.customerCount]))
+    const targetCounts = new Map(targetSummary.segments.map(s => [s.segmentName, s.customerCount]))
+    const names = Array.from(new Set([...baseCounts.keys(), ...targetCounts.keys()]))
+
+    return {
+      base: baseSummary,
+      target: targetSummary,
+      segments: names.map(segmentName => {
+        const baseCount = baseCounts.get(segmentName) ?? null
+        const targetCount = targetCounts.get(segmentName) ?? null
+        return {
+          segmentName,
+          baseCount,
+          targetCount,
+          change: baseCount !== null && targetCount !== null ? targetCount - baseCount : null
+        }
+      })
+    }
+  }
+
+  private static async activeRunSegments(): Promise<CustomerSegment[]> {
+    const [activeRun] = await db.segmentationRuns.list({ where: { isActive: 1 }, limit: 1 })
+    if (!activeRun) return []
+    return db.customerSegments.list({ where: { runId: activeRun.id } })
+  }
+}
+
+export default SegmentationRunService
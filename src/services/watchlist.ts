@@ -0,0 +1,197 @@
+export type WatchlistListType = 'sanctions' | 'pep'
+
+export interface WatchlistDate {
+  year: number
+  month?: number
+  day?: number
+}
+
+export interface WatchlistEntry {
+  uid: string
+  name: string
+  aliases: string[]
+  entryType: string // individual | entity | vessel | aircraft
+  programs: string[]
+  listType: WatchlistListType
+  datesOfBirth: WatchlistDate[]
+  countries: string[]
+  remarks: string
+}
+
+export interface Watchlist {
+  source: string
+  loadedAt: string
+  entries: WatchlistEntry[]
+}
+
+/** Fictitious entries in OFAC SDN CSV layout, bundled so screening works offline */
+export const SAMPLE_WATCHLIST_URL = '/watchlists/sdn_sample.csv'
+
+const OFAC_NULL = '-0-'
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+export class WatchlistLoader {
+  /**
+   * Fetch a watchlist file served alongside the app
+   */
+  static async fetch(url: string = SAMPLE_WATCHLIST_URL): Promise<Watchlist> {
+    const response = await fetch(url)
+    if (!response.ok) throw new Error(`Could not load watchlist ${url}: ${response.status}`)
+    return this.parse(await response.text(), url.split('/').pop() || url)
+  }
+
+  /**
+   * Parse an OFAC SDN file in either its CSV (sdn.csv) or XML (sdn.xml) format
+   */
+  static parse(text: string, source: string): Watchlist {
+    const isXml = text.trimStart().startsWith('<')
+    const entries = isXml ? this.parseSdnXml(text) : this.parseSdnCsv(text)
+    if (entries.length === 0) throw new Error(`No watchlist entries found in ${source}`)
+    return { source, loadedAt: new Date().toISOString(), entries }
+  }
+
+  /**
+   * sdn.csv has no header row: ent_num, SDN_Name, SDN_Type, Program, Title,
+   * Call_Sign, Vess_type, Tonnage, GRT, Vess_flag, Vess_owner, Remarks.
+   * DOB, nationality and a.k.a. names only appear inside Remarks.
+   */
+  static parseSdnCsv(text: string): WatchlistEntry[] {
+    return this.csvRows(text)
+      .filter(row => row.length >= 4 && /^\d+$/.test(row[0].trim()))
+      .map(row => {
+        const value = (index: number) => {
+          const cell = (row[index] || '').trim()
+          return cell === OFAC_NULL ? '' : cell
+        }
+        const remarks = value(11)
+        const programs = value(3).split(/[\]\s]*\[|\]/).map(p => p.trim()).filter(Boolean)
+
+        return {
+          uid: value(0),
+          name: this.displayName(value(1)),
+          aliases: this.remarkValues(remarks, /a\.k\.a\.?\s*'([^']+)'/gi).map(alias => this.displayName(alias)),
+          entryType: (value(2) || 'entity').toLowerCase(),
+          programs,
+          listType: this.listType(programs),
+          datesOfBirth: this.remarkValues(remarks, /DOB\s+([^;]+)/gi).flatMap(dob => this.parseDates(dob)),
+          countries: this.remarkValues(remarks, /(?:nationality|citizen)\s+([^;.(]+)/gi).map(c => c.trim()),
+          remarks
+        }
+      })
+  }
+
+  static parseSdnXml(text: string): WatchlistEntry[] {
+    const doc = new DOMParser().parseFromString(text, 'application/xml')
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Watchlist XML could not be parsed')
+
+    const childText = (element: Element, tag: string) => element.getElementsByTagName(tag)[0]?.textContent?.trim() || ''
+    const fullName = (element: Element) => [childText(element, 'firstName'), childText(element, 'lastName')].filter(Boolean).join(' ')
+
+    return Array.from(doc.getElementsByTagName('sdnEntry')).map(entry => {
+      const programs = Array.from(entry.getElementsByTagName('program')).map(p => p.textContent?.trim() || '').filter(Boolean)
+      const countries = [
+        ...Array.from(entry.getElementsByTagName('nationality')),
+        ...Array.from(entry.getElementsByTagName('citizenship'))
+      ].map(n => childText(n, 'country')).filter(Boolean)
+
+      return {
+        uid: childText(entry, 'uid'),
+        name: fullName(entry),
+        aliases: Array.from(entry.getElementsByTagName('aka')).map(fullName).filter(Boolean),
+        entryType: childText(entry, 'sdnType').toLowerCase(),
+        programs,
+        listType: this.listType(programs),
+        datesOfBirth: Array.from(entry.getElementsByTagName('dateOfBirth')).flatMap(d => this.parseDates(d.textContent || '')),
+        countries: Array.from(new Set(countries)),
+        remarks: childText(entry, 'remarks')
+      }
+    })
+  }
+
+  /**
+   * OFAC dates come as "12 Jan 1960", "Jan 1960", "1960", "circa 1960" or "1958 to 1962"
+   */
+  static parseDates(value: string): WatchlistDate[] {
+    const text = value.toLowerCase().replace('circa', '').trim()
+
+    const range = text.match(/^(\d{4})\s*(?:to|-)\s*(\d{4})$/)
+    if (range) {
+      const dates: WatchlistDate[] = []
+      for (let year = Number(range[1]); year <= Number(range[2]); year++) dates.push({ year })
+      return dates
+    }
+
+    const full = text.match(/^(?:(\d{1,2})\s+)?([a-z]{3})[a-z]*\s+(\d{4})$/)
+    if (full && MONTHS.includes(full[2])) {
+      return [{
+        year: Number(full[3]),
+        month: MONTHS.indexOf(full[2]) + 1,
+        day: full[1] ? Number(full[1]) : undefined
+      }]
+    }
+
+    const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+    if (iso) return [{ year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) }]
+
+    const year = text.match(/^(\d{4})$/)
+    return year ? [{ year: Number(year[1]) }] : []
+  }
+
+  // Programs tagged PEP come from politically-exposed-person lists merged into the same file
+  private static listType(programs: string[]): WatchlistListType {
+    return programs.some(p => p.toUpperCase() === 'PEP') ? 'pep' : 'sanctions'
+  }
+
+  // "LASTNAME, First Middle" to "First Middle LASTNAME"
+  private static displayName(name: string): string {
+    const [last, first] = name.split(',').map(part => part.trim())
+    return first ? `${first} ${last}` : last
+  }
+
+  private static remarkValues(remarks: string, pattern: RegExp): string[] {
+    return Array.from(remarks.matchAll(pattern)).map(match => match[1].trim()).filter(Boolean)
+  }
+
+  // Quoted CSV with doubled quotes for escapes; quoted cells may span lines
+  private static csvRows(text: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let cell = ''
+    let quoted = false
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else if (char === '"') {
+          quoted = false
+        } else {
+          cell += char
+        }
+      } else if (char === '"') {
+        quoted = true
+      } else if (char === ',') {
+        row.push(cell)
+        cell = ''
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++
+        row.push(cell)
+        rows.push(row)
+        row = []
+        cell = ''
+      } else {
+        cell += char
+      }
+    }
+    if (cell || row.length > 0) {
+      row.push(cell)
+      rows.push(row)
+    }
+
+    return rows
+  }
+}
+
+export default WatchlistLoader
@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_BACKEND?: 'blink' | 'indexeddb' | 'memory'
+  readonly VITE_AI_PROVIDER?: 'blink' | 'mock' | 'openai'
+  readonly VITE_AI_BASE_URL?: string
+  readonly VITE_AI_MODEL?: string
+  readonly VITE_AI_API_KEY?: string
+}